@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { 
   Mic, 
   BookOpen, 
@@ -7,14 +7,68 @@ import {
   Bell, 
   Image as ImageIcon, 
   Settings, 
-  User
+  User,
+  History,
+  Brain,
+  PanelLeftClose,
+  PanelLeftOpen
 } from 'lucide-react';
-import { ModuleType, Task, Note, Message, AppNotification } from './types.ts';
+import { ModuleType, Task, Note, Message, AssistantHandlers, FlashcardDeck, Quiz, Contact, AppNotification, ReplyDraft, MediaCapture } from './types.ts';
+import { createAssistantTools } from './tools/index.ts';
+import { applyTaskChanges, describeTask, parseDueDate, resolveTask, sortTasks } from './services/tasks.ts';
+import { appendToNote, applyNoteChanges, buildNoteIndex, createNote, describeNote, resolveNote, searchNotes } from './services/notes.ts';
+import { usePersistentState, useStorageFailures } from './hooks/usePersistentState.ts';
+import { useFlashcardReview } from './hooks/useFlashcardReview.ts';
+import { useFocusTimer } from './hooks/useFocusTimer.ts';
+import { useCalls } from './hooks/useCalls.ts';
+import { useMediaPlayer } from './hooks/useMediaPlayer.ts';
+import { useCamera } from './hooks/useCamera.ts';
+import { useConversation } from './hooks/useConversation.ts';
+import { useMemories } from './hooks/useMemories.ts';
+import { useLiveSession } from './hooks/useLiveSession.ts';
+import { useOnline } from './hooks/useOnline.ts';
+import { useToolPermissions } from './hooks/useToolPermissions.ts';
+import { LiveState, createGeminiLiveConnector, liveStatusLabel } from './services/liveSession.ts';
+import { describeMemory, resolveMemory, searchMemories } from './services/memory.ts';
+import { describeTrack, formatClock } from './services/mediaLibrary.ts';
+import { describeCapture } from './services/camera.ts';
+import { useNotificationInbox } from './hooks/useNotificationInbox.ts';
+import { formatRelative } from './services/notifications.ts';
+import { useNotificationTriage } from './hooks/useNotificationTriage.ts';
+import { useReplyDraft } from './hooks/useReplyDraft.ts';
+import { useNotificationRules } from './hooks/useNotificationRules.ts';
+import { activeDndSchedule, taskTextFrom } from './services/notificationRules.ts';
+import { isImportant, triageLabel } from './services/triage.ts';
+import { createSimulatedCallProvider } from './services/callProvider.ts';
+import { formatRemaining, phaseLabel, remainingMs } from './services/focusTimer.ts';
+import { tasksSchema, notesSchema, messagesSchema, decksSchema, quizzesSchema, contactsSchema, assistantSettingsSchema } from './services/schemas.ts';
+import { createContact, formatTime, resolveContact, threadFor, toDisambiguation, unreadCount } from './services/contacts.ts';
+import { createGeminiTextModel } from './services/textModel.ts';
+import { newId } from './services/ids.ts';
+import { createGeminiChatModel } from './services/chatModel.ts';
 import VoiceInteraction from './components/VoiceInteraction.tsx';
 import StudySupport from './components/StudySupport.tsx';
 import Communication from './components/Communication.tsx';
 import NotificationManager from './components/NotificationManager.tsx';
 import Multimedia from './components/Multimedia.tsx';
+import ConversationHistory from './components/ConversationHistory.tsx';
+import MemoryPanel from './components/MemoryPanel.tsx';
+import SettingsPanel from './components/SettingsPanel.tsx';
+import PermissionsPanel from './components/PermissionsPanel.tsx';
+import ToolConfirmDialog from './components/ToolConfirmDialog.tsx';
+import { DEFAULT_SETTINGS } from './services/settings.ts';
+import { createBrowserSpeechEngine } from './services/speech.ts';
+import { resolveUrl } from './services/permissions.ts';
+import CallScreen from './components/CallScreen.tsx';
+import CaptureCountdown from './components/CaptureCountdown.tsx';
+
+const liveStateStyle: Record<LiveState, { text: string; dot: string }> = {
+  idle: { text: 'text-slate-400', dot: 'bg-slate-500' },
+  connecting: { text: 'text-amber-300', dot: 'bg-amber-400 animate-pulse' },
+  live: { text: 'text-emerald-400', dot: 'bg-emerald-400 animate-ping' },
+  reconnecting: { text: 'text-amber-300', dot: 'bg-amber-400 animate-pulse' },
+  failed: { text: 'text-red-400', dot: 'bg-red-500' }
+};
 
 const App: React.FC = () => {
   const [activeModule, setActiveModule] = useState<ModuleType>(ModuleType.VOICE);
@@ -22,83 +76,454 @@ const App: React.FC = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
 
   // Multimedia State
-  const [mediaState, setMediaState] = useState({
-    isPlaying: false,
-    currentTrack: "Infinite Horizon",
-    artist: "Atmospheric Dreams",
-    flashActive: false
+  const player = useMediaPlayer();
+  const camera = useCamera(() => {
+    player.setState(s => ({ ...s, flashActive: true }));
+    setTimeout(() => player.setState(s => ({ ...s, flashActive: false })), 300);
   });
 
-  // Global Content State
-  const [tasks, setTasks] = useState<Task[]>([
-    { id: '1', text: 'Complete Calculus Assignment', completed: false, category: 'study' },
-    { id: '2', text: 'Review Bio-Chemistry notes', completed: true, category: 'study' },
+  // Global Content State (persisted, seeded with demo data on first run)
+  const [tasks, setTasks] = usePersistentState<Task[]>(tasksSchema, [
+    { id: '1', text: 'Complete Calculus Assignment', completed: false, category: 'study', priority: 'high' },
+    { id: '2', text: 'Review Bio-Chemistry notes', completed: true, category: 'study', priority: 'medium' },
   ]);
 
-  const [notes, setNotes] = useState<Note[]>([
-    { id: '1', title: 'Neural Networks Basics', content: 'Focus on backpropagation and activation functions.', date: new Date().toLocaleDateString() },
+  const [notes, setNotes] = usePersistentState<Note[]>(notesSchema, [
+    { id: '1', title: 'Neural Networks Basics', content: 'Focus on **backpropagation** and activation functions.', tags: ['ml'], createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() },
   ]);
 
-  const [messages, setMessages] = useState<Message[]>([
-    { id: '1', contactId: '1', text: "Hey! Can we meet at 5?", timestamp: '2:15 PM', incoming: true },
+  const noteIndex = useMemo(() => buildNoteIndex(notes), [notes]);
+
+  // The tool calls in one model message run back to back before React re-renders, so the handlers
+  // read and change tasks and notes through these refs instead of this render's snapshot.
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const updateTasks = (change: (prev: Task[]) => Task[]) => {
+    tasksRef.current = change(tasksRef.current);
+    setTasks(change);
+  };
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+  const updateNotes = (change: (prev: Note[]) => Note[]) => {
+    notesRef.current = change(notesRef.current);
+    setNotes(change);
+  };
+  // The index is only rebuilt when a tool call has changed the notes since the last render.
+  const latestNotes = () => {
+    const list = notesRef.current;
+    return { list, index: list === notes ? noteIndex : buildNoteIndex(list) };
+  };
+
+  const [decks, setDecks] = usePersistentState<FlashcardDeck[]>(decksSchema, []);
+  const [quizzes, setQuizzes] = usePersistentState<Quiz[]>(quizzesSchema, []);
+  const review = useFlashcardReview(decks);
+  const apiKey = process.env.API_KEY;
+  const textModel = useMemo(() => apiKey ? createGeminiTextModel(apiKey) : null, [apiKey]);
+  const chatModel = useMemo(() => apiKey ? createGeminiChatModel(apiKey) : null, [apiKey]);
+  const liveConnector = useMemo(() => apiKey ? createGeminiLiveConnector(apiKey) : null, [apiKey]);
+  const live = useLiveSession(liveConnector);
+  // Without a key or a network the assistant falls back to local speech and rule-based commands.
+  const online = useOnline();
+  const offline = !liveConnector || !online;
+  const speechEngine = useMemo(() => createBrowserSpeechEngine(), []);
+  const toolPermissions = useToolPermissions(() => ({ replyDraft: replies.current() }));
+  const conversation = useConversation();
+  const memory = useMemories();
+  const [settings, setSettings] = usePersistentState(assistantSettingsSchema, DEFAULT_SETTINGS);
+  const storageFailures = useStorageFailures();
+
+  const [messages, setMessages] = usePersistentState<Message[]>(messagesSchema, [
+    { id: '1', contactId: '1', text: "Hey! Can we meet at 5?", timestamp: '2:15 PM', incoming: true, read: false },
   ]);
 
-  const [notifications] = useState<AppNotification[]>([
-    { id: '1', app: 'WhatsApp', sender: 'Mom', content: 'Did you finish your assignment?', timestamp: '5m ago' },
-    { id: '2', app: 'Instagram', sender: 'John Doe', content: 'Liked your photo', timestamp: '12m ago' },
-    { id: '3', app: 'Slack', sender: 'Dev Team', content: 'New deployment finished.', timestamp: '30m ago' },
+  const [contacts, setContacts] = usePersistentState<Contact[]>(contactsSchema, [
+    { id: '1', name: 'Alice Thompson', phone: '+1 555 0142', avatar: 'AT' },
+    { id: '2', name: 'Alice Nguyen', phone: '+1 555 0199', avatar: 'AN' },
+    { id: '3', name: 'Mom', phone: '+1 555 0100', avatar: 'M' },
+    { id: '4', name: 'Ben Carter', phone: '+1 555 0173', avatar: 'BC' },
   ]);
 
+  const callProvider = useMemo(() => createSimulatedCallProvider(), []);
+  const calls = useCalls(callProvider);
+
+  // Single send path shared by the compose box and the assistant.
+  const sendMessageTo = (contactId: string, text: string) => {
+    const newMsg: Message = { id: newId('msg'), contactId, text, timestamp: formatTime(), incoming: false, read: true };
+    setMessages(prev => [...prev, newMsg]);
+    return newMsg;
+  };
+
+  const markThreadRead = (contactId: string) =>
+    setMessages(prev => prev.some(m => m.contactId === contactId && !m.read) ? prev.map(m => m.contactId === contactId ? { ...m, read: true } : m) : prev);
+
+  const createTask = (text: string, options: Parameters<AssistantHandlers['addTask']>[1] = {}) => {
+    const newTask: Task = {
+      id: newId('task'),
+      text,
+      completed: false,
+      category: options.category ?? 'study',
+      priority: options.priority ?? 'medium',
+      ...(options.dueDate ? { dueDate: parseDueDate(options.dueDate) } : {})
+    };
+    updateTasks(prev => [newTask, ...prev]);
+    return newTask;
+  };
+
+  const focus = useFocusTimer(released => notifications.add(released));
+  const notificationRules = useNotificationRules({
+    deliver: delivered => notifications.add(delivered),
+    createTask: n => createTask(taskTextFrom(n), { category: 'personal' })
+  });
+  const notifications = useNotificationInbox([
+    { id: '1', app: 'WhatsApp', sender: 'Mom', content: 'Did you finish your assignment?', receivedAt: new Date(Date.now() - 5 * 60000).toISOString(), status: 'unread', sourceId: 'mock' },
+    { id: '2', app: 'Instagram', sender: 'John Doe', content: 'Liked your photo', receivedAt: new Date(Date.now() - 12 * 60000).toISOString(), status: 'unread', sourceId: 'mock' },
+    { id: '3', app: 'Slack', sender: 'Dev Team', content: 'New deployment finished.', receivedAt: new Date(Date.now() - 30 * 60000).toISOString(), status: 'unread', sourceId: 'mock' },
+  ], n => notificationRules.route(n, focus.hold));
+  const contactNames = useMemo(() => contacts.map(c => c.name), [contacts]);
+  const triage = useNotificationTriage(notifications.inbox, contactNames, textModel);
+
+  // Replies go out through sendMessageTo like any other message; unknown senders become contacts.
+  const deliverReply = (draft: ReplyDraft) => {
+    const found = resolveContact(contacts, draft.recipient);
+    if (found.status === 'ambiguous') throw new Error(`'${draft.recipient}' matches several contacts; use send_message with the full name instead.`);
+    let contact = found.status === 'found' ? found.contact : null;
+    if (!contact) {
+      contact = createContact(draft.recipient);
+      setContacts(prev => [...prev, contact!]);
+    }
+    sendMessageTo(contact.id, draft.text);
+    notifications.setStatus([draft.notificationId], 'read');
+    return `Reply sent to ${contact.name}.`;
+  };
+  const replies = useReplyDraft(textModel, deliverReply);
+  // Turns the user has taken, counted whether or not they are transcribed; a reply draft records the
+  // count it was shown at, so confirm_reply can't ride along in the same turn.
+  const userTurns = useRef(0);
+
+  const findNotification = (id: string): AppNotification => {
+    const n = notifications.all.find(x => x.id === id);
+    if (!n) throw new Error(`No notification with id '${id}'.`);
+    return n;
+  };
+
+  const threadWith = (sender: string) => {
+    const found = resolveContact(contacts, sender);
+    return found.status === 'found' ? threadFor(messages, found.contact.id) : [];
+  };
+
+  const shareCaptureToNote = (capture: MediaCapture) => {
+    const note = createNote(capture.caption || `${capture.kind === 'photo' ? 'Photo' : 'Video'} ${new Date(capture.createdAt).toLocaleDateString()}`,
+      `${describeCapture(capture)}\n\nSaved in the Media vault as \`${capture.id}\`.`, [capture.kind]);
+    updateNotes(prev => [note, ...prev]);
+    return note;
+  };
+
   // AI Function Handlers
-  const handlers = {
-    addNote: (title: string, content: string) => {
-      const newNote: Note = { id: Date.now().toString(), title, content, date: new Date().toLocaleDateString() };
-      setNotes(prev => [newNote, ...prev]);
+  const handlers: AssistantHandlers = {
+    addNote: (title, content, tags) => {
+      const newNote = createNote(title, content, tags);
+      updateNotes(prev => [newNote, ...prev]);
       return "Successfully added note: " + title;
     },
-    addTask: (text: string) => {
-      const newTask: Task = { id: Date.now().toString(), text, completed: false, category: 'study' };
-      setTasks(prev => [newTask, ...prev]);
-      return "Added task to study list: " + text;
-    },
-    sendMessage: (recipient: string, text: string) => {
-      const newMsg: Message = { id: Date.now().toString(), contactId: 'unknown', text: `To ${recipient}: ${text}`, timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), incoming: false };
-      setMessages(prev => [...prev, newMsg]);
-      return `Message sent to ${recipient}.`;
-    },
-    controlMedia: (action: string) => {
-      if (action === 'play') setMediaState(s => ({ ...s, isPlaying: true }));
-      if (action === 'pause') setMediaState(s => ({ ...s, isPlaying: false }));
-      if (action === 'next') setMediaState(s => ({ ...s, currentTrack: "Neon Nights", artist: "Retro Wave" }));
-      if (action === 'capture') {
-        setMediaState(s => ({ ...s, flashActive: true }));
-        setTimeout(() => setMediaState(s => ({ ...s, flashActive: false })), 300);
-        return "Photo captured successfully!";
+    appendToNote: (ref, text) => {
+      const { list, index } = latestNotes();
+      const note = resolveNote(list, index, ref);
+      const updated = appendToNote(note, text);
+      updateNotes(prev => prev.map(n => n.id === note.id ? updated : n));
+      return `Appended to note "${note.title}".`;
+    },
+    updateNote: (ref, changes) => {
+      const { list, index } = latestNotes();
+      const note = resolveNote(list, index, ref);
+      const updated = applyNoteChanges(note, changes);
+      updateNotes(prev => prev.map(n => n.id === note.id ? updated : n));
+      return `Updated note: ${describeNote(updated)}`;
+    },
+    deleteNote: (ref) => {
+      const { list, index } = latestNotes();
+      const note = resolveNote(list, index, ref);
+      updateNotes(prev => prev.filter(n => n.id !== note.id));
+      return `Deleted note "${note.title}".`;
+    },
+    searchNotes: (query) => {
+      const { list, index } = latestNotes();
+      const found = searchNotes(list, index, query, 5);
+      return found.length ? found.map(n => `[${n.id}] ${describeNote(n)}`).join('\n') : `No notes mention '${query}'.`;
+    },
+    readNote: (ref) => {
+      const { list, index } = latestNotes();
+      return describeNote(resolveNote(list, index, ref), true);
+    },
+    startReview: (deckRef) => {
+      const deck = deckRef ? decks.find(d => d.title.toLowerCase().includes(deckRef.toLowerCase())) : undefined;
+      if (deckRef && !deck) throw new Error(`No flashcard deck matches '${deckRef}'. Decks: ${decks.map(d => d.title).join(', ') || 'none'}`);
+      const first = review.start(deck?.id);
+      return first ? `${first.remaining} cards due. First card: ${first.card.front}` : 'No cards are due for review.';
+    },
+    revealAnswer: () => {
+      const current = review.reveal();
+      return current ? `Answer: ${current.card.back}` : 'There is no card to reveal.';
+    },
+    gradeCard: (answer) => {
+      const { record, next } = review.grade(answer);
+      const scheduled = `Marked ${answer}; next review in ${record.intervalAfter} day(s).`;
+      return next ? `${scheduled} Next card: ${next.card.front}` : `${scheduled} Review complete!`;
+    },
+    endReview: () => `Review ended after ${review.end()} card(s).`,
+    addTask: (text, options = {}) => {
+      const newTask = createTask(text, options);
+      return `Added task to ${newTask.category} list: ${describeTask(newTask)}`;
+    },
+    updateTask: (ref, changes) => {
+      const task = resolveTask(tasksRef.current, ref);
+      const updated = applyTaskChanges(task, changes);
+      updateTasks(prev => prev.map(t => t.id === task.id ? updated : t));
+      return `Updated task: ${describeTask(updated)}`;
+    },
+    deleteTask: (ref) => {
+      const task = resolveTask(tasksRef.current, ref);
+      updateTasks(prev => prev.filter(t => t.id !== task.id));
+      return `Deleted task "${task.text}".`;
+    },
+    listTasks: ({ category, includeCompleted } = {}) => {
+      const matching = sortTasks(tasksRef.current).filter(t =>
+        (!category || t.category === category) && (includeCompleted || !t.completed));
+      return matching.length ? matching.map(t => `[${t.id}] ${describeTask(t)}`).join('\n') : 'No matching tasks.';
+    },
+    sendMessage: (recipient, text) => {
+      const found = resolveContact(contacts, recipient);
+      if (found.status !== 'found') return toDisambiguation(recipient, found);
+      sendMessageTo(found.contact.id, text);
+      return `Message sent to ${found.contact.name}.`;
+    },
+    readMessages: (ref) => {
+      const found = resolveContact(contacts, ref);
+      if (found.status !== 'found') return toDisambiguation(ref, found);
+      const thread = threadFor(messages, found.contact.id).slice(-10);
+      markThreadRead(found.contact.id);
+      if (!thread.length) return `No messages with ${found.contact.name} yet.`;
+      return thread.map(m => `${m.incoming ? found.contact.name : 'You'} (${m.timestamp}): ${m.text}`).join('\n');
+    },
+    addContact: (name, phone) => {
+      const contact = createContact(name, phone);
+      setContacts(prev => [...prev, contact]);
+      return `Added ${contact.name} to contacts.`;
+    },
+    updateContact: (ref, changes) => {
+      const found = resolveContact(contacts, ref);
+      if (found.status !== 'found') return toDisambiguation(ref, found);
+      const name = changes.name?.trim() || found.contact.name;
+      const updated = { ...found.contact, name, avatar: createContact(name).avatar, phone: changes.phone ?? found.contact.phone };
+      setContacts(prev => prev.map(c => c.id === updated.id ? updated : c));
+      return `Updated ${updated.name}${updated.phone ? ` (${updated.phone})` : ''}.`;
+    },
+    deleteContact: (ref) => {
+      const found = resolveContact(contacts, ref);
+      if (found.status !== 'found') return toDisambiguation(ref, found);
+      setContacts(prev => prev.filter(c => c.id !== found.contact.id));
+      return `Deleted ${found.contact.name}.`;
+    },
+    listContacts: () => contacts.length
+      ? contacts.map(c => `[${c.id}] ${c.name}${c.phone ? ` ${c.phone}` : ''}${unreadCount(messages, c.id) ? ` (${unreadCount(messages, c.id)} unread)` : ''}`).join('\n')
+      : 'No contacts yet.',
+    placeCall: (ref) => {
+      const found = resolveContact(contacts, ref);
+      if (found.status !== 'found') return toDisambiguation(ref, found);
+      calls.place(found.contact);
+      return `Calling ${found.contact.name}${found.contact.phone ? ` on ${found.contact.phone}` : ''}...`;
+    },
+    answerCall: () => {
+      if (calls.active?.direction !== 'incoming' || calls.active.status !== 'ringing') throw new Error('There is no incoming call to answer.');
+      calls.accept();
+      return `Connected to ${contacts.find(c => c.id === calls.active!.contactId)?.name ?? 'caller'}.`;
+    },
+    endCall: () => {
+      const call = calls.active;
+      if (call?.direction === 'incoming' && call.status === 'ringing') {
+        calls.decline();
+        return 'Call declined.';
+      }
+      calls.hangUp();
+      return 'Call ended.';
+    },
+    controlMedia: (command) => {
+      const { state, tracks, current } = player;
+      const trackAt = (offset: number) => {
+        const id = state.queue[state.queueIndex + offset] ?? (state.repeat === 'all' ? state.queue[(state.queueIndex + offset + state.queue.length) % state.queue.length] : undefined);
+        return tracks.find(t => t.id === id);
+      };
+      const selector = { query: command.query, artist: command.artist, album: command.album, playlist: command.playlist };
+      const hasSelector = Object.values(selector).some(Boolean);
+      switch (command.action) {
+        case 'play': {
+          if (!hasSelector) {
+            if (!current && !tracks.length) throw new Error('The music library is empty. Import some audio files in the Media tab first.');
+            player.play();
+            return current ? `Playing ${describeTrack(current)}.` : 'Playing your library.';
+          }
+          const selection = player.select(selector);
+          player.playTracks(selection.trackIds);
+          const first = tracks.find(t => t.id === selection.trackIds[0])!;
+          const count = selection.trackIds.length > 1 ? ` (${selection.trackIds.length} tracks${state.shuffle ? ', shuffled' : ''})` : '';
+          return `Playing ${selection.label}${count}, starting with ${describeTrack(first)}.`;
+        }
+        case 'queue': {
+          const selection = player.select(selector);
+          player.enqueueTracks(selection.trackIds);
+          return `Added ${selection.trackIds.length} track${selection.trackIds.length === 1 ? '' : 's'} (${selection.label}) to the queue.`;
+        }
+        case 'pause':
+          player.pause();
+          return 'Paused.';
+        case 'next': {
+          const upcoming = trackAt(1);
+          player.next();
+          return upcoming ? `Skipping to ${describeTrack(upcoming)}.` : 'That was the last track in the queue.';
+        }
+        case 'previous': {
+          // previous() rewinds or moves the queue, so decide what it will do before calling it.
+          const restart = player.audio.currentTime > 3;
+          const target = trackAt(-1);
+          player.previous();
+          return restart || !target ? 'Restarting the track.' : `Going back to ${describeTrack(target)}.`;
+        }
+        case 'seek':
+          if (!current) throw new Error('Nothing is playing.');
+          player.seek(command.positionSec!);
+          return `Jumped to ${formatClock(command.positionSec!)}.`;
+        case 'volume':
+          player.setVolume(command.volume! / 100);
+          return `Volume set to ${Math.round(command.volume!)}%.`;
+        case 'shuffle':
+          player.setShuffle(command.enabled!);
+          return `Shuffle ${command.enabled ? 'on' : 'off'}.`;
+        case 'repeat':
+          player.setRepeat(command.repeat!);
+          return command.repeat === 'off' ? 'Repeat off.' : `Repeating ${command.repeat === 'one' ? 'this track' : 'the queue'}.`;
+        case 'status':
+          return JSON.stringify({
+            nowPlaying: current ? describeTrack(current) : null,
+            playing: state.isPlaying,
+            position: current ? `${formatClock(player.audio.currentTime)} / ${formatClock(current.durationSec)}` : undefined,
+            upNext: trackAt(1) ? describeTrack(trackAt(1)!) : null,
+            queueLength: state.queue.length,
+            volume: Math.round(state.volume * 100),
+            shuffle: state.shuffle,
+            repeat: state.repeat,
+            libraryTracks: tracks.length,
+            playlists: player.playlists.map(p => p.name)
+          });
       }
-      return `Media ${action}ed.`;
     },
-    getNotifications: () => JSON.stringify(notifications),
+    takePhoto: async (countdownSec = 3, caption) => {
+      const capture = await camera.takePhoto({ countdownSec, caption });
+      return `Photo saved to the vault${capture.caption ? ` with caption "${capture.caption}"` : ''}.`;
+    },
+    getNotifications: ({ scope = 'important', category, markRead } = {}) => {
+      const selected = triage.triaged.filter(t =>
+        category ? t.triage.category === category : scope === 'all' || isImportant(t));
+      if (markRead) notifications.setStatus(selected.map(t => t.notification.id), 'read');
+      const skipped = triage.triaged.length - selected.length;
+      return JSON.stringify({
+        notifications: selected.map(({ notification: n, triage: t }) => ({
+          id: n.id, app: n.app, sender: n.sender, content: n.content,
+          received: formatRelative(n.receivedAt), unread: n.status === 'unread',
+          category: triageLabel[t.category], why: t.reasons.join(', ')
+        })),
+        ...(skipped ? { omitted: `${skipped} lower-priority notification(s) not included` } : {})
+      });
+    },
+    classifyNotification: (id, category) => {
+      const n = findNotification(id);
+      triage.correct(n, category);
+      return `Got it: ${n.sender} on ${n.app} will be treated as ${triageLabel[category]} from now on.`;
+    },
+    suggestReplies: async (id) => {
+      const n = findNotification(id);
+      const draft = await replies.suggest(n, threadWith(n.sender), userTurns.current);
+      return JSON.stringify({ to: n.sender, message: n.content, suggestions: draft.suggestions });
+    },
+    draftReply: (id, text) => {
+      const draft = replies.compose(findNotification(id), text, userTurns.current);
+      return `Draft ${draft.id} to ${draft.recipient}: "${draft.text}". Not sent yet — read it back and ask the user to confirm.`;
+    },
+    confirmReply: (draftId) => replies.confirmSpoken(draftId, userTurns.current),
+    cancelReply: () => {
+      if (!replies.draft) return 'There was no reply pending.';
+      replies.discard();
+      return 'Reply discarded.';
+    },
+    setDoNotDisturb: (enabled) => {
+      notificationRules.setDnd({ ...notificationRules.dnd, manual: enabled });
+      if (enabled) return 'Do Not Disturb is on. I will stay quiet about new notifications.';
+      const schedule = activeDndSchedule(notificationRules.dnd, new Date());
+      return schedule ? `Do Not Disturb is off, but ${schedule.label} quiet hours are still in effect.` : 'Do Not Disturb is off.';
+    },
+    startFocus: (minutes, taskRef) => {
+      const task = taskRef ? resolveTask(tasksRef.current, taskRef) : undefined;
+      const { state: started, log, released } = focus.start({ minutes, taskId: task?.id });
+      const previous = log ? `Ended the previous session after ${log.focusedMinutes} minute(s)${released.length ? ` and released ${released.length} held notification(s)` : ''}. ` : '';
+      return `${previous}Started a ${started.plannedMinutes} minute focus session${task ? ` on "${task.text}"` : ''}. Notifications are on hold until it ends.`;
+    },
+    pauseFocus: () => {
+      const paused = focus.pause();
+      return `Focus paused with ${formatRemaining(remainingMs(paused))} left.`;
+    },
+    resumeFocus: () => {
+      focus.resume();
+      return 'Focus resumed.';
+    },
+    stopFocus: () => {
+      const { log, released } = focus.stop();
+      const summary = log ? `Focus session ended after ${log.focusedMinutes} minute(s).` : 'Timer stopped.';
+      return released.length ? `${summary} ${released.length} held notification(s) released.` : summary;
+    },
+    getFocusStatus: () => {
+      const state = focus.current();
+      if (!state.phase) return `No focus session running. ${state.completedWorkSessions} completed this cycle.`;
+      const task = state.taskId ? tasksRef.current.find(t => t.id === state.taskId) : undefined;
+      return `${phaseLabel[state.phase]}${task ? ` on "${task.text}"` : ''}: ${formatRemaining(remainingMs(state))} left${state.endsAt ? '' : ' (paused)'}.`;
+    },
+    remember: (fact) => {
+      const { memory: saved, existed } = memory.remember(fact, 'assistant');
+      return existed ? `I already remembered that: ${describeMemory(saved)}.` : `Remembered: "${saved.text}".`;
+    },
+    recall: (query) => {
+      const found = query?.trim()
+        ? searchMemories(memory.memories, memory.index, query, 10)
+        : [...memory.memories].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)).slice(0, 10);
+      if (!found.length) return query ? `Nothing remembered about '${query}'.` : 'Nothing remembered yet.';
+      return found.map(m => `[${m.id}] ${describeMemory(m)}`).join('\n');
+    },
+    forget: (ref) => {
+      const found = resolveMemory(memory.memories, memory.index, ref);
+      memory.forget(found.id);
+      return `Forgot "${found.text}".`;
+    },
     getTime: () => new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
     openUrl: (target: string) => {
-      let url = target.toLowerCase();
-      if (url.includes('google')) url = 'https://google.com';
-      else if (url.includes('youtube')) url = 'https://youtube.com';
-      else if (!url.startsWith('http')) url = `https://${url}`;
+      // The allow/deny lists are checked against the same resolved URL before this runs.
+      const url = resolveUrl(target);
       window.open(url, '_blank');
       return `Opening ${url}`;
     }
   };
 
+  // Every tool call, from voice, chat or offline commands, passes the user's permission policy.
+  const toolRegistry = toolPermissions.guard(createAssistantTools(handlers));
+
   const modules = [
     { id: ModuleType.VOICE, icon: Mic, label: 'Voice Assistant' },
     { id: ModuleType.STUDY, icon: BookOpen, label: 'Study Support' },
     { id: ModuleType.COMMUNICATION, icon: Phone, label: 'Calls & Texts' },
     { id: ModuleType.NOTIFICATIONS, icon: Bell, label: 'Notifications' },
     { id: ModuleType.MULTIMEDIA, icon: ImageIcon, label: 'Multimedia' },
+    { id: ModuleType.HISTORY, icon: History, label: 'History' },
+    { id: ModuleType.MEMORY, icon: Brain, label: 'Memory' },
   ];
 
   return (
-    <div className={`flex h-screen overflow-hidden bg-[#020617] text-slate-100 transition-colors duration-300 ${mediaState.flashActive ? 'bg-white' : ''}`}>
+    <div className={`flex h-screen overflow-hidden bg-[#020617] text-slate-100 transition-colors duration-300 ${player.state.flashActive ? 'bg-white' : ''}`}>
       {/* Sidebar */}
       <aside className={`${isSidebarOpen ? 'w-64' : 'w-20'} flex flex-col transition-all duration-300 border-r border-slate-800 bg-slate-900/40 backdrop-blur-2xl z-50`}>
         <div className="p-6 flex items-center gap-3">
@@ -117,11 +542,15 @@ const App: React.FC = () => {
             </button>
           ))}
         </nav>
-        <div className="p-4 border-t border-slate-800">
-          <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="w-full flex items-center gap-4 px-4 py-3 text-slate-400 hover:text-white transition-colors">
+        <div className="p-4 border-t border-slate-800 space-y-1">
+          <button onClick={() => setActiveModule(ModuleType.SETTINGS)} className={`w-full flex items-center gap-4 px-4 py-3 rounded-xl transition-colors ${activeModule === ModuleType.SETTINGS ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}>
             <Settings size={22} />
             {isSidebarOpen && <span className="font-medium text-sm">Settings</span>}
           </button>
+          <button onClick={() => setIsSidebarOpen(!isSidebarOpen)} className="w-full flex items-center gap-4 px-4 py-3 text-slate-500 hover:text-white transition-colors">
+            {isSidebarOpen ? <PanelLeftClose size={22} /> : <PanelLeftOpen size={22} />}
+            {isSidebarOpen && <span className="font-medium text-sm">Collapse</span>}
+          </button>
         </div>
       </aside>
 
@@ -130,10 +559,11 @@ const App: React.FC = () => {
         <header className="h-16 px-8 flex items-center justify-between border-b border-slate-800/50 bg-slate-900/30 backdrop-blur-md">
           <div className="flex items-center gap-2">
             <span className="text-slate-500 text-xs font-bold uppercase tracking-widest">System Status:</span>
-            <span className="flex items-center gap-1.5 text-emerald-400 font-medium text-sm">
-              <span className="w-2 h-2 rounded-full bg-emerald-400 animate-ping"></span>
-              Synchronized
+            <span className={`flex items-center gap-1.5 font-medium text-sm ${liveStateStyle[live.status.state].text}`} title={live.status.error}>
+              <span className={`w-2 h-2 rounded-full ${liveStateStyle[live.status.state].dot}`}></span>
+              {liveStatusLabel(live.status)}
             </span>
+            {offline && <span className="text-xs font-bold text-amber-300 uppercase tracking-widest">Offline mode</span>}
           </div>
 
           <div className="flex items-center gap-4">
@@ -159,14 +589,37 @@ const App: React.FC = () => {
         {/* Module Display */}
         <div className="flex-1 overflow-y-auto p-6 md:p-10 custom-scrollbar">
           <div className="max-w-6xl mx-auto w-full h-full">
-            {activeModule === ModuleType.VOICE && <VoiceInteraction handlers={handlers} />}
-            {activeModule === ModuleType.STUDY && <StudySupport tasks={tasks} notes={notes} />}
-            {activeModule === ModuleType.COMMUNICATION && <Communication messages={messages} />}
-            {activeModule === ModuleType.NOTIFICATIONS && <NotificationManager notifications={notifications} />}
-            {activeModule === ModuleType.MULTIMEDIA && <Multimedia mediaState={mediaState} setMediaState={setMediaState} />}
+            {activeModule === ModuleType.VOICE && <VoiceInteraction toolRegistry={toolRegistry} announcements={notificationRules.announcements} onAnnounced={notificationRules.acknowledge} camera={camera} onSaveNote={handlers.addNote} conversation={conversation} chatModel={chatModel} memory={memory} settings={settings} live={live} offline={offline} speech={speechEngine} confirmation={toolPermissions.pending} onConfirm={toolPermissions.answer} onUserTurn={() => { userTurns.current++; }} />}
+            {activeModule === ModuleType.STUDY && (
+              <StudySupport
+                tasks={tasks} notes={notes} noteIndex={noteIndex} setTasks={setTasks} setNotes={setNotes}
+                decks={decks} quizzes={quizzes} setDecks={setDecks} setQuizzes={setQuizzes} textModel={textModel} review={review} focus={focus}
+              />
+            )}
+            {activeModule === ModuleType.COMMUNICATION && (
+              <Communication
+                contacts={contacts} messages={messages} setContacts={setContacts}
+                onSend={sendMessageTo} onOpenThread={markThreadRead}
+                calls={calls} onSimulateIncoming={contact => callProvider.simulateIncoming(contact)}
+              />
+            )}
+            {activeModule === ModuleType.NOTIFICATIONS && <NotificationManager notifications={notifications} rules={notificationRules} triage={triage} replies={replies} threadWith={threadWith} focus={focus} />}
+            {activeModule === ModuleType.MULTIMEDIA && <Multimedia player={player} camera={camera} onShareToNote={shareCaptureToNote} />}
+            {activeModule === ModuleType.HISTORY && <ConversationHistory conversation={conversation} onResume={() => setActiveModule(ModuleType.VOICE)} />}
+            {activeModule === ModuleType.MEMORY && <MemoryPanel memory={memory} />}
+            {activeModule === ModuleType.SETTINGS && (
+              <div className="space-y-8">
+                <SettingsPanel settings={settings} onSave={setSettings} storageFailures={storageFailures} />
+                <PermissionsPanel tools={toolRegistry.names()} permissions={toolPermissions} />
+              </div>
+            )}
           </div>
         </div>
       </main>
+
+      {camera.countdown !== null && <CaptureCountdown camera={camera} />}
+      {toolPermissions.pending && <ToolConfirmDialog key={toolPermissions.pending.id} confirmation={toolPermissions.pending} onAnswer={toolPermissions.answer} speech={speechEngine} lang={settings.language} />}
+      {calls.active && <CallScreen call={calls.active} contact={contacts.find(c => c.id === calls.active!.contactId)} calls={calls} />}
     </div>
   );
 };
@@ -0,0 +1,50 @@
+import React, { useEffect, useRef } from 'react';
+
+interface AudioVisualizerProps {
+  analyser: AnalyserNode | null;
+  bars?: number;
+}
+
+/**
+ * Frequency bars drawn straight from the capture analyser. Heights are written to the DOM in an
+ * animation frame loop, so the visualiser never re-renders the component tree.
+ */
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ analyser, bars = 24 }) => {
+  const barRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    if (!analyser) return;
+    const bins = new Uint8Array(analyser.frequencyBinCount);
+    // Speech sits in the lower part of the spectrum; spread the bars over the first two thirds.
+    const usable = Math.floor(bins.length * 2 / 3);
+    let frame = 0;
+    const draw = () => {
+      analyser.getByteFrequencyData(bins);
+      for (let i = 0; i < bars; i++) {
+        const from = Math.floor(i * usable / bars);
+        const to = Math.max(from + 1, Math.floor((i + 1) * usable / bars));
+        let sum = 0;
+        for (let j = from; j < to; j++) sum += bins[j];
+        const value = sum / (to - from) / 255;
+        const bar = barRefs.current[i];
+        if (bar) {
+          bar.style.height = `${8 + value * 92}%`;
+          bar.style.opacity = `${0.25 + value * 0.75}`;
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, bars]);
+
+  return (
+    <div className="flex gap-3 h-32 items-center">
+      {Array.from({ length: bars }, (_, i) => (
+        <div key={i} ref={el => { barRefs.current[i] = el; }} className="w-1.5 bg-blue-500 rounded-full transition-[height] duration-75" style={{ height: '8%', opacity: 0.25 }} />
+      ))}
+    </div>
+  );
+};
+
+export default AudioVisualizer;
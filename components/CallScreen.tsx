@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { Phone, PhoneOff, PhoneIncoming } from 'lucide-react';
+import { CallRecord, Contact } from '../types';
+import { Calls } from '../hooks/useCalls';
+import { formatDuration } from '../services/contacts';
+
+interface CallScreenProps {
+  call: CallRecord;
+  contact?: Contact;
+  calls: Calls;
+}
+
+const CallScreen: React.FC<CallScreenProps> = ({ call, contact, calls }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (call.status !== 'active') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [call.status]);
+
+  const isIncomingRing = call.direction === 'incoming' && call.status === 'ringing';
+  const statusText = call.status === 'active'
+    ? formatDuration(Math.max(0, Math.round((now - Date.parse(call.answeredAt!)) / 1000)))
+    : isIncomingRing ? 'Incoming call' : call.status === 'ringing' ? 'Ringing...' : 'Calling...';
+
+  return (
+    <div className="fixed bottom-8 right-8 z-[70] w-80 glass-panel bg-slate-950/90 rounded-[2.5rem] p-8 flex flex-col items-center gap-6 shadow-2xl shadow-blue-600/20 animate-in slide-in-from-bottom-6 duration-500">
+      <div className={`w-24 h-24 rounded-full bg-blue-600 flex items-center justify-center text-3xl font-black ${call.status !== 'active' ? 'animate-pulse' : ''}`}>
+        {contact?.avatar ?? '?'}
+      </div>
+      <div className="text-center space-y-1">
+        <div className="text-xl font-bold">{contact?.name ?? 'Unknown caller'}</div>
+        <div className="text-sm text-slate-400 tabular-nums">{statusText}</div>
+      </div>
+      <div className="flex gap-6">
+        {isIncomingRing ? (
+          <>
+            <button onClick={calls.decline} className="w-16 h-16 rounded-full bg-red-600 hover:bg-red-500 flex items-center justify-center"><PhoneOff size={28} /></button>
+            <button onClick={calls.accept} className="w-16 h-16 rounded-full bg-emerald-600 hover:bg-emerald-500 flex items-center justify-center animate-bounce"><PhoneIncoming size={28} /></button>
+          </>
+        ) : (
+          <button onClick={() => calls.hangUp()} className="w-16 h-16 rounded-full bg-red-600 hover:bg-red-500 flex items-center justify-center"><Phone size={28} className="rotate-[135deg]" /></button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallScreen;
@@ -0,0 +1,20 @@
+import React, { useEffect, useRef } from 'react';
+
+interface CameraPreviewProps {
+  stream: MediaStream | null;
+  className?: string;
+}
+
+const CameraPreview: React.FC<CameraPreviewProps> = ({ stream, className }) => {
+  const ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!ref.current) return;
+    ref.current.srcObject = stream;
+    if (stream) ref.current.play().catch(() => {});
+  }, [stream]);
+
+  return <video ref={ref} muted playsInline className={`object-cover -scale-x-100 ${className ?? ''}`} />;
+};
+
+export default CameraPreview;
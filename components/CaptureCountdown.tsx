@@ -0,0 +1,21 @@
+import React from 'react';
+import { Camera as CameraIcon } from 'lucide-react';
+import { Camera } from '../hooks/useCamera';
+import CameraPreview from './CameraPreview';
+
+interface CaptureCountdownProps {
+  camera: Camera;
+}
+
+// Shown over every screen while a timed photo counts down, so voice captures can be framed.
+const CaptureCountdown: React.FC<CaptureCountdownProps> = ({ camera }) => (
+  <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[70] w-80 glass-panel bg-slate-950/90 rounded-[2.5rem] p-4 flex flex-col items-center gap-3 shadow-2xl shadow-blue-600/20 animate-in slide-in-from-bottom-6 duration-500">
+    <div className="relative w-full aspect-video rounded-3xl overflow-hidden bg-black">
+      <CameraPreview stream={camera.stream} className="w-full h-full" />
+      <div className="absolute inset-0 flex items-center justify-center text-7xl font-black text-white drop-shadow-lg">{camera.countdown}</div>
+    </div>
+    <div className="flex items-center gap-2 text-xs text-slate-400"><CameraIcon size={14} /> Smile!</div>
+  </div>
+);
+
+export default CaptureCountdown;
@@ -1,48 +1,205 @@
-
-import React from 'react';
-import { Phone, Send, PhoneCall } from 'lucide-react';
-import { Message } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Phone, Send, PhoneCall, UserPlus, Pencil, Trash2, Search, Check, X, PhoneIncoming, PhoneOutgoing, PhoneMissed } from 'lucide-react';
+import { CallRecord, Contact, Message } from '../types';
+import { createContact, formatDuration, initials, searchContacts, threadFor, unreadCount } from '../services/contacts';
+import { Calls } from '../hooks/useCalls';
 
 interface CommunicationProps {
+  contacts: Contact[];
   messages: Message[];
+  setContacts: React.Dispatch<React.SetStateAction<Contact[]>>;
+  onSend: (contactId: string, text: string) => void;
+  onOpenThread: (contactId: string) => void;
+  calls: Calls;
+  onSimulateIncoming: (contact: Contact) => void;
+}
+
+const callIcon = (call: CallRecord) => {
+  if (call.status === 'missed' || call.status === 'declined' || call.status === 'failed') return <PhoneMissed size={18} className="text-red-400" />;
+  return call.direction === 'incoming' ? <PhoneIncoming size={18} className="text-emerald-400" /> : <PhoneOutgoing size={18} className="text-blue-400" />;
+};
+
+const callDetail = (call: CallRecord) => {
+  if (call.status === 'ended') return formatDuration(call.durationSec);
+  if (call.status === 'failed') return call.endReason === 'busy' ? 'Busy' : 'No answer';
+  return call.status.charAt(0).toUpperCase() + call.status.slice(1);
+};
+
+interface ContactFormProps {
+  contact?: Contact;
+  onSave: (name: string, phone: string) => void;
+  onCancel: () => void;
 }
 
-const Communication: React.FC<CommunicationProps> = ({ messages }) => {
+const ContactForm: React.FC<ContactFormProps> = ({ contact, onSave, onCancel }) => {
+  const [name, setName] = useState(contact?.name ?? '');
+  const [phone, setPhone] = useState(contact?.phone ?? '');
+  const save = () => { if (name.trim()) onSave(name, phone); };
+
+  return (
+    <div className="m-2 p-3 rounded-2xl bg-slate-900 border border-slate-800 space-y-2">
+      <input autoFocus value={name} onChange={e => setName(e.target.value)} placeholder="Name" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm" />
+      <input value={phone} onChange={e => setPhone(e.target.value)} onKeyDown={e => e.key === 'Enter' && save()} placeholder="Phone" className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm" />
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="p-1.5 bg-slate-800 rounded-lg"><X size={16} /></button>
+        <button onClick={save} className="p-1.5 bg-blue-600 rounded-lg"><Check size={16} /></button>
+      </div>
+    </div>
+  );
+};
+
+const Communication: React.FC<CommunicationProps> = ({ contacts, messages, setContacts, onSend, onOpenThread, calls, onSimulateIncoming }) => {
+  const [tab, setTab] = useState<'messages' | 'calls'>('messages');
+  const [activeId, setActiveId] = useState<string | null>(contacts[0]?.id ?? null);
+  const [draft, setDraft] = useState('');
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<Contact | 'new' | null>(null);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const active = contacts.find(c => c.id === activeId) ?? null;
+  const thread = active ? threadFor(messages, active.id) : [];
+  const listed = query.trim() ? searchContacts(contacts, query).map(m => m.contact) : contacts;
+
+  useEffect(() => {
+    if (!active && contacts.length) setActiveId(contacts[0].id);
+  }, [contacts, active]);
+
+  useEffect(() => {
+    if (active) onOpenThread(active.id);
+    threadEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [active?.id, thread.length]);
+
+  const send = () => {
+    if (!active || !draft.trim()) return;
+    onSend(active.id, draft.trim());
+    setDraft('');
+  };
+
+  const saveContact = (name: string, phone: string) => {
+    if (editing === 'new') {
+      const contact = createContact(name, phone);
+      setContacts(prev => [...prev, contact]);
+      setActiveId(contact.id);
+    } else if (editing) {
+      setContacts(prev => prev.map(c => c.id === editing.id ? { ...c, name: name.trim(), phone: phone.trim(), avatar: initials(name) } : c));
+    }
+    setEditing(null);
+  };
+
+  const deleteContact = (id: string) => {
+    setContacts(prev => prev.filter(c => c.id !== id));
+    if (activeId === id) setActiveId(null);
+  };
+
   return (
     <div className="h-full flex flex-col gap-6">
       <div className="flex items-center justify-between">
         <div className="flex gap-1 bg-slate-900 p-1 rounded-2xl border border-slate-800">
-          <button className="px-6 py-2 rounded-xl bg-blue-600 text-white">Messages</button>
-          <button className="px-6 py-2 rounded-xl text-slate-400">Calls</button>
+          <button onClick={() => setTab('messages')} className={`px-6 py-2 rounded-xl ${tab === 'messages' ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Messages</button>
+          <button onClick={() => setTab('calls')} className={`px-6 py-2 rounded-xl ${tab === 'calls' ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Calls</button>
         </div>
+        {tab === 'calls' && (
+          <div className="flex gap-2">
+            {active && (
+              <button onClick={() => onSimulateIncoming(active)} disabled={!!calls.active} className="px-4 py-2 rounded-xl bg-slate-900 border border-slate-800 text-sm text-slate-400 hover:text-white disabled:opacity-40">
+                Simulate call from {active.name}
+              </button>
+            )}
+            {calls.log.length > 0 && <button onClick={calls.clearLog} className="px-4 py-2 text-sm text-slate-500 hover:text-white">Clear Log</button>}
+          </div>
+        )}
       </div>
 
       <div className="flex-1 grid md:grid-cols-3 gap-6 overflow-hidden">
         <div className="glass-panel rounded-3xl overflow-hidden flex flex-col">
-          <div className="p-4 border-b border-slate-800"><h3 className="font-bold text-slate-400 text-xs tracking-widest uppercase">Contacts</h3></div>
-          <div className="p-4 flex items-center gap-3 hover:bg-slate-800 cursor-pointer rounded-2xl m-2">
-            <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center font-bold">AT</div>
-            <div className="text-sm font-bold">Alice Thompson</div>
+          <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+            <h3 className="font-bold text-slate-400 text-xs tracking-widest uppercase">Contacts</h3>
+            <button onClick={() => setEditing('new')} className="text-slate-400 hover:text-white"><UserPlus size={18} /></button>
+          </div>
+          <div className="p-2 relative">
+            <Search size={14} className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Find contact..." className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-8 pr-3 py-1.5 text-sm" />
+          </div>
+          {editing === 'new' && <ContactForm onSave={saveContact} onCancel={() => setEditing(null)} />}
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {listed.map(contact => {
+              const unread = unreadCount(messages, contact.id);
+              return editing !== 'new' && editing?.id === contact.id ? (
+                <ContactForm key={contact.id} contact={contact} onSave={saveContact} onCancel={() => setEditing(null)} />
+              ) : (
+                <div key={contact.id} onClick={() => setActiveId(contact.id)} className={`p-4 flex items-center gap-3 hover:bg-slate-800 cursor-pointer rounded-2xl m-2 group ${activeId === contact.id ? 'bg-slate-800' : ''}`}>
+                  <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center font-bold flex-shrink-0">{contact.avatar}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-bold truncate">{contact.name}</div>
+                    <div className="text-xs text-slate-500 truncate">{threadFor(messages, contact.id).slice(-1)[0]?.text ?? contact.phone}</div>
+                  </div>
+                  {unread > 0 && <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-blue-600 text-[10px] font-black flex items-center justify-center">{unread}</span>}
+                  <div className="hidden group-hover:flex gap-1">
+                    <button onClick={e => { e.stopPropagation(); calls.place(contact); }} disabled={!!calls.active} className="p-1 text-slate-500 hover:text-emerald-400 disabled:opacity-40"><PhoneCall size={14} /></button>
+                    <button onClick={e => { e.stopPropagation(); setEditing(contact); }} className="p-1 text-slate-500 hover:text-white"><Pencil size={14} /></button>
+                    <button onClick={e => { e.stopPropagation(); deleteContact(contact.id); }} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
 
-        <div className="md:col-span-2 glass-panel rounded-3xl flex flex-col overflow-hidden">
-          <div className="p-4 border-b border-slate-800 flex items-center justify-between bg-slate-900/50 font-bold">Alice Thompson</div>
-          <div className="flex-1 overflow-y-auto p-6 space-y-4">
-            {messages.map(msg => (
-              <div key={msg.id} className={`flex ${msg.incoming ? 'justify-start' : 'justify-end'}`}>
-                <div className={`max-w-[75%] p-3 px-4 rounded-2xl text-sm ${msg.incoming ? 'bg-slate-800' : 'bg-blue-600'}`}>
-                  {msg.text}
-                  <div className="text-[10px] mt-1 opacity-50">{msg.timestamp}</div>
-                </div>
-              </div>
-            ))}
+        {tab === 'calls' ? (
+          <div className="md:col-span-2 glass-panel rounded-3xl flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-slate-800 bg-slate-900/50 font-bold">Recent Calls</div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+              {calls.log.length === 0 && <p className="text-sm text-slate-500 text-center p-6">No calls yet. Ask V1 to call someone.</p>}
+              {calls.log.map(call => {
+                const contact = contacts.find(c => c.id === call.contactId);
+                return (
+                  <div key={call.id} className="p-3 rounded-2xl flex items-center gap-4 hover:bg-slate-900/60">
+                    <div className="p-2 bg-slate-800 rounded-lg">{callIcon(call)}</div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-bold truncate">{contact?.name ?? 'Unknown'}</div>
+                      <div className="text-xs text-slate-500">{new Date(call.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</div>
+                    </div>
+                    <span className="text-xs text-slate-400 tabular-nums">{callDetail(call)}</span>
+                    {contact && (
+                      <button onClick={() => calls.place(contact)} disabled={!!calls.active} className="p-2 text-slate-500 hover:text-emerald-400 disabled:opacity-40"><PhoneCall size={16} /></button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
-          <div className="p-4 border-t border-slate-800 flex gap-2">
-            <input type="text" placeholder="Type a message..." className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2" />
-            <button className="p-2 bg-blue-600 rounded-xl"><Send size={18} /></button>
+        ) : (
+          <div className="md:col-span-2 glass-panel rounded-3xl flex flex-col overflow-hidden">
+            <div className="p-4 border-b border-slate-800 flex items-center justify-between bg-slate-900/50 font-bold">
+              <span>{active?.name ?? 'No contact selected'}</span>
+              {active?.phone && <span className="flex items-center gap-2 text-xs text-slate-500 font-medium"><Phone size={14} /> {active.phone}</span>}
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-4">
+              {active && thread.length === 0 && <p className="text-sm text-slate-500 text-center">No messages with {active.name} yet.</p>}
+              {thread.map(msg => (
+                <div key={msg.id} className={`flex ${msg.incoming ? 'justify-start' : 'justify-end'}`}>
+                  <div className={`max-w-[75%] p-3 px-4 rounded-2xl text-sm ${msg.incoming ? 'bg-slate-800' : 'bg-blue-600'}`}>
+                    {msg.text}
+                    <div className="text-[10px] mt-1 opacity-50">{msg.timestamp}</div>
+                  </div>
+                </div>
+              ))}
+              <div ref={threadEndRef} />
+            </div>
+            <div className="p-4 border-t border-slate-800 flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                disabled={!active}
+                onChange={e => setDraft(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && send()}
+                placeholder={active ? `Message ${active.name}...` : 'Select a contact'}
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2"
+              />
+              <button onClick={send} disabled={!active || !draft.trim()} className="p-2 bg-blue-600 rounded-xl disabled:opacity-40"><Send size={18} /></button>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
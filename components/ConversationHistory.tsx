@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, Search, Download, Trash2, Play, Square, CornerDownRight, Mic, Keyboard, Wrench, AlertTriangle } from 'lucide-react';
+import { ConversationSession, ToolCallRecord } from '../types';
+import { Conversation } from '../hooks/useConversation';
+import { buildSessionIndex, exportSession, searchSessions, sessionTitle, sessionToolCalls } from '../services/conversation';
+import Markdown from './Markdown';
+
+interface ConversationHistoryProps {
+  conversation: Conversation;
+  // Called after a session is reopened so the user lands where the conversation continues.
+  onResume: () => void;
+}
+
+// Pause between turns when replaying a session.
+const REPLAY_STEP_MS = 1500;
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const ToolCall: React.FC<{ call: ToolCallRecord }> = ({ call }) => (
+  <details className={`mt-2 rounded-xl border text-xs ${call.error ? 'border-red-500/30 bg-red-500/5' : 'border-slate-800 bg-slate-950/60'}`}>
+    <summary className="px-3 py-2 cursor-pointer flex items-center gap-2 font-bold">
+      {call.error ? <AlertTriangle size={12} className="text-red-400" /> : <Wrench size={12} className="text-slate-500" />}
+      {call.name}
+    </summary>
+    <div className="px-3 pb-3 space-y-2 font-mono text-[11px] text-slate-400">
+      <div><span className="text-slate-600">args </span>{JSON.stringify(call.args)}</div>
+      {call.error
+        ? <div className="text-red-300">{call.error}</div>
+        : <pre className="whitespace-pre-wrap break-words">{typeof call.result === 'string' ? call.result : JSON.stringify(call.result ?? null, null, 2)}</pre>}
+    </div>
+  </details>
+);
+
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({ conversation, onResume }) => {
+  const { sessions } = conversation;
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replayAt, setReplayAt] = useState<number | null>(null);
+
+  const index = useMemo(() => buildSessionIndex(sessions), [sessions]);
+  const listed = searchSessions(sessions, index, query);
+  const selected = sessions.find(s => s.id === selectedId) ?? listed[0] ?? null;
+  const shown = selected ? (replayAt === null ? selected.turns : selected.turns.slice(0, replayAt)) : [];
+
+  useEffect(() => setReplayAt(null), [selected?.id]);
+
+  useEffect(() => {
+    if (replayAt === null || !selected) return;
+    if (replayAt >= selected.turns.length) {
+      setReplayAt(null);
+      return;
+    }
+    const timer = setTimeout(() => setReplayAt(replayAt + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [replayAt, selected]);
+
+  const exportAs = (session: ConversationSession, format: 'md' | 'json') => download(
+    exportSession(session, format),
+    `v1-session-${session.startedAt.slice(0, 16).replace(/[:T]/g, '-')}.${format}`,
+    format === 'json' ? 'application/json' : 'text/markdown'
+  );
+
+  const reopen = (session: ConversationSession) => {
+    conversation.reopen(session.id);
+    onResume();
+  };
+
+  return (
+    <div className="h-full grid md:grid-cols-3 gap-6 overflow-hidden">
+      <div className="glass-panel rounded-3xl overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex items-center gap-2">
+          <History size={16} className="text-blue-400" />
+          <h3 className="font-bold text-slate-400 text-xs tracking-widest uppercase">Sessions</h3>
+          <span className="ml-auto text-xs text-slate-600">{sessions.length}</span>
+        </div>
+        <div className="p-2 relative">
+          <Search size={14} className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search what was said or which tools ran..." className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-8 pr-3 py-1.5 text-sm" />
+        </div>
+        <div className="flex-1 overflow-y-auto custom-scrollbar">
+          {listed.length === 0 && (
+            <p className="text-sm text-slate-500 text-center p-6">{sessions.length ? 'No session matches that search.' : 'Sessions appear here once you talk or type to V1.'}</p>
+          )}
+          {listed.map(session => {
+            const calls = sessionToolCalls(session);
+            const failed = calls.filter(c => c.error).length;
+            return (
+              <div key={session.id} onClick={() => setSelectedId(session.id)} className={`p-4 m-2 rounded-2xl cursor-pointer hover:bg-slate-800 ${selected?.id === session.id ? 'bg-slate-800' : ''}`}>
+                <div className="text-sm font-bold truncate">{sessionTitle(session)}</div>
+                <div className="flex items-center gap-3 text-xs text-slate-500 mt-1">
+                  <span>{new Date(session.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}</span>
+                  <span>{session.turns.length} turns</span>
+                  {calls.length > 0 && <span className="flex items-center gap-1"><Wrench size={10} /> {calls.length}</span>}
+                  {failed > 0 && <span className="flex items-center gap-1 text-red-400"><AlertTriangle size={10} /> {failed}</span>}
+                  {session.id === conversation.currentId && <span className="text-emerald-400 font-bold">current</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="md:col-span-2 glass-panel rounded-3xl flex flex-col overflow-hidden">
+        {selected ? (
+          <>
+            <div className="p-4 border-b border-slate-800 flex items-center gap-2 bg-slate-900/50">
+              <span className="font-bold truncate flex-1">{sessionTitle(selected)}</span>
+              <button onClick={() => setReplayAt(replayAt === null ? 1 : null)} className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 rounded-lg hover:bg-slate-700 text-xs font-bold">
+                {replayAt === null ? <><Play size={12} /> Replay</> : <><Square size={12} /> Stop</>}
+              </button>
+              {(['md', 'json'] as const).map(f => (
+                <button key={f} onClick={() => exportAs(selected, f)} className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 rounded-lg hover:bg-slate-700 text-xs font-bold uppercase">
+                  <Download size={12} /> {f}
+                </button>
+              ))}
+              {selected.id !== conversation.currentId && (
+                <button onClick={() => reopen(selected)} className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 rounded-lg hover:bg-blue-500 text-xs font-bold">
+                  <CornerDownRight size={12} /> Continue
+                </button>
+              )}
+              <button onClick={() => conversation.remove(selected.id)} className="p-1.5 text-slate-500 hover:text-red-400"><Trash2 size={16} /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-4 custom-scrollbar">
+              {selected.contextFrom && (
+                <p className="text-xs text-slate-500">
+                  Continued from {sessions.some(s => s.id === selected.contextFrom) ? `"${sessionTitle(sessions.find(s => s.id === selected.contextFrom)!)}"` : 'a deleted session'}.
+                </p>
+              )}
+              {shown.map(turn => (
+                <div key={turn.id} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in duration-300`}>
+                  <div className={`max-w-[80%] p-3 px-4 rounded-2xl text-sm ${turn.role === 'user' ? 'bg-slate-800' : 'bg-blue-600/10 border border-blue-500/20'}`}>
+                    {turn.role === 'assistant' ? <Markdown source={turn.text} /> : turn.text}
+                    {turn.tools?.map((call, i) => <ToolCall key={i} call={call} />)}
+                    <div className="flex items-center gap-1 text-[10px] mt-1 opacity-50">
+                      {turn.channel === 'voice' ? <Mic size={10} /> : <Keyboard size={10} />}
+                      {new Date(turn.at).toLocaleTimeString()}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-sm text-slate-500">Select a session to replay it.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConversationHistory;
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Play, Pause, Square, SkipForward, Settings2 } from 'lucide-react';
+import { FocusConfig, Task } from '../types';
+import { FocusTimer as FocusTimerApi } from '../hooks/useFocusTimer';
+import { formatRemaining, isPaused, phaseLabel, remainingMs } from '../services/focusTimer';
+
+interface FocusTimerProps {
+  focus: FocusTimerApi;
+  tasks: Task[];
+}
+
+const configFields: { key: keyof FocusConfig; label: string }[] = [
+  { key: 'workMinutes', label: 'Focus' },
+  { key: 'shortBreakMinutes', label: 'Short break' },
+  { key: 'longBreakMinutes', label: 'Long break' },
+  { key: 'longBreakEvery', label: 'Long break every' }
+];
+
+const FocusTimer: React.FC<FocusTimerProps> = ({ focus, tasks }) => {
+  const { state, config } = focus;
+  const [, setNow] = useState(Date.now());
+  const [taskId, setTaskId] = useState('');
+  const [showConfig, setShowConfig] = useState(false);
+
+  useEffect(() => {
+    if (!state.endsAt) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.endsAt]);
+
+  const task = tasks.find(t => t.id === state.taskId);
+  const left = remainingMs(state);
+  const progress = state.phase ? 1 - left / (state.plannedMinutes * 60 * 1000) : 0;
+  const openTasks = tasks.filter(t => !t.completed);
+
+  return (
+    <div className="glass-panel rounded-3xl p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Clock className="text-blue-400" /> Focus Timer
+        </h3>
+        <button onClick={() => setShowConfig(!showConfig)} className="p-2 text-slate-500 hover:text-white"><Settings2 size={18} /></button>
+      </div>
+
+      {showConfig && (
+        <div className="grid grid-cols-2 gap-2 text-xs">
+          {configFields.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-slate-400">
+              {label}{key === 'longBreakEvery' ? ' (sessions)' : ' (min)'}
+              <input
+                type="number"
+                min={1}
+                max={key === 'longBreakEvery' ? 12 : 240}
+                value={config[key]}
+                onChange={e => {
+                  const value = parseInt(e.target.value, 10);
+                  if (value > 0) focus.setConfig({ ...config, [key]: value });
+                }}
+                className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-white"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="text-center space-y-1">
+        <div className="text-[10px] uppercase tracking-[0.3em] font-black text-blue-500">
+          {state.phase ? phaseLabel[state.phase] : 'Ready'}{isPaused(state) ? ' · Paused' : ''}
+        </div>
+        <div className="text-5xl font-black tabular-nums">{formatRemaining(state.phase ? left : config.workMinutes * 60 * 1000)}</div>
+        {task && <div className="text-sm text-slate-400 truncate">{task.text}</div>}
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mt-3">
+          <div className={`h-full transition-all duration-1000 ${state.phase === 'work' ? 'bg-blue-500' : 'bg-emerald-500'}`} style={{ width: `${progress * 100}%` }} />
+        </div>
+        <div className="text-[10px] text-slate-500 font-bold pt-1">
+          {state.completedWorkSessions % config.longBreakEvery} / {config.longBreakEvery} until long break
+        </div>
+      </div>
+
+      {!state.phase ? (
+        <div className="flex gap-2">
+          <select value={taskId} onChange={e => setTaskId(e.target.value)} className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-sm">
+            <option value="">No linked task</option>
+            {openTasks.map(t => <option key={t.id} value={t.id}>{t.text}</option>)}
+          </select>
+          <button onClick={() => focus.start({ taskId: taskId || undefined })} className="p-2 px-4 bg-blue-600 rounded-xl hover:bg-blue-500"><Play size={18} /></button>
+        </div>
+      ) : (
+        <div className="flex justify-center gap-2">
+          {isPaused(state)
+            ? <button onClick={focus.resume} className="p-2 px-4 bg-blue-600 rounded-xl hover:bg-blue-500"><Play size={18} /></button>
+            : <button onClick={focus.pause} className="p-2 px-4 bg-slate-800 rounded-xl hover:bg-slate-700"><Pause size={18} /></button>}
+          <button onClick={focus.skip} className="p-2 px-4 bg-slate-800 rounded-xl hover:bg-slate-700" title="Skip to next phase"><SkipForward size={18} /></button>
+          <button onClick={focus.stop} className="p-2 px-4 bg-slate-800 rounded-xl hover:bg-red-900/60" title="Stop"><Square size={18} /></button>
+        </div>
+      )}
+
+      {focus.log.length > 0 && (
+        <div className="text-xs text-slate-500 space-y-1 pt-2 border-t border-slate-800">
+          {focus.log.slice(-3).reverse().map(entry => (
+            <div key={entry.id} className="flex justify-between gap-2">
+              <span className="truncate">{tasks.find(t => t.id === entry.taskId)?.text ?? 'Focus session'}</span>
+              <span className={entry.completed ? 'text-emerald-400' : ''}>{entry.focusedMinutes} / {entry.plannedMinutes} min</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FocusTimer;
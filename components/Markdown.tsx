@@ -0,0 +1,98 @@
+import React from 'react';
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+// Inline spans: `code`, **bold**, *italic* / _italic_, [label](https://link)
+const INLINE = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_|\[[^\]]+\]\((?:https?:\/\/|mailto:)[^)\s]+\))/g;
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 1) {
+      return <code key={key} className="px-1.5 py-0.5 rounded bg-slate-800 text-blue-300 text-[0.9em]">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={key} className="font-bold text-slate-100">{renderInline(part.slice(2, -2), key)}</strong>;
+    }
+    if ((part.startsWith('*') && part.endsWith('*') || part.startsWith('_') && part.endsWith('_')) && part.length > 2) {
+      return <em key={key}>{renderInline(part.slice(1, -1), key)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return <a key={key} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline">{link[1]}</a>;
+    }
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+
+/**
+ * A deliberately small Markdown renderer (headings, lists, quotes, code blocks and inline styles)
+ * that builds React elements directly, so model- or user-written text is never injected as HTML.
+ */
+const Markdown: React.FC<MarkdownProps> = ({ source, className = '' }) => {
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  const blocks: React.ReactNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `b${i}`;
+
+    if (line.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith('```')) code.push(lines[i++]);
+      i++;
+      blocks.push(<pre key={key} className="p-3 rounded-xl bg-slate-950 border border-slate-800 overflow-x-auto text-xs"><code>{code.join('\n')}</code></pre>);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const size = ['text-lg', 'text-base', 'text-sm'][heading[1].length - 1];
+      blocks.push(<p key={key} className={`${size} font-bold text-slate-100`}>{renderInline(heading[2], key)}</p>);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*+]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && /^\s*([-*+]|\d+\.)\s+/.test(lines[i])) {
+        items.push(lines[i].replace(/^\s*([-*+]|\d+\.)\s+/, ''));
+        i++;
+      }
+      const ListTag = ordered ? 'ol' : 'ul';
+      blocks.push(
+        <ListTag key={key} className={`${ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+          {items.map((item, j) => <li key={j}>{renderInline(item, `${key}-${j}`)}</li>)}
+        </ListTag>
+      );
+      continue;
+    }
+
+    if (line.startsWith('>')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith('>')) quote.push(lines[i++].replace(/^>\s?/, ''));
+      blocks.push(<blockquote key={key} className="border-l-2 border-blue-500/50 pl-3 italic">{renderInline(quote.join(' '), key)}</blockquote>);
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [lines[i++]];
+    while (i < lines.length && lines[i].trim() && !/^(```|#{1,3}\s|>|\s*([-*+]|\d+\.)\s+)/.test(lines[i])) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push(<p key={key}>{renderInline(paragraph.join(' '), key)}</p>);
+  }
+
+  return <div className={`space-y-2 ${className}`}>{blocks}</div>;
+};
+
+export default Markdown;
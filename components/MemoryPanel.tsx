@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Brain, Search, Plus, Pencil, Trash2, Check, X, Bot, User } from 'lucide-react';
+import { Memory } from '../types';
+import { Memories } from '../hooks/useMemories';
+import { searchMemories } from '../services/memory';
+
+interface MemoryPanelProps {
+  memory: Memories;
+}
+
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ memory }) => {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const listed = query.trim()
+    ? searchMemories(memory.memories, memory.index, query, memory.memories.length)
+    : [...memory.memories].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  const add = () => {
+    if (!draft.trim()) return;
+    memory.remember(draft, 'user');
+    setDraft('');
+  };
+
+  const saveEdit = () => {
+    if (editing?.text.trim()) memory.update(editing.id, editing.text);
+    setEditing(null);
+  };
+
+  const row = (m: Memory) => editing?.id === m.id ? (
+    <div key={m.id} className="p-3 rounded-2xl bg-slate-900 border border-slate-800 flex gap-2">
+      <input autoFocus value={editing.text} onChange={e => setEditing({ ...editing, text: e.target.value })} onKeyDown={e => e.key === 'Enter' && saveEdit()} className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm" />
+      <button onClick={() => setEditing(null)} className="p-1.5 bg-slate-800 rounded-lg"><X size={16} /></button>
+      <button onClick={saveEdit} className="p-1.5 bg-blue-600 rounded-lg"><Check size={16} /></button>
+    </div>
+  ) : (
+    <div key={m.id} className="p-4 rounded-2xl flex items-center gap-4 hover:bg-slate-900/60 group">
+      <div className="p-2 bg-slate-800 rounded-lg" title={m.source === 'assistant' ? 'Saved by V1' : 'Added by you'}>
+        {m.source === 'assistant' ? <Bot size={16} className="text-blue-400" /> : <User size={16} className="text-slate-400" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-sm">{m.text}</div>
+        <div className="text-xs text-slate-500">{new Date(m.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</div>
+      </div>
+      <div className="hidden group-hover:flex gap-1">
+        <button onClick={() => setEditing({ id: m.id, text: m.text })} className="p-1 text-slate-500 hover:text-white"><Pencil size={14} /></button>
+        <button onClick={() => memory.forget(m.id)} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="h-full glass-panel rounded-3xl flex flex-col overflow-hidden">
+      <div className="p-6 border-b border-slate-800 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Brain className="text-blue-400" /> What V1 Remembers</h3>
+          {memory.memories.length > 0 && (confirmClear ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-400">Forget everything?</span>
+              <button onClick={() => { memory.clear(); setConfirmClear(false); }} className="px-3 py-1 bg-red-600 rounded-lg font-bold">Forget all</button>
+              <button onClick={() => setConfirmClear(false)} className="px-3 py-1 bg-slate-800 rounded-lg">Cancel</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} className="text-sm text-slate-500 hover:text-red-400">Forget all</button>
+          ))}
+        </div>
+        <p className="text-sm text-slate-500">
+          V1 saves facts when you ask it to remember something and reads them back at the start of each session. Edit or delete anything here.
+        </p>
+        <div className="flex gap-2">
+          <input value={draft} onChange={e => setDraft(e.target.value)} onKeyDown={e => e.key === 'Enter' && add()} placeholder="Add a fact, e.g. My exam is on the 12th" className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm" />
+          <button onClick={add} disabled={!draft.trim()} className="p-2 bg-blue-600 rounded-xl disabled:opacity-40"><Plus size={18} /></button>
+        </div>
+        <div className="relative">
+          <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search memories..." className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-8 pr-3 py-1.5 text-sm" />
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-1 custom-scrollbar">
+        {listed.length === 0 && (
+          <p className="text-sm text-slate-500 text-center p-6">{memory.memories.length ? 'No memory matches that search.' : 'Nothing remembered yet. Try saying "Remember that Alice is my lab partner".'}</p>
+        )}
+        {listed.map(row)}
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
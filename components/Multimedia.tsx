@@ -1,60 +1,295 @@
-
-import React from 'react';
-import { Play, Pause, SkipBack, SkipForward, Maximize2, Camera, FolderOpen, Heart, Share2 } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Play, Pause, SkipBack, SkipForward, Maximize2, Camera, FolderOpen, Heart, Share2, Shuffle, Repeat, Repeat1,
+  Volume2, VolumeX, Upload, Music, ListPlus, Trash2, Plus, ListMusic, Loader2, X, Video, Circle, Square, Check, ImageOff
+} from 'lucide-react';
+import { MediaCapture, Note, Track } from '../types';
+import { MediaPlayer } from '../hooks/useMediaPlayer';
+import { Camera as CameraApi } from '../hooks/useCamera';
+import { formatClock, nextRepeat } from '../services/mediaLibrary';
+import { MAX_VIDEO_SECONDS, describeCapture, recorderMimeType } from '../services/camera';
+import CameraPreview from './CameraPreview';
 
 interface MultimediaProps {
-  mediaState: {
-    isPlaying: boolean;
-    currentTrack: string;
-    artist: string;
-    flashActive: boolean;
-  };
-  setMediaState: React.Dispatch<React.SetStateAction<any>>;
+  player: MediaPlayer;
+  camera: CameraApi;
+  onShareToNote: (capture: MediaCapture) => Note;
 }
 
-const Multimedia: React.FC<MultimediaProps> = ({ mediaState, setMediaState }) => {
-  const photos = [
-    { id: 1, url: 'https://images.unsplash.com/photo-1614850523296-d8c1af93d400?q=80&w=400&h=300&auto=format&fit=crop' },
-    { id: 2, url: 'https://images.unsplash.com/photo-1550745165-9bc0b252726f?q=80&w=400&h=300&auto=format&fit=crop' },
-    { id: 3, url: 'https://images.unsplash.com/photo-1451187580459-43490279c0fa?q=80&w=400&h=300&auto=format&fit=crop' },
-    { id: 4, url: 'https://images.unsplash.com/photo-1518770660439-4636190af475?q=80&w=400&h=300&auto=format&fit=crop' },
-  ];
+const RecordingTimer: React.FC<{ since: number }> = ({ since }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(id);
+  }, []);
+  return <span className="tabular-nums">{formatClock((now - since) / 1000)} / {formatClock(MAX_VIDEO_SECONDS)}</span>;
+};
+
+interface CameraPanelProps {
+  camera: CameraApi;
+  onClose: () => void;
+}
 
-  const togglePlayback = () => setMediaState((s: any) => ({ ...s, isPlaying: !s.isPlaying }));
+const CameraPanel: React.FC<CameraPanelProps> = ({ camera, onClose }) => {
+  const [delay, setDelay] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const canRecord = !!recorderMimeType();
+
+  useEffect(() => {
+    camera.open().catch(e => setError(e.message));
+    return () => camera.close();
+  }, []);
+
+  const run = (action: () => Promise<unknown>) => action().catch(e => setError(e.message));
+
+  return (
+    <div className="glass-panel rounded-[2rem] p-6 space-y-4">
+      <div className="relative rounded-3xl overflow-hidden bg-black aspect-video max-h-[420px] mx-auto">
+        <CameraPreview stream={camera.stream} className="w-full h-full" />
+        {camera.countdown !== null && <div className="absolute inset-0 flex items-center justify-center text-8xl font-black text-white drop-shadow-lg">{camera.countdown}</div>}
+        {camera.recordingSince !== null && (
+          <div className="absolute top-4 left-4 flex items-center gap-2 px-3 py-1 rounded-full bg-red-600 text-xs font-bold">
+            <Circle size={10} fill="white" /> <RecordingTimer since={camera.recordingSince} />
+          </div>
+        )}
+        {!camera.stream && !error && <div className="absolute inset-0 flex items-center justify-center text-slate-500"><Loader2 className="animate-spin" /></div>}
+        {error && <div className="absolute inset-0 flex items-center justify-center text-sm text-red-400 p-6 text-center">{error}</div>}
+      </div>
+      <div className="flex items-center justify-center gap-6">
+        <select value={delay} onChange={e => setDelay(Number(e.target.value))} className="bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm">
+          {[0, 3, 5, 10].map(s => <option key={s} value={s}>{s ? `${s}s timer` : 'No timer'}</option>)}
+        </select>
+        <button
+          onClick={() => run(() => camera.takePhoto({ countdownSec: delay }))}
+          disabled={!camera.stream || camera.countdown !== null || camera.recordingSince !== null}
+          className="w-16 h-16 rounded-full bg-white border-4 border-slate-700 hover:scale-105 active:scale-90 transition-all disabled:opacity-40"
+          title="Take photo"
+        />
+        {canRecord && (
+          camera.recordingSince !== null
+            ? <button onClick={() => run(camera.stopVideo)} className="p-3 rounded-full bg-red-600" title="Stop recording"><Square size={20} fill="white" /></button>
+            : <button onClick={() => run(camera.startVideo)} disabled={!camera.stream} className="p-3 rounded-full bg-slate-800 hover:bg-slate-700 disabled:opacity-40" title={`Record up to ${MAX_VIDEO_SECONDS}s`}><Video size={20} /></button>
+        )}
+        <button onClick={onClose} className="p-3 rounded-full bg-slate-800 hover:bg-slate-700" title="Close camera"><X size={20} /></button>
+      </div>
+    </div>
+  );
+};
+
+interface LightboxProps {
+  capture: MediaCapture;
+  url?: string;
+  camera: CameraApi;
+  onClose: () => void;
+}
+
+const Lightbox: React.FC<LightboxProps> = ({ capture, url, camera, onClose }) => {
+  const [caption, setCaption] = useState(capture.caption ?? '');
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/90 flex flex-col items-center justify-center p-8 gap-4" onClick={onClose}>
+      <div className="max-w-5xl w-full flex flex-col items-center gap-4" onClick={e => e.stopPropagation()}>
+        {capture.kind === 'photo'
+          ? <img src={url} alt={capture.caption ?? 'Capture'} className="max-h-[75vh] rounded-2xl object-contain" />
+          : <video src={url} controls autoPlay className="max-h-[75vh] rounded-2xl" />}
+        <div className="flex items-center gap-2 w-full max-w-xl">
+          <input value={caption} onChange={e => setCaption(e.target.value)} onKeyDown={e => e.key === 'Enter' && camera.setCaption(capture.id, caption)} placeholder="Add a caption" className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm" />
+          <button onClick={() => camera.setCaption(capture.id, caption)} className="p-1.5 bg-blue-600 rounded-lg"><Check size={16} /></button>
+          <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-lg"><X size={16} /></button>
+        </div>
+        <p className="text-xs text-slate-500">{describeCapture(capture)}</p>
+      </div>
+    </div>
+  );
+};
+
+// Follows the audio element directly so only this bar re-renders while a track plays.
+const ProgressBar: React.FC<{ player: MediaPlayer }> = ({ player }) => {
+  const { audio, current, state } = player;
+  const [position, setPosition] = useState(state.positionSec);
+
+  useEffect(() => {
+    const update = () => setPosition(audio.currentTime);
+    update();
+    audio.addEventListener('timeupdate', update);
+    audio.addEventListener('seeked', update);
+    return () => {
+      audio.removeEventListener('timeupdate', update);
+      audio.removeEventListener('seeked', update);
+    };
+  }, [audio, current?.id]);
+
+  const duration = current?.durationSec || audio.duration || 0;
+  return (
+    <div className="pt-4 flex items-center gap-4">
+      <input
+        type="range"
+        min={0}
+        max={Math.max(1, Math.floor(duration))}
+        value={Math.floor(position)}
+        disabled={!current}
+        onChange={e => player.seek(Number(e.target.value))}
+        className="flex-1 accent-blue-500"
+      />
+      <span className="text-[10px] text-slate-500 font-black tabular-nums">{formatClock(position)} / {formatClock(duration)}</span>
+    </div>
+  );
+};
+
+const Multimedia: React.FC<MultimediaProps> = ({ player, camera, onShareToNote }) => {
+  const { state, current, tracks, playlists } = player;
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [view, setView] = useState<'library' | 'queue' | string>('library');
+  const [newPlaylist, setNewPlaylist] = useState('');
+  const [importNote, setImportNote] = useState<string | null>(null);
+
+  const [showCamera, setShowCamera] = useState(false);
+  const [vaultOpen, setVaultOpen] = useState(false);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [viewing, setViewing] = useState<MediaCapture | null>(null);
+  const [shared, setShared] = useState<string | null>(null);
+
+  const vault = camera.captures.filter(c => !favouritesOnly || c.favourite);
+  const photos = vaultOpen ? vault : vault.slice(0, 7);
+
+  const share = (capture: MediaCapture) => {
+    const note = onShareToNote(capture);
+    setShared(`Saved to notes as "${note.title}".`);
+  };
+
+  const importFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    try {
+      const added = await player.importFiles([...files]);
+      const skipped = files.length - added.length;
+      setImportNote(`Imported ${added.length} track${added.length === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} non-audio file${skipped === 1 ? '' : 's'}` : ''}.`);
+    } catch (e: any) {
+      setImportNote(`Import failed: ${e.message}`);
+    }
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const createPlaylist = () => {
+    if (!newPlaylist.trim()) return;
+    setView(player.createPlaylist(newPlaylist).id);
+    setNewPlaylist('');
+  };
+
+  const activePlaylist = playlists.find(p => p.id === view);
+  const listedIds = view === 'queue' ? state.queue : activePlaylist ? activePlaylist.trackIds : tracks.map(t => t.id);
+  const listed = listedIds.map(id => tracks.find(t => t.id === id)).filter((t): t is Track => !!t);
+
+  const playFromList = (index: number) => {
+    if (view === 'queue') player.setState(s => ({ ...s, queueIndex: index, positionSec: 0, isPlaying: true }));
+    else player.playTracks(listedIds, index);
+  };
 
   return (
     <div className="space-y-10 animate-in fade-in slide-in-from-bottom-4 duration-700">
       {/* Dynamic Player */}
       <div className="glass-panel rounded-[2rem] p-8 bg-gradient-to-br from-slate-900 to-blue-900/20 border-blue-500/10 flex flex-col md:flex-row items-center gap-8 shadow-2xl">
-        <div className={`w-32 h-32 rounded-3xl overflow-hidden shadow-[0_0_30px_rgba(59,130,246,0.3)] transition-transform duration-500 ${mediaState.isPlaying ? 'scale-105 animate-float' : 'scale-95'}`}>
-          <img src="https://images.unsplash.com/photo-1614613535308-eb5fbd3d2c17?q=80&w=200&h=200&auto=format&fit=crop" alt="Album Art" className="w-full h-full object-cover" />
+        <div className={`w-32 h-32 rounded-3xl overflow-hidden shadow-[0_0_30px_rgba(59,130,246,0.3)] transition-transform duration-500 bg-gradient-to-br from-blue-600 to-indigo-900 flex items-center justify-center ${state.isPlaying ? 'scale-105 animate-float' : 'scale-95'}`}>
+          <Music size={48} className="text-white/70" />
         </div>
         
-        <div className="flex-1 text-center md:text-left space-y-2">
+        <div className="flex-1 w-full text-center md:text-left space-y-2">
           <div className="flex items-center justify-center md:justify-start gap-2">
-            <span className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em]">Now Playing</span>
-            {mediaState.isPlaying && <div className="flex gap-0.5"><div className="w-1 h-3 bg-blue-500 animate-pulse"></div><div className="w-1 h-3 bg-blue-500 animate-pulse delay-75"></div></div>}
+            <span className="text-blue-500 text-[10px] font-black uppercase tracking-[0.3em]">{current ? 'Now Playing' : 'Nothing Queued'}</span>
+            {state.isPlaying && <div className="flex gap-0.5"><div className="w-1 h-3 bg-blue-500 animate-pulse"></div><div className="w-1 h-3 bg-blue-500 animate-pulse delay-75"></div></div>}
+          </div>
+          <h2 className="text-3xl font-black tracking-tight truncate">{current?.title ?? 'Import music to begin'}</h2>
+          <p className="text-slate-400 font-medium truncate">{current ? `${current.artist}${current.album ? ` · ${current.album}` : ''}` : 'Or ask V1 to play something by an artist in your library'}</p>
+          <ProgressBar player={player} />
+          {player.error && <p className="text-xs text-red-400 truncate">{player.error}</p>}
+        </div>
+
+        <div className="flex flex-col items-center gap-4">
+          <div className="flex items-center gap-6">
+            <button onClick={player.previous} disabled={!current} className="text-slate-500 hover:text-white transition-colors disabled:opacity-30"><SkipBack size={28} /></button>
+            <button 
+              onClick={player.toggle}
+              disabled={!tracks.length}
+              className="w-20 h-20 rounded-full bg-blue-600 text-white flex items-center justify-center hover:bg-blue-500 transition-all shadow-xl shadow-blue-600/40 active:scale-90 disabled:opacity-40"
+            >
+              {state.isPlaying ? <Pause size={36} fill="white" /> : <Play size={36} fill="white" className="ml-1" />}
+            </button>
+            <button onClick={player.next} disabled={!current} className="text-slate-500 hover:text-white transition-colors disabled:opacity-30"><SkipForward size={28} /></button>
+          </div>
+          <div className="flex items-center gap-4">
+            <button onClick={() => player.setShuffle(!state.shuffle)} className={state.shuffle ? 'text-blue-400' : 'text-slate-500 hover:text-white'} title="Shuffle"><Shuffle size={18} /></button>
+            <button onClick={() => player.setRepeat(nextRepeat(state.repeat))} className={state.repeat !== 'off' ? 'text-blue-400' : 'text-slate-500 hover:text-white'} title={`Repeat: ${state.repeat}`}>
+              {state.repeat === 'one' ? <Repeat1 size={18} /> : <Repeat size={18} />}
+            </button>
+            <button onClick={() => player.setVolume(state.volume ? 0 : 0.8)} className="text-slate-500 hover:text-white">{state.volume ? <Volume2 size={18} /> : <VolumeX size={18} />}</button>
+            <input type="range" min={0} max={100} value={Math.round(state.volume * 100)} onChange={e => player.setVolume(Number(e.target.value) / 100)} className="w-24 accent-blue-500" />
           </div>
-          <h2 className="text-3xl font-black tracking-tight">{mediaState.currentTrack}</h2>
-          <p className="text-slate-400 font-medium">{mediaState.artist}</p>
-          
-          <div className="pt-4 flex items-center gap-4">
-             <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
-                <div className={`h-full bg-blue-500 transition-all duration-1000 ${mediaState.isPlaying ? 'w-1/3' : 'w-[5%]'}`} />
-             </div>
-             <span className="text-[10px] text-slate-500 font-black tabular-nums">{mediaState.isPlaying ? '01:24' : '00:00'} / 04:12</span>
+        </div>
+      </div>
+
+      {/* Library */}
+      <div className="grid md:grid-cols-4 gap-6">
+        <div className="glass-panel rounded-3xl p-4 space-y-1 text-sm">
+          <button onClick={() => setView('library')} className={`w-full text-left px-3 py-2 rounded-xl flex items-center gap-2 ${view === 'library' ? 'bg-blue-600' : 'hover:bg-slate-800 text-slate-400'}`}><Music size={16} /> Library ({tracks.length})</button>
+          <button onClick={() => setView('queue')} className={`w-full text-left px-3 py-2 rounded-xl flex items-center gap-2 ${view === 'queue' ? 'bg-blue-600' : 'hover:bg-slate-800 text-slate-400'}`}><ListMusic size={16} /> Queue ({state.queue.length})</button>
+          <h4 className="px-3 pt-4 pb-1 text-[10px] font-black uppercase tracking-widest text-slate-500">Playlists</h4>
+          {playlists.map(p => (
+            <div key={p.id} className={`group flex items-center rounded-xl ${view === p.id ? 'bg-blue-600' : 'hover:bg-slate-800 text-slate-400'}`}>
+              <button onClick={() => setView(p.id)} className="flex-1 text-left px-3 py-2 truncate">{p.name} ({p.trackIds.length})</button>
+              <button onClick={() => { player.deletePlaylist(p.id); setView('library'); }} className="px-2 hidden group-hover:block text-slate-300 hover:text-red-400"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          <div className="flex gap-1 pt-2">
+            <input value={newPlaylist} onChange={e => setNewPlaylist(e.target.value)} onKeyDown={e => e.key === 'Enter' && createPlaylist()} placeholder="New playlist" className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-xs" />
+            <button onClick={createPlaylist} className="p-1.5 bg-slate-800 rounded-xl hover:bg-slate-700"><Plus size={14} /></button>
           </div>
         </div>
 
-        <div className="flex items-center gap-6">
-          <button className="text-slate-500 hover:text-white transition-colors"><SkipBack size={28} /></button>
-          <button 
-            onClick={togglePlayback}
-            className="w-20 h-20 rounded-full bg-blue-600 text-white flex items-center justify-center hover:bg-blue-500 transition-all shadow-xl shadow-blue-600/40 active:scale-90"
-          >
-            {mediaState.isPlaying ? <Pause size={36} fill="white" /> : <Play size={36} fill="white" className="ml-1" />}
-          </button>
-          <button className="text-slate-500 hover:text-white transition-colors"><SkipForward size={28} /></button>
+        <div className="md:col-span-3 glass-panel rounded-3xl overflow-hidden flex flex-col">
+          <div className="p-4 border-b border-slate-800 flex items-center justify-between">
+            <span className="font-bold">{view === 'queue' ? 'Up Next' : activePlaylist?.name ?? 'All Tracks'}</span>
+            <div className="flex items-center gap-3">
+              {importNote && <span className="text-xs text-slate-500">{importNote}</span>}
+              {listedIds.length > 0 && view !== 'queue' && (
+                <button onClick={() => player.playTracks(listedIds)} className="flex items-center gap-2 px-4 py-1.5 bg-blue-600 rounded-xl text-sm"><Play size={14} /> Play all</button>
+              )}
+              <input ref={fileInput} type="file" accept="audio/*" multiple className="hidden" onChange={e => importFiles(e.target.files)} />
+              <button onClick={() => fileInput.current?.click()} disabled={player.importing} className="flex items-center gap-2 px-4 py-1.5 bg-slate-800 rounded-xl text-sm hover:bg-slate-700 disabled:opacity-50">
+                {player.importing ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />} Import
+              </button>
+            </div>
+          </div>
+          <div className="max-h-96 overflow-y-auto custom-scrollbar p-2">
+            {listed.length === 0 && (
+              <p className="text-sm text-slate-500 text-center p-8">
+                {view === 'library' ? 'Your library is empty. Import MP3, M4A, OGG or WAV files from this device.' : view === 'queue' ? 'The queue is empty.' : 'This playlist is empty. Add tracks from the library.'}
+              </p>
+            )}
+            {listed.map((track, i) => {
+              const isCurrent = view === 'queue' ? i === state.queueIndex : track.id === current?.id;
+              return (
+                <div key={`${track.id}-${i}`} className={`group flex items-center gap-4 p-2 rounded-xl hover:bg-slate-900/60 ${isCurrent ? 'bg-blue-600/10' : ''}`}>
+                  <button onClick={() => isCurrent ? player.toggle() : playFromList(i)} className="w-8 h-8 rounded-lg bg-slate-800 flex items-center justify-center flex-shrink-0 hover:bg-blue-600">
+                    {isCurrent && state.isPlaying ? <Pause size={14} /> : <Play size={14} />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-sm font-bold truncate ${isCurrent ? 'text-blue-400' : ''}`}>{track.title}</div>
+                    <div className="text-xs text-slate-500 truncate">{track.artist}{track.album ? ` · ${track.album}` : ''}</div>
+                  </div>
+                  <span className="text-xs text-slate-500 tabular-nums">{formatClock(track.durationSec)}</span>
+                  <div className="hidden group-hover:flex items-center gap-1">
+                    {view !== 'queue' && <button onClick={() => player.enqueueTracks([track.id])} className="p-1 text-slate-500 hover:text-white" title="Add to queue"><ListPlus size={16} /></button>}
+                    {view === 'library' && playlists.length > 0 && (
+                      <select value="" onChange={e => e.target.value && player.addToPlaylist(e.target.value, [track.id])} className="bg-slate-950 border border-slate-800 rounded-lg text-xs px-1 py-0.5">
+                        <option value="">+ Playlist</option>
+                        {playlists.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    )}
+                    {activePlaylist && <button onClick={() => player.removeFromPlaylist(activePlaylist.id, track.id)} className="p-1 text-slate-500 hover:text-red-400" title="Remove from playlist"><Trash2 size={16} /></button>}
+                    {view === 'library' && <button onClick={() => player.removeTrack(track.id)} className="p-1 text-slate-500 hover:text-red-400" title="Delete from library"><Trash2 size={16} /></button>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
         </div>
       </div>
 
@@ -63,36 +298,64 @@ const Multimedia: React.FC<MultimediaProps> = ({ mediaState, setMediaState }) =>
         <div className="flex items-center justify-between">
           <h3 className="text-2xl font-black tracking-tight flex items-center gap-3">
             <Camera className="text-blue-500" /> V1 ARCHIVES
+            <span className="text-sm font-medium text-slate-500">{camera.captures.length}</span>
           </h3>
-          <button className="flex items-center gap-2 px-6 py-2 bg-slate-900 border border-slate-800 rounded-2xl hover:bg-slate-800 transition-all font-bold text-sm">
-            <FolderOpen size={18} />
-            <span>Open Vault</span>
-          </button>
+          <div className="flex items-center gap-3">
+            {camera.error && <span className="text-xs text-red-400">{camera.error}</span>}
+            {shared && <span className="text-xs text-slate-400">{shared}</span>}
+            <button onClick={() => setFavouritesOnly(!favouritesOnly)} className={`p-2 rounded-xl border border-slate-800 ${favouritesOnly ? 'bg-pink-600/20 text-pink-400' : 'bg-slate-900 text-slate-400 hover:text-white'}`} title="Favourites only">
+              <Heart size={18} fill={favouritesOnly ? 'currentColor' : 'none'} />
+            </button>
+            <button onClick={() => setVaultOpen(!vaultOpen)} className="flex items-center gap-2 px-6 py-2 bg-slate-900 border border-slate-800 rounded-2xl hover:bg-slate-800 transition-all font-bold text-sm">
+              <FolderOpen size={18} />
+              <span>{vaultOpen ? 'Close Vault' : 'Open Vault'}</span>
+            </button>
+          </div>
         </div>
 
+        {showCamera && <CameraPanel camera={camera} onClose={() => setShowCamera(false)} />}
+
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
           {photos.map(photo => (
             <div key={photo.id} className="group relative rounded-[2rem] overflow-hidden aspect-[4/3] glass-panel cursor-pointer shadow-lg hover:shadow-blue-500/10 transition-all border-slate-800 hover:border-blue-500/50">
-              <img src={photo.url} alt="Media" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+              {camera.unavailable.includes(photo.id)
+                ? <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-slate-600"><ImageOff size={32} /><span className="text-xs">Unavailable</span></div>
+                : photo.kind === 'photo'
+                ? <img src={camera.urls[photo.id]} alt={photo.caption ?? 'Capture'} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+                : <video src={camera.urls[photo.id]} muted className="w-full h-full object-cover" />}
+              {photo.kind === 'video' && <span className="absolute top-4 left-4 flex items-center gap-1 px-2 py-0.5 rounded-lg bg-black/60 text-[10px] font-bold"><Video size={12} /> {formatClock(photo.durationSec ?? 0)}</span>}
+              {photo.favourite && <Heart size={16} fill="currentColor" className="absolute top-4 right-4 text-pink-500" />}
               <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-all flex flex-col justify-end p-6">
                 <div className="flex justify-between items-center">
                   <div className="flex gap-2">
-                    <button className="p-2.5 bg-blue-600 rounded-xl"><Maximize2 size={18} /></button>
-                    <button className="p-2.5 bg-white/10 rounded-xl backdrop-blur-md hover:bg-white/20"><Heart size={18} /></button>
+                    <button onClick={() => setViewing(photo)} className="p-2.5 bg-blue-600 rounded-xl"><Maximize2 size={18} /></button>
+                    <button onClick={() => camera.toggleFavourite(photo.id)} className="p-2.5 bg-white/10 rounded-xl backdrop-blur-md hover:bg-white/20" title="Favourite">
+                      <Heart size={18} fill={photo.favourite ? 'currentColor' : 'none'} className={photo.favourite ? 'text-pink-500' : ''} />
+                    </button>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => share(photo)} className="p-2.5 bg-white/10 rounded-xl backdrop-blur-md hover:bg-white/20" title="Share to note"><Share2 size={18} /></button>
+                    <button onClick={() => camera.remove(photo.id)} className="p-2.5 bg-white/10 rounded-xl backdrop-blur-md hover:bg-red-600/60" title="Delete"><Trash2 size={18} /></button>
                   </div>
-                  <button className="p-2.5 bg-white/10 rounded-xl backdrop-blur-md hover:bg-white/20"><Share2 size={18} /></button>
                 </div>
               </div>
             </div>
           ))}
-          <div className="rounded-[2rem] border-4 border-dashed border-slate-800 flex flex-col items-center justify-center gap-4 text-slate-600 hover:border-blue-500/30 hover:text-blue-400 transition-all group cursor-pointer h-full min-h-[150px]">
-            <div className="w-16 h-16 rounded-3xl bg-slate-900 border border-slate-800 flex items-center justify-center group-hover:scale-110 transition-transform shadow-xl">
-              <Camera size={32} />
+          {!showCamera && (
+            <div onClick={() => setShowCamera(true)} className="rounded-[2rem] border-4 border-dashed border-slate-800 flex flex-col items-center justify-center gap-4 text-slate-600 hover:border-blue-500/30 hover:text-blue-400 transition-all group cursor-pointer h-full min-h-[150px]">
+              <div className="w-16 h-16 rounded-3xl bg-slate-900 border border-slate-800 flex items-center justify-center group-hover:scale-110 transition-transform shadow-xl">
+                <Camera size={32} />
+              </div>
+              <span className="font-black text-[10px] uppercase tracking-widest">New Capture</span>
             </div>
-            <span className="font-black text-[10px] uppercase tracking-widest">New Capture</span>
-          </div>
+          )}
         </div>
+        {!vaultOpen && vault.length > photos.length && (
+          <button onClick={() => setVaultOpen(true)} className="text-sm text-slate-400 hover:text-white">Show all {vault.length} captures</button>
+        )}
       </div>
+
+      {viewing && <Lightbox key={viewing.id} capture={viewing} url={camera.urls[viewing.id]} camera={camera} onClose={() => setViewing(null)} />}
     </div>
   );
 };
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { X, Check, Trash2, Eye, PenLine } from 'lucide-react';
+import { Note } from '../types';
+import { normalizeTags } from '../services/notes';
+import Markdown from './Markdown';
+
+interface NoteEditorProps {
+  note: Note;
+  isNew: boolean;
+  onSave: (note: Note) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, isNew, onSave, onDelete, onClose }) => {
+  const [title, setTitle] = useState(note.title);
+  const [content, setContent] = useState(note.content);
+  const [tags, setTags] = useState(note.tags.join(', '));
+  const [preview, setPreview] = useState(!isNew);
+
+  const save = () => {
+    if (!title.trim()) return;
+    onSave({ ...note, title: title.trim(), content, tags: normalizeTags(tags), updatedAt: new Date().toISOString() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="glass-panel bg-slate-950/90 rounded-3xl p-6 w-full max-w-2xl max-h-[85vh] flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center gap-2">
+          <input
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            placeholder="Note title"
+            className="flex-1 bg-transparent text-xl font-bold outline-none"
+          />
+          <button onClick={() => setPreview(!preview)} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700" title={preview ? 'Edit' : 'Preview'}>
+            {preview ? <PenLine size={18} /> : <Eye size={18} />}
+          </button>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><X size={18} /></button>
+        </div>
+        <input
+          value={tags}
+          onChange={e => setTags(e.target.value)}
+          placeholder="Tags, comma separated"
+          className="bg-slate-900 border border-slate-800 rounded-xl px-4 py-2 text-sm"
+        />
+        {preview ? (
+          <div className="flex-1 min-h-[240px] overflow-y-auto custom-scrollbar p-4 rounded-2xl bg-slate-900/60 border border-slate-800 text-sm text-slate-300" onDoubleClick={() => setPreview(false)}>
+            {content.trim() ? <Markdown source={content} /> : <p className="text-slate-600">Empty note. Double-click to edit.</p>}
+          </div>
+        ) : (
+          <textarea
+            autoFocus
+            value={content}
+            onChange={e => setContent(e.target.value)}
+            placeholder="Write in Markdown: # headings, **bold**, - lists, `code`"
+            className="flex-1 min-h-[240px] bg-slate-900 border border-slate-800 rounded-2xl p-4 text-sm font-mono resize-none custom-scrollbar"
+          />
+        )}
+        <div className="flex items-center justify-between text-[10px] uppercase tracking-wider text-slate-500 font-bold">
+          <span>{isNew ? 'New note' : `Created ${new Date(note.createdAt).toLocaleString()} · Updated ${new Date(note.updatedAt).toLocaleString()}`}</span>
+          <div className="flex gap-2">
+            {!isNew && (
+              <button onClick={() => onDelete(note.id)} className="p-2 bg-slate-800 rounded-lg hover:bg-red-900/60 text-red-400"><Trash2 size={18} /></button>
+            )}
+            <button onClick={save} className="p-2 bg-blue-600 rounded-lg hover:bg-blue-500 text-white"><Check size={18} /></button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NoteEditor;
@@ -1,48 +1,285 @@
-
-import React from 'react';
-import { Bell, MessageSquare, Instagram, Slack, Check, BrainCircuit } from 'lucide-react';
-import { AppNotification } from '../types';
+import React, { useState } from 'react';
+import { Bell, MessageSquare, Instagram, Slack, Check, BrainCircuit, Clock, X, Archive, ArchiveRestore, Mail, Calendar, Twitter, Radio, Upload, SlidersHorizontal, Trash2, Reply, Send, Loader2, Moon } from 'lucide-react';
+import { AppNotification, Message, TriageCategory, TriageResult } from '../types';
+import { FocusTimer } from '../hooks/useFocusTimer';
+import { NotificationInbox, SourceState } from '../hooks/useNotificationInbox';
+import { formatRemaining, remainingMs } from '../services/focusTimer';
+import { formatRelative } from '../services/notifications';
+import { NotificationTriage } from '../hooks/useNotificationTriage';
+import { ReplyDrafts } from '../hooks/useReplyDraft';
+import { NotificationRules as Rules } from '../hooks/useNotificationRules';
+import NotificationRules from './NotificationRules';
+import { TRIAGE_CATEGORIES, triageLabel } from '../services/triage';
 
 interface NotificationManagerProps {
-  notifications: AppNotification[];
+  notifications: NotificationInbox;
+  rules: Rules;
+  triage: NotificationTriage;
+  replies: ReplyDrafts;
+  threadWith: (sender: string) => Message[];
+  focus: FocusTimer;
 }
 
-const NotificationManager: React.FC<NotificationManagerProps> = ({ notifications }) => {
-  const getIcon = (app: string) => {
-    switch (app) {
-      case 'WhatsApp': return <MessageSquare className="text-emerald-500" />;
-      case 'Instagram': return <Instagram className="text-pink-500" />;
-      case 'Slack': return <Slack className="text-purple-500" />;
-      default: return <Bell />;
+const appIcons: Record<string, React.ReactNode> = {
+  whatsapp: <MessageSquare className="text-emerald-500" />,
+  instagram: <Instagram className="text-pink-500" />,
+  slack: <Slack className="text-purple-500" />,
+  gmail: <Mail className="text-red-400" />,
+  calendar: <Calendar className="text-blue-400" />,
+  twitter: <Twitter className="text-sky-400" />
+};
+
+const categoryStyle: Record<TriageCategory, string> = {
+  urgent: 'bg-red-500/15 text-red-300 border-red-500/30',
+  needs_reply: 'bg-amber-500/15 text-amber-300 border-amber-500/30',
+  fyi: 'bg-blue-500/15 text-blue-300 border-blue-500/30',
+  noise: 'bg-slate-800 text-slate-500 border-slate-700'
+};
+
+const statusDot: Record<string, string> = {
+  connected: 'bg-emerald-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  error: 'bg-red-500',
+  idle: 'bg-slate-600'
+};
+
+const NotificationManager: React.FC<NotificationManagerProps> = ({ notifications, rules, triage, replies, threadWith, focus }) => {
+  const [view, setView] = useState<'inbox' | 'archive' | 'rules'>('inbox');
+  const [showSources, setShowSources] = useState(false);
+  const [showTriage, setShowTriage] = useState(false);
+  const [payload, setPayload] = useState('');
+  const [importResult, setImportResult] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyStatus, setReplyStatus] = useState<string | null>(null);
+  const { settings, setSettings } = notifications;
+
+  const getIcon = (app: string) => appIcons[app.toLowerCase()] ?? <Bell />;
+  const listed = view === 'inbox' ? notifications.inbox : notifications.archived;
+
+  const runImport = () => {
+    try {
+      const { delivered, held } = notifications.importJson(payload);
+      setImportResult(`Imported ${delivered} notification${delivered === 1 ? '' : 's'}${held ? `, ${held} held for later` : ''}.`);
+      if (delivered || held) setPayload('');
+    } catch (e: any) {
+      setImportResult(e.message);
     }
   };
 
+  const startReply = (n: AppNotification) => {
+    setReplyingTo(n.id);
+    setReplyStatus(null);
+    replies.suggest(n, threadWith(n.sender));
+  };
+
+  const sendReply = () => {
+    try {
+      setReplyStatus(replies.confirm());
+    } catch (e: any) {
+      setReplyStatus(e.message);
+    }
+  };
+
+  const renderComposer = () => {
+    const { draft } = replies;
+    return (
+      <div className="ml-14 -mt-1 glass-panel rounded-2xl p-4 space-y-3 border-blue-500/20">
+        {replies.busy && <p className="flex items-center gap-2 text-xs text-slate-400"><Loader2 size={14} className="animate-spin" /> V1 is drafting replies…</p>}
+        {draft && draft.suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {draft.suggestions.map(option => (
+              <button key={option} onClick={() => replies.edit(option)} className={`px-3 py-1 rounded-xl text-xs border ${draft.text === option ? 'bg-blue-600 border-blue-500' : 'bg-slate-900 border-slate-800 text-slate-300 hover:text-white'}`}>{option}</button>
+            ))}
+          </div>
+        )}
+        {draft && (
+          <div className="flex gap-2">
+            <input
+              value={draft.text}
+              onChange={e => replies.edit(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && sendReply()}
+              placeholder={`Reply to ${draft.recipient}...`}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm"
+            />
+            <button onClick={sendReply} disabled={!draft.text.trim()} className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 rounded-xl text-sm disabled:opacity-40"><Send size={14} /> Send</button>
+            <button onClick={() => { replies.discard(); setReplyingTo(null); }} className="p-1.5 text-slate-500 hover:text-white" title="Discard"><X size={16} /></button>
+          </div>
+        )}
+        {replyStatus && <p className="text-xs text-slate-400">{replyStatus}</p>}
+      </div>
+    );
+  };
+
+  const renderItem = (n: AppNotification, result?: TriageResult) => (
+    <React.Fragment key={n.id}>
+      <div className={`glass-panel p-4 rounded-2xl flex items-center gap-4 hover:bg-slate-900/50 ${n.status === 'unread' ? '' : 'opacity-60'}`}>
+        <div className="p-2 bg-slate-800 rounded-lg">{getIcon(n.app)}</div>
+        <div className="flex-1 min-w-0">
+          <div className="flex justify-between items-center mb-1 gap-2">
+            <span className="font-bold text-sm truncate">{n.sender} via {n.app}</span>
+            <span className="text-[10px] text-slate-500 flex-shrink-0">{formatRelative(n.receivedAt)}</span>
+          </div>
+          <p className="text-sm text-slate-400">{n.content}</p>
+          {result && (
+            <div className="flex items-center gap-2 mt-2">
+              <select
+                value={result.category}
+                onChange={e => triage.correct(n, e.target.value as TriageCategory)}
+                title="Correct the category; V1 remembers it for this sender"
+                className={`text-[10px] font-bold uppercase tracking-wider rounded-lg border px-2 py-0.5 ${categoryStyle[result.category]}`}
+              >
+                {TRIAGE_CATEGORIES.map(c => <option key={c} value={c} className="bg-slate-900 text-slate-200">{triageLabel[c]}</option>)}
+              </select>
+              {result.reasons.length > 0 && <span className="text-[10px] text-slate-500 truncate">{result.reasons.join(' · ')}</span>}
+            </div>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {view === 'inbox' ? (
+            <>
+              <button onClick={() => startReply(n)} className="p-1.5 text-slate-500 hover:text-blue-400" title="Reply"><Reply size={18} /></button>
+              {n.status === 'unread' && <button onClick={() => notifications.setStatus([n.id], 'read')} className="p-1.5 text-blue-500 hover:text-blue-300" title="Mark read"><Check size={20} /></button>}
+              <button onClick={() => notifications.setStatus([n.id], 'archived')} className="p-1.5 text-slate-500 hover:text-white" title="Archive"><Archive size={18} /></button>
+              <button onClick={() => notifications.setStatus([n.id], 'dismissed')} className="p-1.5 text-slate-500 hover:text-red-400" title="Dismiss"><X size={18} /></button>
+            </>
+          ) : (
+            <button onClick={() => notifications.setStatus([n.id], 'read')} className="p-1.5 text-slate-500 hover:text-white" title="Restore"><ArchiveRestore size={18} /></button>
+          )}
+        </div>
+      </div>
+      {(replies.draft?.notificationId === n.id || (replyingTo === n.id && (replies.busy || replyStatus))) && renderComposer()}
+    </React.Fragment>
+  );
+
   return (
     <div className="max-w-3xl mx-auto space-y-6">
       <div className="glass-panel rounded-3xl p-8 bg-gradient-to-br from-blue-900/40 to-slate-950 border-blue-500/20 flex items-center gap-6">
         <div className="w-16 h-16 rounded-2xl bg-blue-600 flex items-center justify-center shadow-lg"><BrainCircuit size={32} /></div>
         <div className="flex-1">
           <h2 className="text-xl font-bold">V1 Intelligence</h2>
-          <p className="text-slate-400 text-sm">V1 is monitoring {notifications.length} notifications. Ask it to read them aloud!</p>
+          <p className="text-slate-400 text-sm">V1 is monitoring {notifications.inbox.length} notifications ({notifications.unreadCount} unread). Ask it to read them aloud!</p>
         </div>
-        <button className="px-6 py-2 bg-white text-slate-950 rounded-xl font-bold">Read All</button>
+        <button onClick={notifications.markAllRead} disabled={!notifications.unreadCount} className="px-6 py-2 bg-white text-slate-950 rounded-xl font-bold disabled:opacity-40">Read All</button>
       </div>
 
-      <div className="space-y-3">
-        {notifications.map(n => (
-          <div key={n.id} className="glass-panel p-4 rounded-2xl flex items-center gap-4 hover:bg-slate-900/50">
-            <div className="p-2 bg-slate-800 rounded-lg">{getIcon(n.app)}</div>
-            <div className="flex-1">
-              <div className="flex justify-between items-center mb-1">
-                <span className="font-bold text-sm">{n.sender} via {n.app}</span>
-                <span className="text-[10px] text-slate-500">{n.timestamp}</span>
+      {rules.dndLabel && (
+        <div className="glass-panel rounded-2xl p-4 flex items-center gap-4 border-indigo-500/20 bg-indigo-500/5">
+          <Moon className="text-indigo-400" />
+          <p className="flex-1 text-sm text-slate-300">{rules.dndLabel} — V1 won't read notifications aloud unless a rule says to.</p>
+          {rules.dnd.manual && <button onClick={() => rules.setDnd({ ...rules.dnd, manual: false })} className="text-sm text-slate-400 hover:text-white">Turn off</button>}
+        </div>
+      )}
+
+      {focus.isFocusing && (
+        <div className="glass-panel rounded-2xl p-4 flex items-center gap-4 border-amber-500/20 bg-amber-500/5">
+          <Clock className="text-amber-400" />
+          <p className="flex-1 text-sm text-slate-300">
+            Focus session in progress ({formatRemaining(remainingMs(focus.state))} left). {focus.state.held.length} new notification{focus.state.held.length === 1 ? '' : 's'} held until your break.
+          </p>
+        </div>
+      )}
+
+      {focus.digest && (
+        <div className="glass-panel rounded-2xl p-4 space-y-2 border-blue-500/20">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-sm">Focus digest · {focus.digest.notifications.length} while you were focused</span>
+            <button onClick={focus.dismissDigest} className="text-slate-500 hover:text-white"><X size={16} /></button>
+          </div>
+          {focus.digest.notifications.map(n => (
+            <p key={n.id} className="text-sm text-slate-400"><span className="font-bold text-slate-300">{n.sender}</span> via {n.app}: {n.content}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1 bg-slate-900 p-1 rounded-2xl border border-slate-800 text-sm">
+          <button onClick={() => setView('inbox')} className={`px-4 py-1.5 rounded-xl ${view === 'inbox' ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Inbox</button>
+          <button onClick={() => setView('archive')} className={`px-4 py-1.5 rounded-xl ${view === 'archive' ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Archive ({notifications.archived.length})</button>
+          <button onClick={() => setView('rules')} className={`px-4 py-1.5 rounded-xl ${view === 'rules' ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>Rules</button>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={() => setShowTriage(!showTriage)} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white"><SlidersHorizontal size={16} /> Triage</button>
+          <button onClick={() => setShowSources(!showSources)} className="flex items-center gap-2 text-sm text-slate-400 hover:text-white"><Radio size={16} /> Sources</button>
+        </div>
+      </div>
+
+      {showTriage && (
+        <div className="glass-panel rounded-2xl p-5 space-y-4 text-sm">
+          <label className="flex items-center gap-3">
+            <input type="checkbox" checked={triage.settings.llmEnabled} onChange={e => triage.setSettings({ ...triage.settings, llmEnabled: e.target.checked })} />
+            Ask the AI model about notifications the rules are unsure of
+            {triage.llmBusy && <span className="text-xs text-blue-400 animate-pulse">classifying…</span>}
+          </label>
+          <div className="space-y-2">
+            <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500">Your rules</h4>
+            {triage.rules.length === 0 && <p className="text-xs text-slate-500">Change a notification's category and V1 will remember it for that sender.</p>}
+            {triage.rules.map(rule => (
+              <div key={rule.id} className="flex items-center gap-3 text-xs">
+                <span className="flex-1 text-slate-300">
+                  {[rule.sender, rule.app && `on ${rule.app}`, rule.keyword && `mentioning "${rule.keyword}"`].filter(Boolean).join(' ')}
+                </span>
+                <span className={`px-2 py-0.5 rounded-lg border font-bold uppercase tracking-wider text-[10px] ${categoryStyle[rule.category]}`}>{triageLabel[rule.category]}</span>
+                <button onClick={() => triage.removeRule(rule.id)} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
               </div>
-              <p className="text-sm text-slate-400">{n.content}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showSources && (
+        <div className="glass-panel rounded-2xl p-5 space-y-4 text-sm">
+          {(Object.entries(notifications.sources) as [string, SourceState][]).map(([id, source]) => (
+            <div key={id} className="flex items-center gap-2 text-xs text-slate-400">
+              <span className={`w-2 h-2 rounded-full ${statusDot[source.status]}`} />
+              <span className="font-bold">{source.label}</span>
+              {source.detail && <span className="text-slate-500">· {source.detail}</span>}
             </div>
-            <button className="text-blue-500"><Check size={20} /></button>
+          ))}
+          <label className="flex items-center gap-3">
+            <input type="checkbox" checked={settings.mockEnabled} onChange={e => setSettings({ ...settings, mockEnabled: e.target.checked })} />
+            Demo generator (a sample notification every 45 seconds)
+          </label>
+          <div className="flex items-center gap-3">
+            <input type="checkbox" checked={settings.websocketEnabled} onChange={e => setSettings({ ...settings, websocketEnabled: e.target.checked })} />
+            <span>WebSocket feed</span>
+            <input
+              value={settings.websocketUrl}
+              onChange={e => setSettings({ ...settings, websocketUrl: e.target.value })}
+              className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5"
+            />
           </div>
-        ))}
-      </div>
+          <div className="space-y-2">
+            <textarea
+              value={payload}
+              onChange={e => setPayload(e.target.value)}
+              placeholder='Paste a webhook payload, e.g. [{"app": "Discord", "sender": "Sam", "content": "gg"}]'
+              className="w-full h-24 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 font-mono text-xs resize-none"
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-slate-500">{importResult}</span>
+              <button onClick={runImport} disabled={!payload.trim()} className="flex items-center gap-2 px-4 py-1.5 bg-slate-800 rounded-xl hover:bg-slate-700 disabled:opacity-40"><Upload size={14} /> Import</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {view === 'rules' ? <NotificationRules rules={rules} recent={notifications.inbox} /> : (
+        <div className="space-y-3">
+          {listed.length === 0 && <p className="text-sm text-slate-500 text-center p-6">{view === 'inbox' ? 'Inbox zero.' : 'Nothing archived.'}</p>}
+          {view === 'inbox'
+            ? TRIAGE_CATEGORIES.map(category => {
+                const group = triage.triaged.filter(t => t.triage.category === category);
+                if (!group.length) return null;
+                return (
+                  <div key={category} className="space-y-3">
+                    <h3 className="text-xs font-bold uppercase tracking-widest text-slate-500 pt-2">{triageLabel[category]} · {group.length}</h3>
+                    {group.map(t => renderItem(t.notification, t.triage))}
+                  </div>
+                );
+              })
+            : listed.map(n => renderItem(n))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Moon, Plus, Trash2, Pencil, Check, X, FlaskConical, Volume2, VolumeX } from 'lucide-react';
+import { AppNotification, DndSchedule, NotificationRule, NotificationRuleAction } from '../types';
+import { NotificationRules as Rules } from '../hooks/useNotificationRules';
+import { RULE_ACTIONS, createRule, describeRule, evaluateNotification, isValidClock, ruleActionLabel, validateRule, SAMPLE_NOTIFICATIONS } from '../services/notificationRules';
+import { newId } from '../services/ids';
+
+interface NotificationRulesProps {
+  rules: Rules;
+  recent: AppNotification[];
+}
+
+const DAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const inputClass = 'bg-slate-950 border border-slate-800 rounded-xl px-3 py-1.5 text-sm';
+
+interface RuleFormProps {
+  rule: NotificationRule;
+  onSave: (rule: NotificationRule) => void;
+  onCancel: () => void;
+}
+
+const RuleForm: React.FC<RuleFormProps> = ({ rule, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(rule);
+  const [error, setError] = useState<string | null>(null);
+  const set = (changes: Partial<NotificationRule>) => setDraft(prev => ({ ...prev, ...changes }));
+  const text = (value: string) => value.trim() || undefined;
+
+  const save = () => {
+    const cleaned = { ...draft, app: text(draft.app ?? ''), sender: text(draft.sender ?? ''), keyword: text(draft.keyword ?? '') };
+    const invalid = validateRule(cleaned);
+    if (invalid) return setError(invalid);
+    onSave(cleaned);
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-slate-900 border border-slate-800 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <input autoFocus value={draft.name} onChange={e => set({ name: e.target.value })} placeholder="Rule name" className={`${inputClass} col-span-2`} />
+        <input value={draft.app ?? ''} onChange={e => set({ app: e.target.value })} placeholder="App (any)" className={inputClass} />
+        <input value={draft.sender ?? ''} onChange={e => set({ sender: e.target.value })} placeholder="Sender (any)" className={inputClass} />
+        <input value={draft.keyword ?? ''} onChange={e => set({ keyword: e.target.value })} placeholder="Keyword (any)" className={inputClass} />
+        <select value={draft.action} onChange={e => set({ action: e.target.value as NotificationRuleAction })} className={inputClass}>
+          {RULE_ACTIONS.map(a => <option key={a} value={a}>{ruleActionLabel[a]}</option>)}
+        </select>
+      </div>
+      <label className="flex items-center gap-3 text-xs text-slate-400">
+        <input type="checkbox" checked={!!draft.window} onChange={e => set({ window: e.target.checked ? { start: '09:00', end: '17:00' } : undefined })} />
+        Only between
+        {draft.window && (
+          <>
+            <input type="time" value={draft.window.start} onChange={e => set({ window: { ...draft.window!, start: e.target.value } })} className={inputClass} />
+            and
+            <input type="time" value={draft.window.end} onChange={e => set({ window: { ...draft.window!, end: e.target.value } })} className={inputClass} />
+          </>
+        )}
+      </label>
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-red-400">{error}</span>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="p-1.5 bg-slate-800 rounded-lg"><X size={16} /></button>
+          <button onClick={save} className="p-1.5 bg-blue-600 rounded-lg"><Check size={16} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const NotificationRules: React.FC<NotificationRulesProps> = ({ rules, recent }) => {
+  const { dnd, setDnd } = rules;
+  const [editing, setEditing] = useState<NotificationRule | null>(null);
+  const [testTime, setTestTime] = useState(() => new Date().toTimeString().slice(0, 5));
+  const [samples, setSamples] = useState<AppNotification[]>(() => [...SAMPLE_NOTIFICATIONS, ...recent.slice(0, 3)]);
+  const [sample, setSample] = useState({ app: '', sender: '', content: '' });
+
+  const saveRule = (rule: NotificationRule) => {
+    const exists = rules.rules.some(r => r.id === rule.id);
+    rules.setRules(exists ? rules.rules.map(r => r.id === rule.id ? rule : r) : [...rules.rules, rule]);
+    setEditing(null);
+  };
+
+  const moveRule = (index: number, delta: number) => {
+    const next = [...rules.rules];
+    const [moved] = next.splice(index, 1);
+    next.splice(Math.max(0, Math.min(next.length, index + delta)), 0, moved);
+    rules.setRules(next);
+  };
+
+  const updateSchedule = (id: string, changes: Partial<DndSchedule>) =>
+    setDnd({ ...dnd, schedules: dnd.schedules.map(s => s.id === id ? { ...s, ...changes } : s) });
+
+  const addSample = () => {
+    if (!sample.sender.trim() || !sample.content.trim()) return;
+    setSamples(prev => [{ id: newId('sample'), app: sample.app.trim() || 'Messages', sender: sample.sender.trim(), content: sample.content.trim(), receivedAt: new Date().toISOString(), status: 'unread', sourceId: 'sample' }, ...prev]);
+    setSample({ app: '', sender: '', content: '' });
+  };
+
+  const testDate = (() => {
+    const d = new Date();
+    if (isValidClock(testTime)) {
+      const [h, m] = testTime.split(':').map(Number);
+      d.setHours(h, m, 0, 0);
+    }
+    return d;
+  })();
+
+  return (
+    <div className="space-y-6">
+      <div className="glass-panel rounded-2xl p-5 space-y-4 text-sm">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-bold"><Moon size={16} className="text-indigo-400" /> Do Not Disturb</h3>
+          <button onClick={() => setDnd({ ...dnd, manual: !dnd.manual })} className={`px-4 py-1.5 rounded-xl font-bold ${dnd.manual ? 'bg-indigo-600' : 'bg-slate-800 text-slate-400'}`}>{dnd.manual ? 'On' : 'Off'}</button>
+        </div>
+        <label className="flex items-center gap-3 text-slate-300">
+          <input type="checkbox" checked={dnd.announce} onChange={e => setDnd({ ...dnd, announce: e.target.checked })} />
+          {dnd.announce ? <Volume2 size={14} /> : <VolumeX size={14} />} V1 reads new notifications aloud during a Live session
+        </label>
+        <div className="space-y-2">
+          {dnd.schedules.map(schedule => (
+            <div key={schedule.id} className="flex items-center gap-2 flex-wrap">
+              <input type="checkbox" checked={schedule.enabled} onChange={e => updateSchedule(schedule.id, { enabled: e.target.checked })} />
+              <input value={schedule.label} onChange={e => updateSchedule(schedule.id, { label: e.target.value })} className={`${inputClass} w-28`} />
+              <input type="time" value={schedule.window.start} onChange={e => updateSchedule(schedule.id, { window: { ...schedule.window, start: e.target.value } })} className={inputClass} />
+              <span className="text-slate-500">to</span>
+              <input type="time" value={schedule.window.end} onChange={e => updateSchedule(schedule.id, { window: { ...schedule.window, end: e.target.value } })} className={inputClass} />
+              <div className="flex gap-0.5">
+                {DAYS.map((d, i) => {
+                  const days = schedule.window.days ?? [];
+                  const on = !days.length || days.includes(i);
+                  const toggle = () => {
+                    const base = days.length ? days : [0, 1, 2, 3, 4, 5, 6];
+                    const next = on ? base.filter(x => x !== i) : [...base, i].sort();
+                    updateSchedule(schedule.id, { window: { ...schedule.window, days: next.length === 7 ? undefined : next } });
+                  };
+                  return <button key={i} onClick={toggle} className={`w-6 h-6 rounded-md text-[10px] font-bold ${on ? 'bg-indigo-600' : 'bg-slate-800 text-slate-500'}`}>{d}</button>;
+                })}
+              </div>
+              <button onClick={() => setDnd({ ...dnd, schedules: dnd.schedules.filter(s => s.id !== schedule.id) })} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDnd({ ...dnd, schedules: [...dnd.schedules, { id: newId('dnd'), label: 'Class', enabled: true, window: { start: '09:00', end: '12:00', days: [1, 2, 3, 4, 5] } }] })}
+            className="flex items-center gap-2 text-xs text-slate-400 hover:text-white"
+          >
+            <Plus size={14} /> Add quiet hours
+          </button>
+        </div>
+      </div>
+
+      <div className="glass-panel rounded-2xl p-5 space-y-3 text-sm">
+        <div className="flex items-center justify-between">
+          <h3 className="font-bold">Rules <span className="text-xs font-normal text-slate-500">· first match wins</span></h3>
+          <button onClick={() => setEditing(createRule())} className="flex items-center gap-2 text-xs text-slate-400 hover:text-white"><Plus size={14} /> New rule</button>
+        </div>
+        {editing && !rules.rules.some(r => r.id === editing.id) && <RuleForm rule={editing} onSave={saveRule} onCancel={() => setEditing(null)} />}
+        {rules.rules.length === 0 && !editing && <p className="text-xs text-slate-500">No rules yet. Mute noisy apps, always hear from family, or turn deadline emails into tasks.</p>}
+        {rules.rules.map((rule, i) => editing?.id === rule.id ? (
+          <RuleForm key={rule.id} rule={editing} onSave={saveRule} onCancel={() => setEditing(null)} />
+        ) : (
+          <div key={rule.id} className={`flex items-center gap-3 p-2 rounded-xl hover:bg-slate-900/60 ${rule.enabled ? '' : 'opacity-50'}`}>
+            <input type="checkbox" checked={rule.enabled} onChange={e => saveRule({ ...rule, enabled: e.target.checked })} />
+            <div className="flex-1 min-w-0">
+              <div className="font-bold truncate">{rule.name}</div>
+              <div className="text-xs text-slate-500 truncate">{describeRule(rule)}</div>
+            </div>
+            <button onClick={() => moveRule(i, -1)} disabled={i === 0} className="text-xs text-slate-500 hover:text-white disabled:opacity-30">▲</button>
+            <button onClick={() => moveRule(i, 1)} disabled={i === rules.rules.length - 1} className="text-xs text-slate-500 hover:text-white disabled:opacity-30">▼</button>
+            <button onClick={() => setEditing(rule)} className="p-1 text-slate-500 hover:text-white"><Pencil size={14} /></button>
+            <button onClick={() => rules.setRules(rules.rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+          </div>
+        ))}
+      </div>
+
+      <div className="glass-panel rounded-2xl p-5 space-y-3 text-sm">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 font-bold"><FlaskConical size={16} className="text-emerald-400" /> Test against samples</h3>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Arriving at <input type="time" value={testTime} onChange={e => setTestTime(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <input value={sample.app} onChange={e => setSample({ ...sample, app: e.target.value })} placeholder="App" className={`${inputClass} w-28`} />
+          <input value={sample.sender} onChange={e => setSample({ ...sample, sender: e.target.value })} placeholder="Sender" className={`${inputClass} w-32`} />
+          <input value={sample.content} onChange={e => setSample({ ...sample, content: e.target.value })} onKeyDown={e => e.key === 'Enter' && addSample()} placeholder="Message" className={`${inputClass} flex-1`} />
+          <button onClick={addSample} className="p-1.5 bg-slate-800 rounded-xl hover:bg-slate-700"><Plus size={16} /></button>
+        </div>
+        {samples.map(n => {
+          const outcome = evaluateNotification(rules.rules, dnd, n, testDate);
+          return (
+            <div key={n.id} className="flex items-center gap-3 text-xs">
+              <span className="flex-1 min-w-0 truncate text-slate-300"><span className="font-bold">{n.sender}</span> via {n.app}: {n.content}</span>
+              <span className="px-2 py-0.5 rounded-lg bg-slate-800 font-bold whitespace-nowrap">
+                {outcome.action === 'deliver' ? 'Deliver' : ruleActionLabel[outcome.action]}{outcome.announce ? ' · spoken' : ' · silent'}
+              </span>
+              <span className="w-48 truncate text-slate-500" title={outcome.reason}>{outcome.reason}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {rules.digestQueue.length > 0 && (
+        <div className="glass-panel rounded-2xl p-4 flex items-center gap-4 text-sm">
+          <span className="flex-1 text-slate-300">{rules.digestQueue.length} notification{rules.digestQueue.length === 1 ? '' : 's'} waiting for the hourly digest.</span>
+          <button onClick={rules.flushDigest} className="px-4 py-1.5 bg-slate-800 rounded-xl hover:bg-slate-700">Deliver now</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationRules;
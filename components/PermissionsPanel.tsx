@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Globe, ScrollText, RotateCcw, Trash2 } from 'lucide-react';
+import { ToolDecision } from '../types';
+import { ToolPermissionsState } from '../hooks/useToolPermissions';
+import { DEFAULT_TOOL_POLICIES, TOOL_POLICIES, normalizeHostPattern, policyFor } from '../services/permissions';
+
+interface PermissionsPanelProps {
+  tools: string[];
+  permissions: ToolPermissionsState;
+}
+
+const decisionStyle: Record<ToolDecision, string> = {
+  allowed: 'bg-slate-800 text-slate-300',
+  confirmed: 'bg-emerald-500/10 text-emerald-400',
+  declined: 'bg-amber-500/10 text-amber-400',
+  blocked: 'bg-red-500/10 text-red-400'
+};
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value ?? null);
+
+const toLines = (hosts: string[]) => hosts.join('\n');
+const fromLines = (text: string) => [...new Set(text.split(/[\n,]/).map(normalizeHostPattern).filter(Boolean))];
+
+const PermissionsPanel: React.FC<PermissionsPanelProps> = ({ tools, permissions: state }) => {
+  const { permissions, setPermissions, audit } = state;
+  const [allowDraft, setAllowDraft] = useState(toLines(permissions.urlAllow));
+  const [denyDraft, setDenyDraft] = useState(toLines(permissions.urlDeny));
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  // Follow the stored lists when they finish loading or are normalised on save.
+  useEffect(() => setAllowDraft(toLines(permissions.urlAllow)), [permissions.urlAllow]);
+  useEffect(() => setDenyDraft(toLines(permissions.urlDeny)), [permissions.urlDeny]);
+
+  const customised = Object.keys(permissions.policies).length > 0;
+
+  return (
+    <div className="max-w-3xl mx-auto glass-panel rounded-3xl p-8 space-y-8">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold flex items-center gap-2"><ShieldCheck className="text-blue-400" /> Tool Permissions</h3>
+          {customised && (
+            <button onClick={() => setPermissions({ ...permissions, policies: {} })} className="flex items-center gap-2 text-sm text-slate-500 hover:text-white">
+              <RotateCcw size={14} /> Restore defaults
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-slate-500">"Ask" pauses V1 until you confirm by voice or click. Changes apply immediately.</p>
+        <div className="divide-y divide-slate-800/60">
+          {tools.map(tool => {
+            const policy = policyFor(permissions, tool);
+            return (
+              <div key={tool} className="flex items-center justify-between py-2">
+                <span className="text-sm font-mono text-slate-300">
+                  {tool}
+                  {permissions.policies[tool] === undefined && DEFAULT_TOOL_POLICIES[tool] && <span className="ml-2 text-[10px] text-slate-600 font-sans uppercase">default</span>}
+                </span>
+                <div className="flex gap-1">
+                  {TOOL_POLICIES.map(p => (
+                    <button
+                      key={p.id}
+                      onClick={() => setPermissions({ ...permissions, policies: { ...permissions.policies, [tool]: p.id } })}
+                      className={`px-3 py-1 rounded-lg text-xs border ${policy === p.id
+                        ? p.id === 'never' ? 'bg-red-600/20 border-red-500/40 text-red-300' : p.id === 'ask' ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-blue-600/10 border-blue-500/30 text-blue-200'
+                        : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-white'}`}
+                    >
+                      {p.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><Globe size={14} /> Websites V1 may open</h4>
+        <div className="grid md:grid-cols-2 gap-6">
+          <label className="block space-y-2">
+            <span className="text-xs text-slate-500">Allowed (one per line; empty allows any site not blocked)</span>
+            <textarea
+              value={allowDraft}
+              onChange={e => setAllowDraft(e.target.value)}
+              onBlur={() => setPermissions({ ...permissions, urlAllow: fromLines(allowDraft) })}
+              rows={4}
+              placeholder="wikipedia.org"
+              className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm font-mono"
+            />
+          </label>
+          <label className="block space-y-2">
+            <span className="text-xs text-slate-500">Blocked (subdomains included; wins over allowed)</span>
+            <textarea
+              value={denyDraft}
+              onChange={e => setDenyDraft(e.target.value)}
+              onBlur={() => setPermissions({ ...permissions, urlDeny: fromLines(denyDraft) })}
+              rows={4}
+              placeholder="example.com"
+              className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm font-mono"
+            />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2"><ScrollText size={14} /> Audit log ({audit.length})</h4>
+          {audit.length > 0 && (confirmClear ? (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-400">Clear the log?</span>
+              <button onClick={() => { state.clearAudit(); setConfirmClear(false); }} className="px-3 py-1 bg-red-600 rounded-lg">Clear</button>
+              <button onClick={() => setConfirmClear(false)} className="px-3 py-1 bg-slate-800 rounded-lg">Keep</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmClear(true)} className="flex items-center gap-2 text-sm text-slate-500 hover:text-red-400"><Trash2 size={14} /> Clear</button>
+          ))}
+        </div>
+        {audit.length === 0 ? (
+          <p className="text-sm text-slate-600">No tool calls yet.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+            {audit.map(entry => (
+              <details key={entry.id} className="p-3 rounded-xl bg-slate-950/60 border border-slate-800 text-sm">
+                <summary className="flex items-center gap-3 cursor-pointer">
+                  <span className="text-xs text-slate-500 w-32 flex-shrink-0">{new Date(entry.at).toLocaleString([], { dateStyle: 'short', timeStyle: 'medium' })}</span>
+                  <span className="font-mono text-slate-300 flex-1 truncate">{entry.tool}</span>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase ${decisionStyle[entry.decision]}`}>{entry.decision}</span>
+                </summary>
+                <div className="mt-2 space-y-1 text-xs font-mono break-words">
+                  <div><span className="text-slate-500">args </span>{formatValue(entry.args)}</div>
+                  {entry.error
+                    ? <div className="text-red-400"><span className="text-slate-500">error </span>{entry.error}</div>
+                    : <div className="text-slate-300 whitespace-pre-wrap"><span className="text-slate-500">result </span>{formatValue(entry.result)}</div>}
+                </div>
+              </details>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PermissionsPanel;
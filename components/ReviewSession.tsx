@@ -0,0 +1,99 @@
+import React from 'react';
+import { Brain, Download, X } from 'lucide-react';
+import { FlashcardDeck, ReviewAnswer } from '../types';
+import { FlashcardReview } from '../hooks/useFlashcardReview';
+import { REVIEW_ANSWERS, exportReviewHistory } from '../services/spacedRepetition';
+
+interface ReviewSessionProps {
+  decks: FlashcardDeck[];
+  review: FlashcardReview;
+}
+
+const answerStyle: Record<ReviewAnswer, string> = {
+  again: 'bg-red-600 hover:bg-red-500',
+  hard: 'bg-amber-600 hover:bg-amber-500',
+  good: 'bg-blue-600 hover:bg-blue-500',
+  easy: 'bg-emerald-600 hover:bg-emerald-500'
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ decks, review }) => {
+  const { current, session, log } = review;
+  const totalDue = review.dueCount();
+
+  const exportHistory = (format: 'json' | 'csv') => download(
+    exportReviewHistory(log, decks, format),
+    `v1-review-history-${new Date().toISOString().slice(0, 10)}.${format}`,
+    format === 'json' ? 'application/json' : 'text/csv'
+  );
+
+  if (!decks.length) return null;
+
+  return (
+    <div className="glass-panel rounded-3xl p-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Brain className="text-blue-400" /> Daily Review
+        </h3>
+        {log.length > 0 && (
+          <div className="flex gap-2 text-xs font-bold">
+            {(['json', 'csv'] as const).map(f => (
+              <button key={f} onClick={() => exportHistory(f)} className="flex items-center gap-1 px-3 py-1.5 bg-slate-800 rounded-lg hover:bg-slate-700 uppercase">
+                <Download size={12} /> {f}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {current && session ? (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-xs text-slate-500 font-bold uppercase tracking-wider">
+            <span>{current.deck.title} · {current.remaining} left</span>
+            <button onClick={review.end} className="hover:text-white"><X size={16} /></button>
+          </div>
+          <div className="p-8 rounded-3xl bg-slate-900 border border-slate-800 text-lg font-medium text-center space-y-4">
+            <p>{current.card.front}</p>
+            {session.revealed && <p className="pt-4 border-t border-slate-800 text-blue-300">{current.card.back}</p>}
+          </div>
+          {session.revealed ? (
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_ANSWERS.map(a => (
+                <button key={a} onClick={() => review.grade(a)} className={`py-2 rounded-xl text-sm font-bold capitalize ${answerStyle[a]}`}>{a}</button>
+              ))}
+            </div>
+          ) : (
+            <button onClick={review.reveal} className="w-full py-2 bg-slate-800 rounded-xl hover:bg-slate-700 font-bold text-sm">Show Answer</button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-400">
+            {totalDue ? `${totalDue} card${totalDue === 1 ? '' : 's'} due. Say "start my review" or pick a deck.` : 'All caught up. No cards are due.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {totalDue > 0 && (
+              <button onClick={() => review.start()} className="px-4 py-2 bg-blue-600 rounded-xl hover:bg-blue-500 text-sm font-bold">Review all ({totalDue})</button>
+            )}
+            {decks.map(d => {
+              const due = review.dueCount(d.id);
+              return due > 0 && (
+                <button key={d.id} onClick={() => review.start(d.id)} className="px-4 py-2 bg-slate-800 rounded-xl hover:bg-slate-700 text-sm">{d.title} ({due})</button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, Volume2, Cpu, UserCog, Languages, Captions, RotateCcw, Check, Mic, Ear, Keyboard, Moon, AlertTriangle } from 'lucide-react';
+import { AssistantSettings } from '../types';
+import { StorageFailure } from '../hooks/usePersistentState';
+import { ACTIVATION_MODES, DEFAULT_SETTINGS, LANGUAGES, LIVE_MODELS, MAX_PROMPT_LENGTH, MAX_SLEEP_SEC, PERSONAS, PREBUILT_VOICES, keyLabel, systemInstructionFor, validateSettings } from '../services/settings';
+
+interface SettingsPanelProps {
+  settings: AssistantSettings;
+  onSave: (settings: AssistantSettings) => void;
+  storageFailures: StorageFailure[];
+}
+
+const Field: React.FC<{ icon: React.ReactNode; label: string; error?: string; children: React.ReactNode }> = ({ icon, label, error, children }) => (
+  <label className="block space-y-2">
+    <span className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest">{icon} {label}</span>
+    {children}
+    {error && <span className="block text-xs text-red-400">{error}</span>}
+  </label>
+);
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2 text-sm';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, storageFailures }) => {
+  const [draft, setDraft] = useState(settings);
+  const [saved, setSaved] = useState(false);
+
+  // Follow the stored settings when they finish loading or are saved.
+  useEffect(() => setDraft(settings), [settings]);
+
+  const errors = validateSettings(draft);
+  const valid = Object.keys(errors).length === 0;
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const change = (patch: Partial<AssistantSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setSaved(false);
+  };
+  const customModel = !LIVE_MODELS.some(m => m.id === draft.model);
+
+  const save = () => {
+    if (!valid) return;
+    onSave(draft);
+    setSaved(true);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto glass-panel rounded-3xl p-8 space-y-8">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2"><Settings className="text-blue-400" /> Assistant Settings</h3>
+        <span className="text-xs text-slate-500">Changes apply to the next voice session.</span>
+      </div>
+
+      {storageFailures.length > 0 && (
+        <div className="p-4 rounded-2xl bg-red-500/10 border border-red-500/20 space-y-3">
+          <p className="flex items-center gap-2 text-sm font-bold text-red-300"><AlertTriangle size={16} /> Some saved data could not be loaded</p>
+          <p className="text-xs text-slate-400">Changes to these are kept until you close V1 but not saved, so the stored copy is left alone. Reset replaces it with what you see now.</p>
+          {storageFailures.map(f => (
+            <div key={f.key} className="flex items-center justify-between gap-4 text-sm">
+              <span className="min-w-0"><span className="font-mono text-slate-300">{f.key}</span> <span className="text-xs text-slate-500 break-words">{f.error}</span></span>
+              <button onClick={f.reset} className="flex items-center gap-2 px-3 py-1 bg-red-600 rounded-lg text-xs font-bold flex-shrink-0"><RotateCcw size={12} /> Reset</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <Field icon={<Volume2 size={14} />} label="Voice" error={errors.voice}>
+          <select value={draft.voice} onChange={e => change({ voice: e.target.value })} className={inputClass}>
+            {PREBUILT_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.style}</option>)}
+          </select>
+        </Field>
+
+        <Field icon={<Languages size={14} />} label="Language" error={errors.language}>
+          <select value={draft.language} onChange={e => change({ language: e.target.value })} className={inputClass}>
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+        </Field>
+
+        <Field icon={<Cpu size={14} />} label="Live model" error={errors.model}>
+          <select value={customModel ? 'other' : draft.model} onChange={e => change({ model: e.target.value === 'other' ? '' : e.target.value })} className={inputClass}>
+            {LIVE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+            <option value="other">Other model id...</option>
+          </select>
+          {customModel && (
+            <input value={draft.model} onChange={e => change({ model: e.target.value.trim() })} placeholder="gemini-..." className={`${inputClass} mt-2 font-mono`} />
+          )}
+        </Field>
+
+        <Field icon={<Captions size={14} />} label="Transcription">
+          <button type="button" onClick={() => change({ transcription: !draft.transcription })} className={`w-full px-4 py-2 rounded-xl text-sm text-left border ${draft.transcription ? 'bg-blue-600/10 border-blue-500/30 text-blue-200' : 'bg-slate-950 border-slate-800 text-slate-400'}`}>
+            {draft.transcription ? 'On: spoken turns are transcribed and kept in history' : 'Off: spoken turns are not written down'}
+          </button>
+        </Field>
+      </div>
+
+      <Field icon={<UserCog size={14} />} label="Persona" error={errors.persona}>
+        <div className="flex flex-wrap gap-2">
+          {PERSONAS.map(p => (
+            <button key={p.id} type="button" onClick={() => change({ persona: p.id })} className={`px-4 py-2 rounded-xl text-sm border ${draft.persona === p.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}>
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      {draft.persona === 'custom' && (
+        <Field icon={null} label={`Custom prompt (${draft.customPrompt.length}/${MAX_PROMPT_LENGTH})`} error={errors.customPrompt}>
+          <textarea value={draft.customPrompt} onChange={e => change({ customPrompt: e.target.value })} rows={5} placeholder="You are V1, ..." className={inputClass} />
+        </Field>
+      )}
+
+      <Field icon={<Mic size={14} />} label="Activation" error={errors.activation}>
+        <div className="grid md:grid-cols-3 gap-2">
+          {ACTIVATION_MODES.map(m => (
+            <button key={m.id} type="button" onClick={() => change({ activation: m.id })} className={`px-4 py-3 rounded-xl text-left border ${draft.activation === m.id ? 'bg-blue-600/10 border-blue-500/30 text-blue-200' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}>
+              <span className="block text-sm font-bold">{m.label}</span>
+              <span className="block text-xs text-slate-500">{m.hint}</span>
+            </button>
+          ))}
+        </div>
+      </Field>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        {draft.activation === 'wake_word' && (
+          <Field icon={<Ear size={14} />} label="Wake phrase" error={errors.wakePhrase}>
+            <input value={draft.wakePhrase} onChange={e => change({ wakePhrase: e.target.value })} placeholder="Hey V1" className={inputClass} />
+          </Field>
+        )}
+
+        {draft.activation === 'push_to_talk' && (
+          <Field icon={<Keyboard size={14} />} label="Push-to-talk key" error={errors.pushToTalkKey}>
+            <input
+              readOnly
+              value={keyLabel(draft.pushToTalkKey)}
+              onKeyDown={e => {
+                if (e.key === 'Tab') return;
+                e.preventDefault();
+                change({ pushToTalkKey: e.code });
+              }}
+              placeholder="Focus and press a key"
+              className={`${inputClass} font-mono cursor-pointer`}
+            />
+          </Field>
+        )}
+
+        <Field icon={<Moon size={14} />} label="Sleep after quiet (seconds, 0 = never)" error={errors.sleepAfterSec}>
+          <input type="number" min={0} max={MAX_SLEEP_SEC} value={draft.sleepAfterSec} onChange={e => change({ sleepAfterSec: Number(e.target.value) })} className={inputClass} />
+        </Field>
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">System instruction preview</span>
+        <p className="p-4 rounded-2xl bg-slate-950/60 border border-slate-800 text-sm text-slate-400 whitespace-pre-wrap">
+          {valid ? systemInstructionFor(draft) : 'Fix the highlighted settings to preview the instruction.'}
+        </p>
+      </div>
+
+      <div className="flex justify-between">
+        <button onClick={() => change(DEFAULT_SETTINGS)} className="flex items-center gap-2 px-4 py-2 text-sm text-slate-500 hover:text-white">
+          <RotateCcw size={14} /> Restore defaults
+        </button>
+        <button onClick={save} disabled={!valid || !dirty} className="flex items-center gap-2 px-6 py-2 bg-blue-600 rounded-xl font-bold disabled:opacity-40">
+          {saved && !dirty ? <><Check size={16} /> Saved</> : 'Save Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
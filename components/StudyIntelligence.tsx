@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { Sparkles, FileText, Layers, ListChecks, Loader2, Trash2, ChevronLeft, ChevronRight, RotateCcw, Save } from 'lucide-react';
+import { Note, FlashcardDeck, Quiz } from '../types';
+import { TextModel } from '../services/textModel';
+import { summarizeNotes, generateFlashcards, generateQuiz } from '../services/studyGenerator';
+import { createNote } from '../services/notes';
+import Markdown from './Markdown';
+
+interface StudyIntelligenceProps {
+  notes: Note[];
+  decks: FlashcardDeck[];
+  quizzes: Quiz[];
+  textModel: TextModel | null;
+  setNotes: React.Dispatch<React.SetStateAction<Note[]>>;
+  setDecks: React.Dispatch<React.SetStateAction<FlashcardDeck[]>>;
+  setQuizzes: React.Dispatch<React.SetStateAction<Quiz[]>>;
+}
+
+type Job = 'summary' | 'flashcards' | 'quiz';
+type View = { kind: 'summary' } | { kind: 'deck'; id: string } | { kind: 'quiz'; id: string } | null;
+
+const DeckViewer: React.FC<{ deck: FlashcardDeck }> = ({ deck }) => {
+  const [index, setIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const card = deck.cards[index];
+  const go = (delta: number) => {
+    setIndex((index + delta + deck.cards.length) % deck.cards.length);
+    setFlipped(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <button onClick={() => setFlipped(!flipped)} className={`w-full min-h-[160px] p-8 rounded-3xl border text-lg font-medium transition-all ${flipped ? 'bg-blue-600/10 border-blue-500/40 text-blue-50' : 'bg-slate-900 border-slate-800'}`}>
+        {flipped ? card.back : card.front}
+      </button>
+      <div className="flex items-center justify-between text-sm text-slate-400">
+        <button onClick={() => go(-1)} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><ChevronLeft size={18} /></button>
+        <span>Card {index + 1} / {deck.cards.length} · tap to flip</span>
+        <button onClick={() => go(1)} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><ChevronRight size={18} /></button>
+      </div>
+    </div>
+  );
+};
+
+const QuizRunner: React.FC<{ quiz: Quiz }> = ({ quiz }) => {
+  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const answered = Object.keys(answers).length;
+  const score = quiz.questions.filter((q, i) => answers[i] === q.answerIndex).length;
+
+  return (
+    <div className="space-y-6">
+      {quiz.questions.map((q, i) => (
+        <div key={i} className="space-y-2">
+          <p className="font-bold">{i + 1}. {q.question}</p>
+          <div className="grid sm:grid-cols-2 gap-2">
+            {q.options.map((option, j) => {
+              const chosen = answers[i] === j;
+              const reveal = answers[i] !== undefined;
+              const tone = reveal && j === q.answerIndex ? 'border-emerald-500 bg-emerald-500/10' : chosen ? 'border-red-500 bg-red-500/10' : 'border-slate-800 hover:border-slate-600';
+              return (
+                <button key={j} disabled={reveal} onClick={() => setAnswers({ ...answers, [i]: j })} className={`text-left text-sm p-3 rounded-xl border ${tone}`}>
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+          {answers[i] !== undefined && q.explanation && <p className="text-xs text-slate-400">{q.explanation}</p>}
+        </div>
+      ))}
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-bold">Score: {score} / {answered} answered of {quiz.questions.length}</span>
+        <button onClick={() => setAnswers({})} className="flex items-center gap-1 text-blue-400"><RotateCcw size={14} /> Retry</button>
+      </div>
+    </div>
+  );
+};
+
+const StudyIntelligence: React.FC<StudyIntelligenceProps> = ({ notes, decks, quizzes, textModel, setNotes, setDecks, setQuizzes }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [busy, setBusy] = useState<Job | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [view, setView] = useState<View>(null);
+
+  const selectedNotes = notes.filter(n => selected.includes(n.id));
+  const toggle = (id: string) => setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+
+  const run = async (job: Job) => {
+    if (!textModel) return;
+    setBusy(job);
+    setError(null);
+    try {
+      if (job === 'summary') {
+        setSummary(await summarizeNotes(textModel, selectedNotes));
+        setView({ kind: 'summary' });
+      } else if (job === 'flashcards') {
+        const deck = await generateFlashcards(textModel, selectedNotes);
+        setDecks(prev => [deck, ...prev]);
+        setView({ kind: 'deck', id: deck.id });
+      } else {
+        const quiz = await generateQuiz(textModel, selectedNotes);
+        setQuizzes(prev => [quiz, ...prev]);
+        setView({ kind: 'quiz', id: quiz.id });
+      }
+    } catch (e: any) {
+      setError(e.message || 'Generation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveSummary = () => {
+    if (!summary) return;
+    setNotes(prev => [createNote(`Summary: ${selectedNotes.map(n => n.title).join(', ')}`, summary, ['summary']), ...prev]);
+    setView(null);
+    setSummary(null);
+  };
+
+  const activeDeck = view?.kind === 'deck' ? decks.find(d => d.id === view.id) : undefined;
+  const activeQuiz = view?.kind === 'quiz' ? quizzes.find(q => q.id === view.id) : undefined;
+  const actions: { job: Job; label: string; icon: typeof FileText }[] = [
+    { job: 'summary', label: 'Summarise', icon: FileText },
+    { job: 'flashcards', label: 'Flashcards', icon: Layers },
+    { job: 'quiz', label: 'Quiz', icon: ListChecks }
+  ];
+
+  return (
+    <div className="glass-panel rounded-3xl p-8 relative overflow-hidden group space-y-6">
+      <div className="absolute top-0 right-0 p-8 text-blue-500/10 group-hover:text-blue-500/20 transition-colors pointer-events-none">
+        <Sparkles size={120} />
+      </div>
+      <div className="relative z-10 space-y-4">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <Sparkles className="text-amber-400" /> V1 Intelligence
+        </h2>
+        {!textModel ? (
+          <p className="text-slate-400">Connect an API key to summarise notes and generate flashcards and quizzes.</p>
+        ) : (
+          <>
+            <p className="text-slate-400 text-sm">Pick notes to study from:</p>
+            <div className="flex flex-wrap gap-2">
+              {notes.length === 0 && <span className="text-sm text-slate-500">No notes yet.</span>}
+              {notes.map(n => (
+                <button key={n.id} onClick={() => toggle(n.id)} className={`px-3 py-1.5 rounded-xl text-sm border ${selected.includes(n.id) ? 'bg-blue-600 border-blue-600 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}>
+                  {n.title}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {actions.map(({ job, label, icon: Icon }) => (
+                <button key={job} disabled={!selected.length || !!busy} onClick={() => run(job)} className="flex items-center gap-2 px-4 py-2 bg-slate-800 rounded-xl hover:bg-slate-700 disabled:opacity-40 text-sm font-bold">
+                  {busy === job ? <Loader2 size={16} className="animate-spin" /> : <Icon size={16} />} {label}
+                </button>
+              ))}
+            </div>
+            {error && <p className="text-sm text-red-400">{error}</p>}
+          </>
+        )}
+      </div>
+
+      {view?.kind === 'summary' && summary && (
+        <div className="relative z-10 p-6 rounded-3xl bg-slate-950/60 border border-slate-800 space-y-4">
+          <Markdown source={summary} className="text-sm text-slate-300" />
+          <button onClick={saveSummary} className="flex items-center gap-2 text-sm font-bold text-blue-400"><Save size={16} /> Save as note</button>
+        </div>
+      )}
+      {activeDeck && <div className="relative z-10"><DeckViewer key={activeDeck.id} deck={activeDeck} /></div>}
+      {activeQuiz && <div className="relative z-10"><QuizRunner key={activeQuiz.id} quiz={activeQuiz} /></div>}
+
+      {(decks.length > 0 || quizzes.length > 0) && (
+        <div className="relative z-10 grid sm:grid-cols-2 gap-2">
+          {decks.map(d => (
+            <div key={d.id} className={`flex items-center justify-between p-3 rounded-xl border text-sm ${view?.kind === 'deck' && view.id === d.id ? 'border-blue-500/50' : 'border-slate-800'}`}>
+              <button onClick={() => setView({ kind: 'deck', id: d.id })} className="flex items-center gap-2 truncate"><Layers size={14} className="text-blue-400" /> {d.title} ({d.cards.length})</button>
+              <button onClick={() => setDecks(prev => prev.filter(x => x.id !== d.id))} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          {quizzes.map(q => (
+            <div key={q.id} className={`flex items-center justify-between p-3 rounded-xl border text-sm ${view?.kind === 'quiz' && view.id === q.id ? 'border-blue-500/50' : 'border-slate-800'}`}>
+              <button onClick={() => setView({ kind: 'quiz', id: q.id })} className="flex items-center gap-2 truncate"><ListChecks size={14} className="text-emerald-400" /> {q.title} ({q.questions.length})</button>
+              <button onClick={() => setQuizzes(prev => prev.filter(x => x.id !== q.id))} className="text-slate-500 hover:text-red-400"><Trash2 size={14} /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyIntelligence;
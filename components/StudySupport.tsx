@@ -1,73 +1,242 @@
-
-import React from 'react';
-import { Plus, Clock, StickyNote, Sparkles, CheckCircle2, ChevronRight } from 'lucide-react';
-import { Task, Note } from '../types';
+import React, { useState } from 'react';
+import { Plus, Clock, StickyNote, CheckCircle2, Pencil, Trash2, CalendarDays, X, Check, Search, Play } from 'lucide-react';
+import { Task, Note, TaskCategory, TaskPriority, FlashcardDeck, Quiz } from '../types';
+import { TASK_CATEGORIES, TASK_PRIORITIES, isOverdue, sortTasks } from '../services/tasks';
+import { createNote, formatDate, searchNotes } from '../services/notes';
+import { SearchIndex } from '../services/search';
+import Markdown from './Markdown';
+import NoteEditor from './NoteEditor';
+import StudyIntelligence from './StudyIntelligence';
+import ReviewSession from './ReviewSession';
+import FocusTimer from './FocusTimer';
+import { FocusTimer as FocusTimerApi } from '../hooks/useFocusTimer';
+import { TextModel } from '../services/textModel';
+import { FlashcardReview } from '../hooks/useFlashcardReview';
+import { newId } from '../services/ids';
 
 interface StudySupportProps {
   tasks: Task[];
   notes: Note[];
+  noteIndex: SearchIndex;
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  setNotes: React.Dispatch<React.SetStateAction<Note[]>>;
+  decks: FlashcardDeck[];
+  quizzes: Quiz[];
+  setDecks: React.Dispatch<React.SetStateAction<FlashcardDeck[]>>;
+  setQuizzes: React.Dispatch<React.SetStateAction<Quiz[]>>;
+  textModel: TextModel | null;
+  review: FlashcardReview;
+  focus: FocusTimerApi;
 }
 
-const StudySupport: React.FC<StudySupportProps> = ({ tasks, notes }) => {
+const PREVIEW_COUNT = 5;
+
+const priorityColor: Record<TaskPriority, string> = {
+  high: 'bg-red-500',
+  medium: 'bg-amber-400',
+  low: 'bg-slate-500'
+};
+
+interface TaskEditorProps {
+  task: Task;
+  onSave: (task: Task) => void;
+  onCancel: () => void;
+}
+
+const TaskEditor: React.FC<TaskEditorProps> = ({ task, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<Task>(task);
+  const save = () => {
+    if (!draft.text.trim()) return;
+    const { dueDate, ...rest } = draft;
+    onSave({ ...rest, text: draft.text.trim(), ...(dueDate ? { dueDate } : {}) });
+  };
+
+  return (
+    <div className="glass-panel p-4 rounded-2xl space-y-3 border-blue-500/40">
+      <input
+        autoFocus
+        value={draft.text}
+        onChange={e => setDraft({ ...draft, text: e.target.value })}
+        onKeyDown={e => { if (e.key === 'Enter') save(); if (e.key === 'Escape') onCancel(); }}
+        placeholder="What needs doing?"
+        className="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2"
+      />
+      <div className="flex flex-wrap gap-2 text-sm">
+        <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value as TaskCategory })} className="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 capitalize">
+          {TASK_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <select value={draft.priority} onChange={e => setDraft({ ...draft, priority: e.target.value as TaskPriority })} className="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 capitalize">
+          {TASK_PRIORITIES.map(p => <option key={p} value={p}>{p} priority</option>)}
+        </select>
+        <input type="date" value={draft.dueDate ?? ''} onChange={e => setDraft({ ...draft, dueDate: e.target.value })} className="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2" />
+        <div className="flex-1" />
+        <button onClick={onCancel} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><X size={18} /></button>
+        <button onClick={save} className="p-2 bg-blue-600 rounded-lg hover:bg-blue-500"><Check size={18} /></button>
+      </div>
+    </div>
+  );
+};
+
+const StudySupport: React.FC<StudySupportProps> = ({ tasks, notes, noteIndex, setTasks, setNotes, decks, quizzes, setDecks, setQuizzes, textModel, review, focus }) => {
+  const [filter, setFilter] = useState<TaskCategory | 'all'>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTask, setDraftTask] = useState<Task | null>(null);
+  const [showAllTasks, setShowAllTasks] = useState(false);
+  const [showAllNotes, setShowAllNotes] = useState(false);
+  const [noteQuery, setNoteQuery] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [openNote, setOpenNote] = useState<{ note: Note; isNew: boolean } | null>(null);
+
+  const filtered = sortTasks(tasks).filter(t => filter === 'all' || t.category === filter);
+  const visibleTasks = showAllTasks ? filtered : filtered.slice(0, PREVIEW_COUNT);
+  const allTags = [...new Set(notes.flatMap(n => n.tags))].sort();
+  const sortedNotes = [...notes].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const matchingNotes = (noteQuery.trim() ? searchNotes(notes, noteIndex, noteQuery, notes.length) : sortedNotes)
+    .filter(n => !tagFilter || n.tags.includes(tagFilter));
+  const visibleNotes = showAllNotes ? matchingNotes : matchingNotes.slice(0, 3);
+
+  const toggleTask = (id: string) => setTasks(prev => prev.map(t => t.id === id ? { ...t, completed: !t.completed } : t));
+  const deleteTask = (id: string) => setTasks(prev => prev.filter(t => t.id !== id));
+  const saveTask = (task: Task) => {
+    setTasks(prev => prev.some(t => t.id === task.id) ? prev.map(t => t.id === task.id ? task : t) : [task, ...prev]);
+    setEditingId(null);
+    setDraftTask(null);
+  };
+  const saveNote = (note: Note) => {
+    setNotes(prev => prev.some(n => n.id === note.id) ? prev.map(n => n.id === note.id ? note : n) : [note, ...prev]);
+    setOpenNote(null);
+  };
+  const deleteNote = (id: string) => {
+    setNotes(prev => prev.filter(n => n.id !== id));
+    setOpenNote(null);
+  };
+  const startNewTask = () => {
+    setEditingId(null);
+    setDraftTask({ id: newId('task'), text: '', completed: false, category: filter === 'all' ? 'study' : filter, priority: 'medium' });
+  };
+
   return (
     <div className="grid lg:grid-cols-3 gap-8">
       <div className="lg:col-span-2 space-y-8">
-        <div className="glass-panel rounded-3xl p-8 relative overflow-hidden group">
-          <div className="absolute top-0 right-0 p-8 text-blue-500/10 group-hover:text-blue-500/20 transition-colors">
-            <Sparkles size={120} />
-          </div>
-          <div className="relative z-10 space-y-4">
-            <h2 className="text-2xl font-bold flex items-center gap-2">
-              <Sparkles className="text-amber-400" /> Daily Motivation
-            </h2>
-            <p className="text-lg text-slate-300 italic leading-relaxed">
-              "The capacity to learn is a gift; the ability to learn is a skill; the willingness to learn is a choice."
-            </p>
-          </div>
-        </div>
+        <StudyIntelligence notes={notes} decks={decks} quizzes={quizzes} textModel={textModel} setNotes={setNotes} setDecks={setDecks} setQuizzes={setQuizzes} />
+        <ReviewSession decks={decks} review={review} />
 
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <h3 className="text-xl font-bold flex items-center gap-2">
               <Clock className="text-blue-400" /> Study Checklist
             </h3>
-            <button className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><Plus size={20} /></button>
+            <button onClick={startNewTask} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><Plus size={20} /></button>
+          </div>
+          <div className="flex gap-1 bg-slate-900 p-1 rounded-2xl border border-slate-800 w-fit text-sm">
+            {(['all', ...TASK_CATEGORIES] as const).map(c => (
+              <button key={c} onClick={() => setFilter(c)} className={`px-4 py-1.5 rounded-xl capitalize ${filter === c ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}>{c}</button>
+            ))}
           </div>
           <div className="grid gap-3">
-            {tasks.map(task => (
-              <div key={task.id} className="glass-panel p-4 rounded-2xl flex items-center justify-between hover:border-slate-600 cursor-pointer group">
-                <div className="flex items-center gap-3">
-                  <div className={`w-6 h-6 rounded-full border-2 flex items-center justify-center ${task.completed ? 'bg-blue-600 border-blue-600' : 'border-slate-700'}`}>
+            {draftTask && <TaskEditor task={draftTask} onSave={saveTask} onCancel={() => setDraftTask(null)} />}
+            {visibleTasks.length === 0 && !draftTask && (
+              <p className="text-sm text-slate-500 px-2">Nothing here yet. Add a task or ask V1 to create one.</p>
+            )}
+            {visibleTasks.map(task => editingId === task.id ? (
+              <TaskEditor key={task.id} task={task} onSave={saveTask} onCancel={() => setEditingId(null)} />
+            ) : (
+              <div key={task.id} className="glass-panel p-4 rounded-2xl flex items-center justify-between hover:border-slate-600 group">
+                <div className="flex items-center gap-3 min-w-0">
+                  <button onClick={() => toggleTask(task.id)} className={`w-6 h-6 flex-shrink-0 rounded-full border-2 flex items-center justify-center ${task.completed ? 'bg-blue-600 border-blue-600' : 'border-slate-700 hover:border-blue-500'}`}>
                     {task.completed && <CheckCircle2 size={14} className="text-white" />}
-                  </div>
-                  <span className={task.completed ? 'line-through text-slate-500' : ''}>{task.text}</span>
+                  </button>
+                  <span className={`w-2 h-2 flex-shrink-0 rounded-full ${priorityColor[task.priority]}`} title={`${task.priority} priority`} />
+                  <span className={`truncate ${task.completed ? 'line-through text-slate-500' : ''}`}>{task.text}</span>
+                  <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{task.category}</span>
+                  {task.dueDate && (
+                    <span className={`flex items-center gap-1 text-xs ${isOverdue(task) ? 'text-red-400' : 'text-slate-500'}`}>
+                      <CalendarDays size={12} /> {task.dueDate}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {!task.completed && !focus.state.phase && (
+                    <button onClick={() => focus.start({ taskId: task.id })} className="p-1.5 text-slate-500 hover:text-blue-400" title="Focus on this task"><Play size={16} /></button>
+                  )}
+                  <button onClick={() => setEditingId(task.id)} className="p-1.5 text-slate-500 hover:text-white"><Pencil size={16} /></button>
+                  <button onClick={() => deleteTask(task.id)} className="p-1.5 text-slate-500 hover:text-red-400"><Trash2 size={16} /></button>
                 </div>
-                <div className="opacity-0 group-hover:opacity-100 transition-opacity"><ChevronRight size={18} className="text-slate-500" /></div>
               </div>
             ))}
           </div>
+          {filtered.length > PREVIEW_COUNT && (
+            <button onClick={() => setShowAllTasks(!showAllTasks)} className="text-sm font-medium text-blue-400">
+              {showAllTasks ? 'Show Less' : `View All (${filtered.length})`}
+            </button>
+          )}
         </div>
       </div>
 
       <div className="space-y-6">
+        <FocusTimer focus={focus} tasks={tasks} />
         <div className="flex items-center justify-between">
           <h3 className="text-xl font-bold flex items-center gap-2">
             <StickyNote className="text-blue-400" /> Personal Notes
           </h3>
-          <button className="text-sm font-medium text-blue-400">View All</button>
+          <div className="flex items-center gap-3">
+            {matchingNotes.length > 3 && (
+              <button onClick={() => setShowAllNotes(!showAllNotes)} className="text-sm font-medium text-blue-400">
+                {showAllNotes ? 'Show Less' : 'View All'}
+              </button>
+            )}
+            <button onClick={() => setOpenNote({ note: createNote('', ''), isNew: true })} className="p-2 bg-slate-800 rounded-lg hover:bg-slate-700"><Plus size={20} /></button>
+          </div>
         </div>
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+          <input
+            value={noteQuery}
+            onChange={e => setNoteQuery(e.target.value)}
+            placeholder="Search notes..."
+            className="w-full bg-slate-950 border border-slate-800 rounded-xl pl-9 pr-4 py-2 text-sm"
+          />
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {allTags.map(tag => (
+              <button key={tag} onClick={() => setTagFilter(tagFilter === tag ? null : tag)} className={`px-3 py-1 rounded-full text-xs font-bold ${tagFilter === tag ? 'bg-blue-600 text-white' : 'bg-slate-900 border border-slate-800 text-slate-400 hover:text-white'}`}>
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
         <div className="flex flex-col gap-4">
-          {notes.map(note => (
-            <div key={note.id} className="bg-slate-900 border border-slate-800 p-5 rounded-3xl hover:border-blue-500/50">
+          {visibleNotes.length === 0 && (
+            <p className="text-sm text-slate-500 px-2">{noteQuery || tagFilter ? 'No notes match.' : 'No notes yet.'}</p>
+          )}
+          {visibleNotes.map(note => (
+            <div key={note.id} onClick={() => setOpenNote({ note, isNew: false })} className="bg-slate-900 border border-slate-800 p-5 rounded-3xl hover:border-blue-500/50 cursor-pointer">
               <div className="flex justify-between items-start mb-2">
                 <h4 className="font-bold">{note.title}</h4>
-                <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{note.date}</span>
+                <span className="text-[10px] uppercase tracking-wider text-slate-500 font-bold">{formatDate(note.updatedAt)}</span>
               </div>
-              <p className="text-sm text-slate-400 line-clamp-3">{note.content}</p>
+              <div className="text-sm text-slate-400 line-clamp-3"><Markdown source={note.content} /></div>
+              {note.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {note.tags.map(tag => <span key={tag} className="text-[10px] font-bold text-blue-400">#{tag}</span>)}
+                </div>
+              )}
             </div>
           ))}
         </div>
       </div>
+
+      {openNote && (
+        <NoteEditor
+          key={openNote.note.id}
+          note={openNote.note}
+          isNew={openNote.isNew}
+          onSave={saveNote}
+          onDelete={deleteNote}
+          onClose={() => setOpenNote(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ShieldQuestion, Check, X, Mic, Loader2 } from 'lucide-react';
+import { ToolConfirmation } from '../hooks/useToolPermissions';
+import { LocalSpeechEngine } from '../services/speech';
+import { parseConfirmation } from '../services/permissions';
+
+interface ToolConfirmDialogProps {
+  confirmation: ToolConfirmation;
+  onAnswer: (approved: boolean) => void;
+  speech: LocalSpeechEngine;
+  lang: string;
+}
+
+// Shown over every screen while a tool call waits for the user; the assistant's reply waits with it.
+const ToolConfirmDialog: React.FC<ToolConfirmDialogProps> = ({ confirmation, onAnswer, speech, lang }) => {
+  const [listening, setListening] = useState(false);
+  const [unclear, setUnclear] = useState(false);
+
+  const answerByVoice = async () => {
+    setListening(true);
+    setUnclear(false);
+    try {
+      const answer = parseConfirmation(await speech.listen(lang));
+      if (answer === null) setUnclear(true);
+      else onAnswer(answer);
+    } catch {
+      setUnclear(true);
+    } finally {
+      setListening(false);
+    }
+  };
+
+  return (
+    <div className="fixed top-8 left-1/2 -translate-x-1/2 z-[80] w-[28rem] glass-panel bg-slate-950/95 rounded-[2rem] p-6 space-y-4 shadow-2xl shadow-amber-500/10 border border-amber-500/20 animate-in slide-in-from-top-6 duration-300">
+      <div className="flex items-start gap-3">
+        <ShieldQuestion className="text-amber-400 flex-shrink-0" size={24} />
+        <div className="space-y-1 min-w-0">
+          <p className="text-xs font-bold text-amber-300 uppercase tracking-widest">V1 wants to {confirmation.tool.replace(/_/g, ' ')}</p>
+          <p className="text-sm text-slate-200 break-words">{confirmation.question}</p>
+          <p className="text-xs text-slate-500">Say "yes" or "no", or choose below.</p>
+        </div>
+      </div>
+      {unclear && <p className="text-xs text-red-400">Didn't catch a yes or no.</p>}
+      <div className="flex gap-2">
+        <button onClick={() => onAnswer(true)} className="flex-1 flex items-center justify-center gap-2 py-2 bg-emerald-600 hover:bg-emerald-500 rounded-xl text-sm font-bold">
+          <Check size={16} /> Allow
+        </button>
+        <button onClick={() => onAnswer(false)} className="flex-1 flex items-center justify-center gap-2 py-2 bg-slate-800 hover:bg-slate-700 rounded-xl text-sm font-bold">
+          <X size={16} /> Decline
+        </button>
+        {speech.canListen && (
+          <button onClick={answerByVoice} disabled={listening} title="Answer by voice" className="px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-xl disabled:opacity-60">
+            {listening ? <Loader2 size={16} className="animate-spin" /> : <Mic size={16} />}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToolConfirmDialog;
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { Eye, EyeOff, Camera as CameraIcon, Image as ImageIcon, Upload, Loader2 } from 'lucide-react';
+import { VisionMode } from '../types';
+import { Camera } from '../hooks/useCamera';
+import { Vision } from '../hooks/useVision';
+import { VISION_FPS_OPTIONS, VISION_WIDTH_OPTIONS, estimateKbps } from '../services/vision';
+import CameraPreview from './CameraPreview';
+
+interface VisionPanelProps {
+  vision: Vision;
+  camera: Camera;
+  live: boolean;
+}
+
+const MODES: { mode: VisionMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'off', label: 'Audio only', icon: <EyeOff size={14} /> },
+  { mode: 'camera', label: 'Camera', icon: <CameraIcon size={14} /> },
+  { mode: 'image', label: 'Image', icon: <ImageIcon size={14} /> }
+];
+
+const VisionPanel: React.FC<VisionPanelProps> = ({ vision, camera, live }) => {
+  const { settings, setSettings } = vision;
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [sending, setSending] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const photos = camera.captures.filter(c => c.kind === 'photo').slice(0, 8);
+
+  const send = async (key: string, load: () => Promise<Blob | undefined>) => {
+    setSending(key);
+    setNote(null);
+    try {
+      const blob = await load();
+      if (!blob) throw new Error('That image is no longer available.');
+      await vision.sendImage(blob);
+      setNote('Image sent. Ask V1 about it.');
+    } catch (e: any) {
+      setNote(e.message);
+    } finally {
+      setSending(null);
+    }
+  };
+
+  return (
+    <div className="glass-panel rounded-[3rem] p-8 space-y-5 border-white/5 bg-slate-950/30 text-sm">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div className="flex items-center gap-3 font-black text-[10px] uppercase tracking-[0.4em] text-slate-500">
+          <Eye size={14} className={vision.mode !== 'off' && live ? 'text-blue-400' : ''} /> Vision
+        </div>
+        <div className="flex gap-1 bg-slate-900 p-1 rounded-2xl border border-slate-800">
+          {MODES.map(m => (
+            <button key={m.mode} onClick={() => vision.setMode(m.mode)} className={`flex items-center gap-2 px-4 py-1.5 rounded-xl ${vision.mode === m.mode ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>{m.icon} {m.label}</button>
+          ))}
+        </div>
+      </div>
+
+      {vision.mode === 'camera' && (
+        <div className="flex gap-6 items-center">
+          <CameraPreview stream={camera.stream} className="w-48 aspect-video rounded-2xl bg-black" />
+          <div className="space-y-1 text-xs text-slate-400">
+            <p>{live ? `Streaming to V1 · ${vision.framesSent} frame${vision.framesSent === 1 ? '' : 's'} sent` : 'Frames start streaming when the session is live.'}</p>
+            <p className="text-slate-500">Try "what's on this whiteboard?" or "solve the equation I'm holding up".</p>
+          </div>
+        </div>
+      )}
+
+      {vision.mode === 'image' && (
+        <div className="space-y-3">
+          <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+            <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) send('upload', async () => file);
+              e.target.value = '';
+            }} />
+            <button onClick={() => fileInput.current?.click()} disabled={!live || !!sending} className="w-24 h-20 flex-shrink-0 rounded-2xl border-2 border-dashed border-slate-800 flex flex-col items-center justify-center gap-1 text-slate-500 hover:text-blue-400 disabled:opacity-40">
+              {sending === 'upload' ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+              <span className="text-[10px] font-bold">Upload</span>
+            </button>
+            {photos.map(p => (
+              <button key={p.id} onClick={() => send(p.id, () => camera.blobFor(p.id))} disabled={!live || !!sending} className="relative w-24 h-20 flex-shrink-0 rounded-2xl overflow-hidden border border-slate-800 hover:border-blue-500 disabled:opacity-40">
+                <img src={camera.urls[p.id]} alt={p.caption ?? 'Vault photo'} className="w-full h-full object-cover" />
+                {sending === p.id && <span className="absolute inset-0 bg-black/60 flex items-center justify-center"><Loader2 size={18} className="animate-spin" /></span>}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">{note ?? (live ? 'Pick a vault photo or upload a screenshot to show V1.' : 'Start the session, then pick an image.')}</p>
+        </div>
+      )}
+
+      {vision.mode !== 'off' && (
+        <div className="flex items-center gap-4 flex-wrap text-xs text-slate-400">
+          {vision.mode === 'camera' && (
+            <label className="flex items-center gap-2">Rate
+              <select value={settings.fps} onChange={e => setSettings({ ...settings, fps: Number(e.target.value) })} className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1">
+                {VISION_FPS_OPTIONS.map(f => <option key={f} value={f}>{f >= 1 ? `${f} fps` : `1 every ${1 / f}s`}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-2">Resolution
+            <select value={settings.maxWidth} onChange={e => setSettings({ ...settings, maxWidth: Number(e.target.value) })} className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1">
+              {VISION_WIDTH_OPTIONS.map(w => <option key={w} value={w}>{w}px wide</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">Quality
+            <input type="range" min={30} max={95} value={Math.round(settings.quality * 100)} onChange={e => setSettings({ ...settings, quality: Number(e.target.value) / 100 })} className="w-24 accent-blue-500" />
+          </label>
+          {vision.mode === 'camera' && <span className="text-slate-500">≈ {estimateKbps(settings)} kbit/s</span>}
+        </div>
+      )}
+
+      {vision.error && <p className="text-xs text-red-400">{vision.error}</p>}
+    </div>
+  );
+};
+
+export default VisionPanel;
@@ -1,36 +1,166 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, AlertCircle, Sparkles, Activity, Terminal, ExternalLink, Clock, Power, Key, Cpu, Radio, Zap } from 'lucide-react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob, Type, FunctionDeclaration } from '@google/genai';
+import { Mic, MicOff, AlertCircle, Sparkles, Activity, Terminal, ExternalLink, Clock, Power, Key, Cpu, Radio, Zap, Send, Keyboard, Loader2, Wrench, Ear, Moon, Pause, Play, Download, WifiOff } from 'lucide-react';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { ToolRegistry } from '../tools/index.ts';
+import { AppNotification, AssistantSettings, ConversationTurn, ToolCallRecord } from '../types.ts';
+import { Camera } from '../hooks/useCamera.ts';
+import { useVision } from '../hooks/useVision.ts';
+import VisionPanel from './VisionPanel.tsx';
+import AudioVisualizer from './AudioVisualizer.tsx';
+import Markdown from './Markdown.tsx';
+import { Conversation } from '../hooks/useConversation.ts';
+import { Memories } from '../hooks/useMemories.ts';
+import { memoriesForPrompt, withMemories } from '../services/memory.ts';
+import { ChatModel } from '../services/chatModel.ts';
+import { createTurn, toContents, toolCallRecord } from '../services/conversation.ts';
+import { keyLabel, systemInstructionFor } from '../services/settings.ts';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, pcmToBase64, startAudioCapture } from '../services/audioCapture.ts';
+import { LiveSession } from '../hooks/useLiveSession.ts';
+import { useWakeWord } from '../hooks/useWakeWord.ts';
+import { usePushToTalk } from '../hooks/usePushToTalk.ts';
+import { useOfflineAssistant } from '../hooks/useOfflineAssistant.ts';
+import { LocalSpeechEngine } from '../services/speech.ts';
+import { OFFLINE_EXAMPLES } from '../services/intents.ts';
+import { ToolConfirmation } from '../hooks/useToolPermissions.ts';
+import { parseConfirmation } from '../services/permissions.ts';
+import { LiveConnection, LiveStatus, liveStatusLabel } from '../services/liveSession.ts';
+
+// RMS above this counts as the user making sound; only crossings re-render.
+const HEARING_RMS = 0.02;
+// A spoken answer to a confirmation prompt is judged once the user pauses, so only a stand-alone utterance counts.
+const CONFIRM_PAUSE_MS = 800;
+
+const statusText = (status: LiveStatus) => {
+  if (status.state === 'idle') return 'System Ready';
+  if (status.state === 'live') return 'V1 Online';
+  if (status.state === 'reconnecting') return `${liveStatusLabel(status)} · ${status.error ?? 'link lost'}`;
+  return liveStatusLabel(status);
+};
 
 interface VoiceInteractionProps {
-  handlers: {
-    addNote: (title: string, content: string) => string;
-    addTask: (text: string) => string;
-    sendMessage: (recipient: string, text: string) => string;
-    getNotifications: () => string;
-    controlMedia: (action: string) => string;
-    getTime: () => string;
-    openUrl: (target: string) => string;
-  };
+  toolRegistry: ToolRegistry;
+  // New notifications the rules engine wants spoken; acknowledged whether or not a session is live.
+  announcements: AppNotification[];
+  onAnnounced: (ids: string[]) => void;
+  camera: Camera;
+  onSaveNote: (title: string, content: string) => void;
+  conversation: Conversation;
+  // Answers typed messages when no Live session is running; null without an API key.
+  chatModel: ChatModel | null;
+  memory: Memories;
+  settings: AssistantSettings;
+  live: LiveSession;
+  // No key or no network: commands are parsed locally and answered with browser speech.
+  offline: boolean;
+  speech: LocalSpeechEngine;
+  // A tool call waiting for the user; a spoken yes or no in the Live session answers it.
+  confirmation: ToolConfirmation | null;
+  onConfirm: (approved: boolean) => void;
+  // Called at every turn boundary (a Live turn completing, a typed message), transcribed or not.
+  onUserTurn: () => void;
 }
 
-const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ handlers }) => {
-  const [isListening, setIsListening] = useState(false);
-  const [transcription, setTranscription] = useState<{ type: 'user' | 'v1'; text: string }[]>([]);
-  const [status, setStatus] = useState<string>('System Ready');
+const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ toolRegistry, announcements, onAnnounced, camera, onSaveNote, conversation, chatModel, memory, settings, live, offline, speech, confirmation, onConfirm, onUserTurn }) => {
+  // `active` covers the whole session including reconnects; `isListening` only while a socket is open.
+  const isListening = live.status.state === 'live';
+  const active = isListening || live.status.state === 'connecting' || live.status.state === 'reconnecting';
+  const [draft, setDraft] = useState('');
+  const [thinking, setThinking] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [inputLevel, setInputLevel] = useState(0);
+  const [hearing, setHearing] = useState(false);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
   const [needsKey, setNeedsKey] = useState(false);
+  const [talking, setTalking] = useState(false);
+  // Wake phrase listening can be paused without leaving wake mode.
+  const [armed, setArmed] = useState(true);
+  const [slept, setSlept] = useState(false);
 
   const audioContextRef = useRef<AudioContext | null>(null);
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const nextStartTimeRef = useRef(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const liveRef = useRef(live);
+  liveRef.current = live;
+  // Read from audio callbacks, which outlive the render that created them.
+  const talkingRef = useRef(false);
+  const lastActivityRef = useRef(0);
+  const touch = () => { lastActivityRef.current = Date.now(); };
   
+  const [savedAnswer, setSavedAnswer] = useState<string | null>(null);
+
+  const vision = useVision(camera, {
+    live: isListening,
+    sendFrame: (image) => { liveRef.current.send(s => s.sendRealtimeInput({ video: image })); },
+    sendStill: (image, prompt) => { liveRef.current.send(s => s.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: prompt }, { inlineData: image }] }],
+      turnComplete: true
+    })); }
+  });
+
+  const turns = conversation.turns;
+  const conversationRef = useRef(conversation);
+  conversationRef.current = conversation;
+  const onUserTurnRef = useRef(onUserTurn);
+  onUserTurnRef.current = onUserTurn;
+  const turnToolsRef = useRef<ToolCallRecord[]>([]);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  // Remembered facts go into the instruction each time a session starts or a message is typed.
+  const instructionFor = (recent: ConversationTurn[]) =>
+    withMemories(systemInstructionFor(settings), memoriesForPrompt(memory.memories, memory.index, recent));
+  // Reconnects rebuild the config long after startSession ran; read memories as they are then.
+  const instructionRef = useRef(instructionFor);
+  instructionRef.current = instructionFor;
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns.length, thinking]);
+
   const currentInputTranscription = useRef('');
   const currentOutputTranscription = useRef('');
+  // The utterance in progress since the current confirmation prompt opened.
+  const confirmHeard = useRef({ id: '', text: '' });
+  const confirmTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const confirmRef = useRef({ confirmation, onConfirm });
+  confirmRef.current = { confirmation, onConfirm };
+
+  useEffect(() => {
+    confirmHeard.current = { id: confirmation?.id ?? '', text: '' };
+    return () => clearTimeout(confirmTimer.current);
+  }, [confirmation?.id]);
+
+  const hearConfirmation = (text: string, finished: boolean) => {
+    const pending = confirmRef.current.confirmation;
+    if (!pending) return;
+    // Anything said before the prompt opened belongs to the request, not the answer.
+    if (confirmHeard.current.id !== pending.id) confirmHeard.current = { id: pending.id, text: '' };
+    confirmHeard.current.text += text;
+    clearTimeout(confirmTimer.current);
+    const judge = () => {
+      const { id, text: heard } = confirmHeard.current;
+      confirmHeard.current = { id, text: '' };
+      const answer = parseConfirmation(heard);
+      if (answer !== null && confirmRef.current.confirmation?.id === id) confirmRef.current.onConfirm(answer);
+    };
+    if (finished) judge();
+    else confirmTimer.current = setTimeout(judge, CONFIRM_PAUSE_MS);
+  };
+
+  // Tool calls arrive long after startSession runs, so always dispatch through the latest registry.
+  const registryRef = useRef<ToolRegistry>(toolRegistry);
+  registryRef.current = toolRegistry.extend([
+    {
+      name: 'stop_assistant',
+      description: 'End the voice session.',
+      handler: () => {
+        setTimeout(stopSession, 1000);
+        return "Shutting down...";
+      }
+    }
+  ]);
+
+  const offlineAssistant = useOfflineAssistant(registryRef.current, conversation, speech, settings.language);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -57,15 +187,6 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ handlers }) => {
     }
   };
 
-  function encode(bytes: Uint8Array) {
-    let binary = '';
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-  }
-
   function decode(base64: string) {
     const binaryString = atob(base64);
     const len = binaryString.length;
@@ -95,216 +216,276 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ handlers }) => {
     return buffer;
   }
 
-  const tools: FunctionDeclaration[] = [
-    {
-      name: 'add_note',
-      parameters: {
-        type: Type.OBJECT,
-        properties: { 
-          title: { type: Type.STRING }, 
-          content: { type: Type.STRING } 
-        },
-        required: ['title', 'content']
-      }
-    },
-    {
-      name: 'add_task',
-      parameters: {
-        type: Type.OBJECT,
-        properties: { text: { type: Type.STRING } },
-        required: ['text']
-      }
-    },
-    {
-      name: 'get_current_time',
-      parameters: { type: Type.OBJECT, properties: {} }
-    },
-    {
-      name: 'open_website',
-      parameters: {
-        type: Type.OBJECT,
-        properties: { target: { type: Type.STRING } },
-        required: ['target']
-      }
-    },
-    {
-      name: 'control_multimedia',
-      parameters: {
-        type: Type.OBJECT,
-        properties: { 
-          action: { type: Type.STRING, description: 'play, pause, next, capture' } 
-        },
-        required: ['action']
-      }
-    },
-    {
-      name: 'stop_assistant',
-      parameters: { type: Type.OBJECT, properties: {} }
-    }
-  ];
-
-  const stopSession = () => {
-    if (sessionPromiseRef.current) {
-      sessionPromiseRef.current.then(s => s.close()).catch(() => {});
-      sessionPromiseRef.current = null;
-    }
+  // Tears down the microphone and playback; the connection itself belongs to the session manager.
+  const stopAudio = () => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    [inputAudioContextRef, audioContextRef].forEach(ref => {
-      if (ref.current) {
-        ref.current.close().catch(() => {});
-        ref.current = null;
-      }
-    });
+    captureRef.current?.stop();
+    captureRef.current = null;
+    if (audioContextRef.current) {
+      audioContextRef.current.close().catch(() => {});
+      audioContextRef.current = null;
+    }
     sourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
     sourcesRef.current.clear();
-    
-    setIsListening(false);
-    setStatus('System Ready');
-    setInputLevel(0);
+    setHearing(false);
+    setAnalyser(null);
     nextStartTimeRef.current = 0;
   };
 
+  const stopSession = () => {
+    liveRef.current.stop();
+    stopAudio();
+  };
+
+  const handleMessage = async (message: LiveServerMessage) => {
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && audioContextRef.current) {
+      touch();
+      const ctx = audioContextRef.current;
+      nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+      const buffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
+      const src = ctx.createBufferSource();
+      src.buffer = buffer;
+      src.connect(ctx.destination);
+      src.onended = () => sourcesRef.current.delete(src);
+      src.start(nextStartTimeRef.current);
+      nextStartTimeRef.current += buffer.duration;
+      sourcesRef.current.add(src);
+    }
+
+    if (message.serverContent?.outputTranscription) {
+      currentOutputTranscription.current += message.serverContent.outputTranscription.text;
+    } else if (message.serverContent?.inputTranscription) {
+      const { text, finished } = message.serverContent.inputTranscription;
+      currentInputTranscription.current += text;
+      hearConfirmation(text ?? '', !!finished);
+    }
+
+    if (message.serverContent?.turnComplete) {
+      onUserTurnRef.current();
+      const uText = currentInputTranscription.current.trim();
+      const aText = currentOutputTranscription.current.trim();
+      conversationRef.current.append(
+        createTurn('user', 'voice', uText),
+        createTurn('assistant', 'voice', aText, turnToolsRef.current)
+      );
+      currentInputTranscription.current = '';
+      currentOutputTranscription.current = '';
+      turnToolsRef.current = [];
+    }
+
+    if (message.toolCall) {
+      touch();
+      for (const fc of message.toolCall.functionCalls ?? []) {
+        const response = await registryRef.current.execute(fc.name ?? '', fc.args);
+        turnToolsRef.current.push(toolCallRecord(fc.name ?? '', fc.args ?? {}, response));
+        liveRef.current.send(s => s.sendToolResponse({
+          functionResponses: [{ id: fc.id, name: fc.name, response }]
+        }));
+      }
+    }
+
+    if (message.serverContent?.interrupted) {
+      sourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
+      sourcesRef.current.clear();
+      nextStartTimeRef.current = 0;
+    }
+  };
+
+  const handleOpen = (connection: LiveConnection, resumed: boolean) => {
+    // A half-heard turn from a dropped socket is not coming back.
+    currentInputTranscription.current = '';
+    currentOutputTranscription.current = '';
+    turnToolsRef.current = [];
+    touch();
+    // Push to talk pressed while still connecting: open the turn now the socket is up.
+    if (talkingRef.current) connection.sendRealtimeInput({ activityStart: {} });
+    if (resumed) return;
+    // Carry the conversation so far (including typed turns and earlier sockets) into the new one.
+    const context = toContents([...conversationRef.current.context, ...conversationRef.current.turns]);
+    if (context.length) connection.sendClientContent({ turns: context, turnComplete: false });
+  };
+
   const startSession = async () => {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
+    if (!live.available) {
       setNeedsKey(true);
       return;
     }
 
     try {
       setError(null);
-      setStatus('Initializing...');
-      
+      setSlept(false);
+      touch();
+      const mode = settings.activation;
+
       const AudioCtx = (window.AudioContext || (window as any).webkitAudioContext);
-      const inCtx = new AudioCtx({ sampleRate: 16000 });
       const outCtx = new AudioCtx({ sampleRate: 24000 });
-      
-      await inCtx.resume();
       await outCtx.resume();
-      
-      inputAudioContextRef.current = inCtx;
       audioContextRef.current = outCtx;
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true } });
       streamRef.current = stream;
 
-      const ai = new GoogleGenAI({ apiKey });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setStatus('V1 Online');
-            setIsListening(true);
-            const source = inCtx.createMediaStreamSource(stream);
-            const processor = inCtx.createScriptProcessor(4096, 1, 1);
-            processor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              let sum = 0;
-              for (let i = 0; i < inputData.length; i++) sum += Math.abs(inputData[i]);
-              setInputLevel(sum / inputData.length);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-              const pcmBlob: Blob = { 
-                data: encode(new Uint8Array(int16.buffer)), 
-                mimeType: 'audio/pcm;rate=16000' 
-              };
-              sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob })).catch(() => {});
-            };
-            source.connect(processor);
-            processor.connect(inCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (base64Audio && audioContextRef.current) {
-              const ctx = audioContextRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const src = ctx.createBufferSource();
-              src.buffer = buffer;
-              src.connect(ctx.destination);
-              src.onended = () => sourcesRef.current.delete(src);
-              src.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(src);
-            }
-
-            if (message.serverContent?.outputTranscription) {
-              currentOutputTranscription.current += message.serverContent.outputTranscription.text;
-            } else if (message.serverContent?.inputTranscription) {
-              currentInputTranscription.current += message.serverContent.inputTranscription.text;
-            }
-
-            if (message.serverContent?.turnComplete) {
-              const uText = currentInputTranscription.current.trim();
-              const aText = currentOutputTranscription.current.trim();
-              if (uText || aText) {
-                setTranscription(prev => [...prev, 
-                  ...(uText ? [{ type: 'user' as const, text: uText }] : []),
-                  ...(aText ? [{ type: 'v1' as const, text: aText }] : [])
-                ].slice(-10));
-              }
-              currentInputTranscription.current = '';
-              currentOutputTranscription.current = '';
-            }
-
-            if (message.toolCall) {
-              for (const fc of message.toolCall.functionCalls) {
-                let res: any = "Success";
-                if (fc.name === 'get_current_time') res = handlers.getTime();
-                else if (fc.name === 'open_website') res = handlers.openUrl(fc.args.target as string);
-                else if (fc.name === 'add_note') res = handlers.addNote(fc.args.title as string, fc.args.content as string);
-                else if (fc.name === 'add_task') res = handlers.addTask(fc.args.text as string);
-                else if (fc.name === 'control_multimedia') res = handlers.controlMedia(fc.args.action as string);
-                else if (fc.name === 'stop_assistant') {
-                  res = "Shutting down...";
-                  setTimeout(stopSession, 1000);
-                }
-                sessionPromise.then(s => s.sendToolResponse({
-                  functionResponses: [{ id: fc.id, name: fc.name, response: { result: res } }]
-                }));
-              }
-            }
-
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e){} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e) => {
-            const msg = (e as any).message || 'Connection error';
-            if (msg.includes('entity was not found') || msg.includes('API key')) setNeedsKey(true);
-            setError(msg);
-            stopSession();
-          },
-          onclose: () => {
-             setIsListening(false);
-             setStatus('System Ready');
-          }
+      // Chunks captured while connecting or reconnecting are dropped rather than queued, and in
+      // push-to-talk mode nothing leaves the browser unless the key or button is held.
+      const capture = await startAudioCapture(stream, {
+        onChunk: (pcm) => {
+          if (mode === 'push_to_talk' && !talkingRef.current) return;
+          liveRef.current.send(s => s.sendRealtimeInput({
+            media: { data: pcmToBase64(pcm), mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}` }
+          }));
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-          tools: [{ functionDeclarations: tools }],
-          systemInstruction: "You are V1, a high-fidelity AI assistant. Help with time, browsing, media control, and organization. Be concise.",
-          inputAudioTranscription: {},
-          outputAudioTranscription: {}
+        onLevel: (level) => {
+          const loud = level.rms > HEARING_RMS;
+          setHearing(loud);
+          if (loud && (mode !== 'push_to_talk' || talkingRef.current)) touch();
         }
       });
-      sessionPromiseRef.current = sessionPromise;
+      captureRef.current = capture;
+      setAnalyser(capture.analyser);
+
+      live.start({
+        model: settings.model,
+        config: () => ({
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } }, languageCode: settings.language },
+          tools: [{ functionDeclarations: registryRef.current.declarations() }],
+          systemInstruction: instructionRef.current([...conversationRef.current.context, ...conversationRef.current.turns]),
+          // Without transcription, spoken turns can't be written to the conversation history.
+          ...(settings.transcription ? { inputAudioTranscription: {}, outputAudioTranscription: {} } : {}),
+          // Holding the key marks the turn explicitly, so the server shouldn't guess where speech ends.
+          ...(mode === 'push_to_talk' ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {})
+        }),
+        onOpen: handleOpen,
+        onMessage: handleMessage
+      });
     } catch (err: any) {
+      stopSession();
       setError(err.message || 'Initialization error');
-      setStatus('System Ready');
     }
   };
 
+  // The manager gives up on fatal errors or after its retries; release the microphone with it.
+  useEffect(() => {
+    if (live.status.state !== 'failed') return;
+    stopAudio();
+    const msg = live.status.error ?? 'Connection failed';
+    if (/entity was not found|api key/i.test(msg)) setNeedsKey(true);
+    setError(msg);
+  }, [live.status.state]);
+
   useEffect(() => {
     return () => stopSession();
   }, []);
 
+  // Auto-sleep: end the session once nobody has spoken, typed or been answered for a while.
+  useEffect(() => {
+    if (!active || settings.sleepAfterSec <= 0) return;
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivityRef.current < settings.sleepAfterSec * 1000) return;
+      stopSession();
+      setSlept(true);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [active, settings.sleepAfterSec]);
+
+  const pressTalk = () => {
+    if (talkingRef.current) return;
+    talkingRef.current = true;
+    setTalking(true);
+    touch();
+    if (!active) startSession();
+    else live.send(s => s.sendRealtimeInput({ activityStart: {} }));
+  };
+
+  const releaseTalk = () => {
+    if (!talkingRef.current) return;
+    talkingRef.current = false;
+    setTalking(false);
+    touch();
+    live.send(s => s.sendRealtimeInput({ activityEnd: {} }));
+  };
+
+  const pushToTalk = settings.activation === 'push_to_talk';
+  usePushToTalk(pushToTalk && !needsKey && !offline, settings.pushToTalkKey, pressTalk, releaseTalk);
+  const wake = useWakeWord(
+    settings.activation === 'wake_word' && armed && !active && !needsKey && !offlineAssistant.listening && !offlineAssistant.speaking,
+    settings.wakePhrase,
+    settings.language,
+    offline ? offlineAssistant.listen : startSession
+  );
+
+  useEffect(() => {
+    if (!announcements.length) return;
+    if (isListening) {
+      const lines = announcements.map(n => `${n.app} from ${n.sender}: ${n.content}`).join('\n');
+      live.send(s => s.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `[New notification${announcements.length === 1 ? '' : 's'} — announce briefly, then carry on]\n${lines}` }] }],
+        turnComplete: true
+      }));
+    }
+    onAnnounced(announcements.map(n => n.id));
+  }, [announcements, isListening]);
+
+  const lastAnswer = (() => {
+    for (let i = turns.length - 1; i >= 0; i--) {
+      if (turns[i].role !== 'assistant') continue;
+      const question = turns.slice(0, i).reverse().find(t => t.role === 'user')?.text;
+      return { text: turns[i].text, question };
+    }
+    return null;
+  })();
+
+  // Typing works either way: into the Live session if one is running, otherwise through the chat model.
+  const sendText = async () => {
+    const text = draft.trim();
+    if (!text || thinking) return;
+    const turn = createTurn('user', 'text', text);
+    onUserTurn();
+    setDraft('');
+    setError(null);
+    touch();
+    if (isListening && live.send(s => s.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }))) {
+      conversation.append(turn);
+      return;
+    }
+    if (offline) {
+      setThinking(true);
+      try {
+        await offlineAssistant.handle(text, 'text');
+      } finally {
+        setThinking(false);
+      }
+      return;
+    }
+    if (!chatModel) {
+      setNeedsKey(true);
+      setDraft(text);
+      return;
+    }
+    const history = [...conversationRef.current.context, ...conversationRef.current.turns, turn];
+    conversation.append(turn);
+    setThinking(true);
+    try {
+      const reply = await chatModel.send({ contents: toContents(history), systemInstruction: instructionFor(history), tools: toolRegistry });
+      conversationRef.current.append(createTurn('assistant', 'text', reply.text, reply.toolCalls));
+    } catch (e: any) {
+      setError(e.message || 'Chat request failed');
+    } finally {
+      setThinking(false);
+    }
+  };
+
+  const saveLastAnswer = () => {
+    if (!lastAnswer) return;
+    const title = lastAnswer.question ? lastAnswer.question.slice(0, 60) : `V1 answer ${new Date().toLocaleDateString()}`;
+    onSaveNote(title, lastAnswer.question ? `**Q:** ${lastAnswer.question}\n\n${lastAnswer.text}` : lastAnswer.text);
+    setSavedAnswer(lastAnswer.text);
+  };
+
   return (
     <div className="flex flex-col items-center justify-center h-full max-w-5xl mx-auto px-6 gap-12">
       <div className="text-center space-y-6">
@@ -332,53 +513,149 @@ const VoiceInteraction: React.FC<VoiceInteractionProps> = ({ handlers }) => {
             <button onClick={handleLinkKey} className="w-full py-6 bg-blue-600 hover:bg-blue-500 text-white font-black uppercase tracking-[0.25em] text-[10px] rounded-3xl transition-all">
               Authenticate Key
             </button>
+            <button onClick={() => setNeedsKey(false)} className="w-full py-4 border border-white/5 hover:border-blue-500/30 text-slate-500 hover:text-white font-black uppercase tracking-[0.25em] text-[10px] rounded-3xl transition-all">
+              Continue Offline
+            </button>
             <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" className="block text-[9px] text-slate-700 hover:text-blue-500 uppercase font-black tracking-widest pt-4">
               Billing Documentation
             </a>
           </div>
         ) : (
           <button 
-            onClick={isListening ? stopSession : startSession}
-            className={`relative w-[24rem] h-[24rem] rounded-full flex flex-col items-center justify-center transition-all duration-1000 group ${isListening ? 'bg-blue-600/5 border-2 border-blue-400 shadow-[0_0_150px_rgba(59,130,246,0.25)]' : 'bg-slate-950 border-2 border-slate-900 hover:border-blue-500/40 shadow-2xl'}`}
+            onClick={active ? stopSession : offline ? (offlineAssistant.listening || offlineAssistant.speaking ? offlineAssistant.cancel : offlineAssistant.listen) : startSession}
+            className={`relative w-[24rem] h-[24rem] rounded-full flex flex-col items-center justify-center transition-all duration-1000 group ${active ? `bg-blue-600/5 border-2 border-blue-400 ${hearing ? 'shadow-[0_0_200px_rgba(59,130,246,0.45)]' : 'shadow-[0_0_150px_rgba(59,130,246,0.25)]'}` : 'bg-slate-950 border-2 border-slate-900 hover:border-blue-500/40 shadow-2xl'}`}
           >
-            {isListening ? (
-              <div className="flex gap-3 h-32 items-center">
-                {[...Array(24)].map((_, i) => (
-                  <div key={i} className="w-1.5 bg-blue-500 rounded-full animate-bounce" style={{ height: `${20 + Math.random() * 80}%`, animationDelay: `${i * 0.05}s`, opacity: 0.2 + (inputLevel * 20) }} />
-                ))}
-              </div>
+            {active ? (
+              <AudioVisualizer analyser={analyser} />
+            ) : offlineAssistant.listening || offlineAssistant.speaking ? (
+              <Ear size={100} className="text-amber-400 animate-pulse" />
             ) : (
               <Mic size={100} className="text-slate-800 group-hover:text-blue-500 transition-all duration-1000 transform group-hover:scale-110" />
             )}
-            <span className={`absolute bottom-20 text-[12px] font-black uppercase tracking-[0.8em] transition-all duration-1000 ${isListening ? 'text-blue-400' : 'text-slate-800'}`}>
-              {isListening ? 'STREAM LIVE' : 'INITIATE SYNC'}
+            <span className={`absolute bottom-20 text-[12px] font-black uppercase tracking-[0.8em] transition-all duration-1000 ${active ? 'text-blue-400' : 'text-slate-800'}`}>
+              {isListening ? (pushToTalk && !talking ? 'HOLD TO SPEAK' : 'STREAM LIVE')
+                : active ? 'LINKING'
+                : offlineAssistant.listening ? 'LISTENING' : offlineAssistant.speaking ? 'SPEAKING'
+                : wake.listening ? 'AWAITING PHRASE'
+                : offline ? 'TAP TO SPEAK' : 'INITIATE SYNC'}
             </span>
           </button>
         )}
+
+        {!needsKey && offline && !active && (
+          <div className="max-w-md text-center space-y-3">
+            <p className="flex items-center justify-center gap-2 text-[10px] font-black text-amber-400 uppercase tracking-[0.3em]">
+              <WifiOff size={12} /> Offline — simple commands only
+            </p>
+            <p className="text-xs text-slate-500">
+              {speech.canListen ? 'Tap the core and say' : 'Speech recognition is unavailable in this browser; type'} a command like {OFFLINE_EXAMPLES.slice(0, 3).map(e => `"${e}"`).join(', ')}.
+            </p>
+            {offlineAssistant.error && <p className="text-xs text-red-400">{offlineAssistant.error}</p>}
+          </div>
+        )}
+
+        {!needsKey && pushToTalk && !offline && (
+          <div className="flex flex-col items-center gap-3">
+            <button
+              onPointerDown={pressTalk}
+              onPointerUp={releaseTalk}
+              onPointerLeave={releaseTalk}
+              className={`flex items-center gap-3 px-10 py-4 rounded-full text-[10px] font-black uppercase tracking-[0.4em] border transition-all select-none touch-none ${talking ? 'bg-blue-600 border-blue-400 text-white shadow-[0_0_60px_rgba(59,130,246,0.4)]' : 'bg-slate-950 border-white/5 text-slate-500 hover:text-white'}`}
+            >
+              {talking ? <Mic size={14} /> : <MicOff size={14} />} {talking ? 'Transmitting' : 'Hold to Talk'}
+            </button>
+            <span className="text-[9px] font-black text-slate-700 uppercase tracking-widest">Or hold {keyLabel(settings.pushToTalkKey)}</span>
+          </div>
+        )}
+
+        {!needsKey && settings.activation === 'wake_word' && !active && (
+          <div className="flex items-center gap-4 px-8 py-3 rounded-full bg-slate-950 border border-white/5 text-[9px] font-black uppercase tracking-widest">
+            {wake.support === null ? (
+              <span className="flex items-center gap-2 text-slate-600"><Loader2 size={12} className="animate-spin" /> Checking on-device recognition</span>
+            ) : wake.support === 'unavailable' ? (
+              <span className="text-amber-500">On-device recognition isn't available here; tap the core to start</span>
+            ) : wake.support === 'downloadable' ? (
+              <button onClick={wake.install} className="flex items-center gap-2 text-blue-400 hover:text-white"><Download size={12} /> Download on-device recognition</button>
+            ) : (
+              <>
+                <span className={`flex items-center gap-2 ${wake.listening ? 'text-emerald-400' : 'text-slate-600'}`}>
+                  <Ear size={12} className={wake.listening ? 'animate-pulse' : ''} />
+                  {wake.listening ? `Say "${settings.wakePhrase}"` : 'Wake phrase paused'}
+                </span>
+                <button onClick={() => setArmed(a => !a)} className="flex items-center gap-1 text-slate-500 hover:text-white">
+                  {armed ? <><Pause size={12} /> Pause</> : <><Play size={12} /> Resume</>}
+                </button>
+              </>
+            )}
+            {wake.error && <span className="text-red-400 normal-case tracking-normal">{wake.error}</span>}
+          </div>
+        )}
+
+        {slept && !active && (
+          <span className="flex items-center gap-2 text-[9px] font-black text-slate-600 uppercase tracking-widest">
+            <Moon size={12} /> Went to sleep after {settings.sleepAfterSec}s of quiet
+          </span>
+        )}
       </div>
 
       <div className="w-full space-y-8">
         <div className="flex justify-between items-center px-10">
           <div className="flex items-center gap-6 px-10 py-4 rounded-full bg-slate-950 border border-white/5 text-[10px] font-black text-slate-600 uppercase tracking-[0.4em]">
-             <div className={`w-3 h-3 rounded-full ${isListening ? 'bg-emerald-400 animate-ping' : 'bg-slate-900'}`} />
-             {status}
+             <div className={`w-3 h-3 rounded-full ${isListening ? 'bg-emerald-400 animate-ping' : active ? 'bg-amber-400 animate-pulse' : 'bg-slate-900'}`} />
+             {offline && live.status.state === 'idle' ? 'Offline Mode' : statusText(live.status)}
+          </div>
+          <div className="flex items-center gap-6">
+            {lastAnswer && (
+              <button onClick={saveLastAnswer} disabled={savedAnswer === lastAnswer.text} className="text-[9px] font-black text-slate-500 uppercase hover:text-blue-400 transition-all disabled:text-emerald-500">
+                {savedAnswer === lastAnswer.text ? 'Saved to Notes' : 'Save Answer to Notes'}
+              </button>
+            )}
+            <button onClick={conversation.clear} className="text-[9px] font-black text-slate-700 uppercase hover:text-white transition-all">New Session</button>
           </div>
-          <button onClick={() => setTranscription([])} className="text-[9px] font-black text-slate-700 uppercase hover:text-white transition-all">Flush Logs</button>
         </div>
 
+        <VisionPanel vision={vision} camera={camera} live={isListening} />
+
+        {conversation.context.length > 0 && (
+          <div className="mx-10 px-6 py-3 rounded-2xl bg-blue-600/10 border border-blue-500/20 text-xs text-blue-300 font-bold">
+            Continuing with {conversation.context.length} turn(s) from an earlier session as context.
+          </div>
+        )}
+
         <div className="glass-panel rounded-[4rem] p-16 min-h-[300px] max-h-[450px] overflow-y-auto custom-scrollbar border-white/5 flex flex-col gap-10 shadow-2xl bg-slate-950/30">
-          {transcription.length === 0 ? (
+          {turns.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-slate-900 gap-8 opacity-10">
               <Terminal size={80} strokeWidth={1} />
               <p className="text-[14px] font-black uppercase tracking-[0.4em]">V1 Datastream Inert</p>
             </div>
-          ) : transcription.map((t, i) => (
-            <div key={i} className={`flex ${t.type === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-6 duration-500`}>
-              <div className={`px-12 py-6 rounded-[3rem] text-lg font-medium max-w-[85%] ${t.type === 'user' ? 'bg-slate-900 text-slate-200 border border-white/5' : 'bg-blue-600/5 text-blue-50 border border-blue-500/20'}`}>
-                {t.text}
+          ) : turns.map(t => (
+            <div key={t.id} className={`flex ${t.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-6 duration-500`}>
+              <div className={`px-12 py-6 rounded-[3rem] text-lg font-medium max-w-[85%] ${t.role === 'user' ? 'bg-slate-900 text-slate-200 border border-white/5' : 'bg-blue-600/5 text-blue-50 border border-blue-500/20'}`}>
+                {t.role === 'assistant' ? <Markdown source={t.text} /> : t.text}
+                <div className="flex items-center gap-2 mt-2 text-[10px] text-slate-500 font-bold uppercase tracking-widest">
+                  {t.channel === 'voice' ? <Mic size={10} /> : <Keyboard size={10} />}
+                  {t.tools?.length ? <span className="flex items-center gap-1"><Wrench size={10} /> {t.tools.map(c => c.name).join(', ')}</span> : null}
+                </div>
               </div>
             </div>
           ))}
+          {thinking && (
+            <div className="flex justify-start">
+              <div className="px-8 py-4 rounded-[3rem] bg-blue-600/5 border border-blue-500/20 text-blue-300"><Loader2 size={20} className="animate-spin" /></div>
+            </div>
+          )}
+          <div ref={transcriptEndRef} />
+        </div>
+
+        <div className="flex gap-3 px-4">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && sendText()}
+            placeholder={isListening ? 'Type to V1 — it will answer out loud...' : offline ? 'Type a command, e.g. "add task review chapter 3"...' : 'Type a message to V1...'}
+            className="flex-1 bg-slate-950 border border-slate-800 rounded-3xl px-6 py-4 text-sm focus:border-blue-500/50 outline-none"
+          />
+          <button onClick={sendText} disabled={!draft.trim() || thinking} className="px-6 bg-blue-600 rounded-3xl disabled:opacity-40"><Send size={18} /></button>
         </div>
 
         {error && (
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { CallEndReason, CallRecord, CallStatus, Contact } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { callLogSchema } from '../services/schemas.ts';
+import { CallProvider } from '../services/callProvider.ts';
+import { newId } from '../services/ids.ts';
+
+const LIVE_STATUSES: CallStatus[] = ['dialing', 'ringing', 'active'];
+
+export interface Calls {
+  log: CallRecord[];
+  active: CallRecord | null;
+  place: (contact: Contact) => CallRecord;
+  accept: () => void;
+  decline: () => void;
+  hangUp: () => CallRecord;
+  clearLog: () => void;
+}
+
+const finalStatus = (call: CallRecord, reason: CallEndReason): CallStatus => {
+  if (call.answeredAt) return 'ended';
+  if (call.direction === 'incoming') return reason === 'declined' ? 'declined' : 'missed';
+  return reason === 'hangup' ? 'ended' : 'failed';
+};
+
+/** Call log and the one live call, kept in sync with whichever CallProvider is plugged in. */
+export function useCalls(provider: CallProvider): Calls {
+  const [log, setLog] = usePersistentState<CallRecord[]>(callLogSchema, []);
+  const active = log.find(c => LIVE_STATUSES.includes(c.status)) ?? null;
+  const activeRef = useRef(active);
+  activeRef.current = active;
+
+  useEffect(() => provider.subscribe(event => {
+    const now = new Date().toISOString();
+    if (event.type === 'incoming') {
+      if (activeRef.current) {
+        provider.reject(event.callId);
+        return;
+      }
+      setLog(prev => [{ id: event.callId, contactId: event.contactId, direction: 'incoming', status: 'ringing', startedAt: now, durationSec: 0 }, ...prev]);
+      return;
+    }
+    setLog(prev => prev.map(call => {
+      if (call.id !== event.callId || !LIVE_STATUSES.includes(call.status)) return call;
+      switch (event.type) {
+        case 'ringing': return { ...call, status: 'ringing' };
+        case 'connected': return { ...call, status: 'active', answeredAt: now };
+        case 'ended': return {
+          ...call,
+          status: finalStatus(call, event.reason),
+          endedAt: now,
+          endReason: event.reason,
+          durationSec: call.answeredAt ? Math.round((Date.parse(now) - Date.parse(call.answeredAt)) / 1000) : 0
+        };
+      }
+    }));
+  }), [provider]);
+
+  const requireActive = () => {
+    if (!activeRef.current) throw new Error('There is no call in progress.');
+    return activeRef.current;
+  };
+
+  return {
+    log,
+    active,
+    place: (contact) => {
+      if (activeRef.current) throw new Error('Another call is already in progress. End it first.');
+      const call: CallRecord = { id: newId('call'), contactId: contact.id, direction: 'outgoing', status: 'dialing', startedAt: new Date().toISOString(), durationSec: 0 };
+      setLog(prev => [call, ...prev]);
+      activeRef.current = call;
+      provider.dial(call.id, contact);
+      return call;
+    },
+    accept: () => provider.answer(requireActive().id),
+    decline: () => provider.reject(requireActive().id),
+    hangUp: () => {
+      const call = requireActive();
+      provider.hangUp(call.id);
+      return call;
+    },
+    clearLog: () => setLog(prev => prev.filter(c => LIVE_STATUSES.includes(c.status)))
+  };
+}
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MediaCapture } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { capturesSchema } from '../services/schemas.ts';
+import { getBlobStore } from '../services/blobStore.ts';
+import { Recording, createCapture, grabFrame, openCameraStream, startRecording, stopStream, waitForFrame } from '../services/camera.ts';
+
+export interface PhotoOptions {
+  countdownSec?: number;
+  caption?: string;
+}
+
+export interface Camera {
+  captures: MediaCapture[];
+  // Object URLs for captures whose blobs have loaded, keyed by capture id.
+  urls: Record<string, string>;
+  // Captures whose blobs are missing or could not be read; they are not retried.
+  unavailable: string[];
+  // Why the vault could not be read, if it couldn't.
+  error: string | null;
+  stream: MediaStream | null;
+  countdown: number | null;
+  recordingSince: number | null;
+  // The element frames are drawn from; shows the open stream even when no preview is mounted.
+  video: HTMLVideoElement;
+  open: () => Promise<MediaStream>;
+  close: () => void;
+  takePhoto: (options?: PhotoOptions) => Promise<MediaCapture>;
+  startVideo: () => Promise<void>;
+  stopVideo: () => Promise<MediaCapture | null>;
+  blobFor: (id: string) => Promise<Blob | undefined>;
+  remove: (id: string) => Promise<void>;
+  toggleFavourite: (id: string) => void;
+  setCaption: (id: string, caption: string) => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Camera stream, countdown capture and the photo vault. `onShutter` fires the moment a photo is taken. */
+export function useCamera(onShutter: () => void): Camera {
+  const [captures, setCaptures] = usePersistentState<MediaCapture[]>(capturesSchema, []);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+
+  // Frames are grabbed from an element of our own so voice capture works from any screen.
+  const video = useMemo(() => {
+    const el = document.createElement('video');
+    el.muted = true;
+    el.playsInline = true;
+    return el;
+  }, []);
+  const streamRef = useRef<MediaStream | null>(null);
+  const recordingRef = useRef<Recording | null>(null);
+  const busyRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const missing = captures.filter(c => !urls[c.id] && !unavailable.includes(c.id));
+    const gone = Object.keys(urls).filter(id => !captures.some(c => c.id === id));
+    if (gone.length) {
+      gone.forEach(id => URL.revokeObjectURL(urls[id]));
+      setUrls(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !gone.includes(id))));
+    }
+    if (!missing.length) return;
+    getBlobStore().then(async store => {
+      const loaded: Record<string, string> = {};
+      const broken: string[] = [];
+      for (const c of missing) {
+        try {
+          const blob = await store.get(c.id);
+          if (blob) loaded[c.id] = URL.createObjectURL(blob);
+          else broken.push(c.id);
+        } catch (e) {
+          console.error(`Failed to read capture ${c.id}`, e);
+          broken.push(c.id);
+        }
+      }
+      if (cancelled) {
+        Object.values(loaded).forEach(URL.revokeObjectURL);
+        return;
+      }
+      setUrls(prev => ({ ...prev, ...loaded }));
+      if (broken.length) {
+        setUnavailable(prev => [...prev, ...broken]);
+        setError(`${broken.length} capture${broken.length === 1 ? '' : 's'} could not be loaded.`);
+      }
+    }).catch(e => {
+      if (cancelled) return;
+      console.error('Failed to open the photo vault', e);
+      setError(`The photo vault could not be opened: ${e?.message ?? e}`);
+    });
+    return () => { cancelled = true; };
+  }, [captures, unavailable]);
+
+  const open = async () => {
+    if (streamRef.current) return streamRef.current;
+    const next = await openCameraStream();
+    streamRef.current = next;
+    video.srcObject = next;
+    video.play().catch(() => {});
+    setStream(next);
+    return next;
+  };
+
+  const close = () => {
+    // Closing mid-recording keeps what was filmed so far.
+    if (recordingRef.current) stopVideoRef.current();
+    stopStream(streamRef.current);
+    streamRef.current = null;
+    video.srcObject = null;
+    setStream(null);
+  };
+
+  useEffect(() => close, []);
+
+  const save = async (capture: MediaCapture, blob: Blob) => {
+    await (await getBlobStore()).put(capture.id, blob);
+    setCaptures(prev => [capture, ...prev]);
+    return capture;
+  };
+
+  const takePhoto = async ({ countdownSec = 0, caption }: PhotoOptions = {}) => {
+    if (busyRef.current) throw new Error('A photo is already being taken.');
+    busyRef.current = true;
+    const wasOpen = !!streamRef.current;
+    try {
+      await open();
+      for (let n = Math.round(countdownSec); n > 0; n--) {
+        setCountdown(n);
+        await sleep(1000);
+      }
+      setCountdown(null);
+      await waitForFrame(video);
+      const frame = await grabFrame(video);
+      onShutter();
+      return await save(createCapture('photo', frame.blob, frame, caption ? { caption } : {}), frame.blob);
+    } finally {
+      setCountdown(null);
+      busyRef.current = false;
+      if (!wasOpen) close();
+    }
+  };
+
+  const stopVideo = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return null;
+    recordingRef.current = null;
+    const startedAt = recordingSince ?? Date.now();
+    setRecordingSince(null);
+    const blob = await recording.stop();
+    const durationSec = Math.round((Date.now() - startedAt) / 1000);
+    return save(createCapture('video', blob, { width: video.videoWidth, height: video.videoHeight }, { durationSec }), blob);
+  };
+  const stopVideoRef = useRef(stopVideo);
+  stopVideoRef.current = stopVideo;
+
+  return {
+    captures,
+    urls,
+    unavailable,
+    error,
+    stream,
+    countdown,
+    recordingSince,
+    video,
+    open,
+    close,
+    takePhoto,
+    startVideo: async () => {
+      if (recordingRef.current) return;
+      const active = await open();
+      recordingRef.current = startRecording(active, undefined, () => { stopVideoRef.current(); });
+      setRecordingSince(Date.now());
+    },
+    stopVideo,
+    blobFor: async (id) => (await getBlobStore()).get(id),
+    remove: async (id) => {
+      setCaptures(prev => prev.filter(c => c.id !== id));
+      await (await getBlobStore()).remove(id);
+    },
+    toggleFavourite: (id) => setCaptures(prev => prev.map(c => c.id === id ? { ...c, favourite: !c.favourite } : c)),
+    setCaption: (id, caption) => setCaptures(prev => prev.map(c => c.id === id ? { ...c, caption: caption.trim() || undefined } : c))
+  };
+}
@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import { ConversationSession, ConversationTurn } from '../types.ts';
+import { createSession } from '../services/conversation.ts';
+import { conversationsSchema } from '../services/schemas.ts';
+import { usePersistentState } from './usePersistentState.ts';
+
+export interface Conversation {
+  // Turns of the current session.
+  turns: ConversationTurn[];
+  // Turns of the past session reopened as context; replayed ahead of `turns` but not copied into it.
+  context: ConversationTurn[];
+  sessions: ConversationSession[];
+  currentId: string;
+  append: (...turns: ConversationTurn[]) => void;
+  // Starts a new session; the previous one stays in history.
+  clear: () => void;
+  reopen: (sessionId: string) => void;
+  remove: (sessionId: string) => void;
+}
+
+/**
+ * The single history shared by voice and text turns, stored as sessions. A session only
+ * enters history once its first turn is appended, so opening the app doesn't leave empty ones.
+ */
+export function useConversation(): Conversation {
+  const [sessions, setSessions] = usePersistentState(conversationsSchema, []);
+  const [draft, setDraft] = useState(() => createSession());
+
+  const current = sessions.find(s => s.id === draft.id) ?? draft;
+  const contextSession = current.contextFrom ? sessions.find(s => s.id === current.contextFrom) : undefined;
+
+  const append = (...added: ConversationTurn[]) => {
+    const turns = added.filter(t => t.text || t.tools?.length);
+    if (!turns.length) return;
+    setSessions(prev => {
+      const existing = prev.find(s => s.id === draft.id) ?? draft;
+      const next = { ...existing, turns: [...existing.turns, ...turns], updatedAt: turns[turns.length - 1].at };
+      return prev.some(s => s.id === draft.id) ? prev.map(s => s.id === draft.id ? next : s) : [...prev, next];
+    });
+  };
+
+  return {
+    turns: current.turns,
+    context: contextSession?.turns ?? [],
+    sessions,
+    currentId: draft.id,
+    append,
+    clear: () => setDraft(createSession()),
+    reopen: (sessionId) => setDraft(createSession(sessionId)),
+    remove: (sessionId) => {
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+      if (sessionId === draft.id || sessionId === draft.contextFrom) setDraft(createSession());
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { useRef, useState } from 'react';
+import { CardSchedule, Flashcard, FlashcardDeck, ReviewAnswer, ReviewRecord } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { cardSchedulesSchema, reviewLogSchema } from '../services/schemas.ts';
+import { ANSWER_GRADES, applyReview, createReviewRecord, dueQueue, findCard, scheduleFor } from '../services/spacedRepetition.ts';
+
+export interface ReviewSessionState {
+  deckId?: string;
+  queue: string[]; // card ids, head is the current card
+  revealed: boolean;
+  reviewed: number;
+}
+
+export interface CurrentCard {
+  deck: FlashcardDeck;
+  card: Flashcard;
+  remaining: number;
+}
+
+export interface FlashcardReview {
+  schedules: Record<string, CardSchedule>;
+  log: ReviewRecord[];
+  session: ReviewSessionState | null;
+  current: CurrentCard | null;
+  dueCount: (deckId?: string) => number;
+  start: (deckId?: string) => CurrentCard | null;
+  reveal: () => CurrentCard | null;
+  grade: (answer: ReviewAnswer) => { record: ReviewRecord; next: CurrentCard | null };
+  end: () => number;
+}
+
+/** Flashcard scheduling state plus the in-progress review session shared by the UI and voice tools. */
+export function useFlashcardReview(decks: FlashcardDeck[]): FlashcardReview {
+  const [schedules, setSchedules] = usePersistentState<Record<string, CardSchedule>>(cardSchedulesSchema, {});
+  const [log, setLog] = usePersistentState<ReviewRecord[]>(reviewLogSchema, []);
+  const [session, setSessionState] = useState<ReviewSessionState | null>(null);
+  // Several voice tool calls can land before a re-render (e.g. two grade_card calls); each must see the one before.
+  const sessionRef = useRef(session);
+  const setSession = (next: ReviewSessionState | null) => {
+    sessionRef.current = next;
+    setSessionState(next);
+  };
+  const schedulesRef = useRef(schedules);
+  schedulesRef.current = schedules;
+
+  const cardAt = (s: ReviewSessionState | null): CurrentCard | null => {
+    if (!s || !s.queue.length) return null;
+    const found = findCard(decks, s.queue[0]);
+    return found ? { ...found, remaining: s.queue.length } : null;
+  };
+
+  const requireSession = () => {
+    if (!sessionRef.current) throw new Error('No review session is running. Start one first.');
+    return sessionRef.current;
+  };
+
+  return {
+    schedules,
+    log,
+    session,
+    current: cardAt(session),
+    dueCount: (deckId) => dueQueue(decks, schedules, new Date(), deckId).length,
+    start: (deckId) => {
+      const queue = dueQueue(decks, schedulesRef.current, new Date(), deckId).map(s => s.cardId);
+      const next: ReviewSessionState = { deckId, queue, revealed: false, reviewed: 0 };
+      setSession(queue.length ? next : null);
+      return cardAt(next);
+    },
+    reveal: () => {
+      const s = requireSession();
+      setSession({ ...s, revealed: true });
+      return cardAt(s);
+    },
+    grade: (answer) => {
+      const s = requireSession();
+      const current = cardAt(s);
+      if (!current) throw new Error('There is no card to grade.');
+      const now = new Date();
+      const before = scheduleFor(schedulesRef.current, current.card, current.deck.id);
+      const after = applyReview(before, ANSWER_GRADES[answer], now);
+      const record = createReviewRecord(before, after, answer, now);
+      schedulesRef.current = { ...schedulesRef.current, [after.cardId]: after };
+      setSchedules(prev => ({ ...prev, [after.cardId]: after }));
+      setLog(prev => [...prev, record]);
+
+      // Lapsed cards go to the back of the queue so they come up again this session.
+      const rest = s.queue.slice(1);
+      const queue = ANSWER_GRADES[answer] < 3 ? [...rest, current.card.id] : rest;
+      const next: ReviewSessionState = { ...s, queue, revealed: false, reviewed: s.reviewed + 1 };
+      setSession(queue.length ? next : null);
+      return { record, next: cardAt(next) };
+    },
+    end: () => {
+      const reviewed = sessionRef.current?.reviewed ?? 0;
+      setSession(null);
+      return reviewed;
+    }
+  };
+}
@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppNotification, FocusConfig, FocusSessionLog, FocusState } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { focusConfigSchema, focusLogSchema, focusStateSchema } from '../services/schemas.ts';
+import {
+  DEFAULT_FOCUS_CONFIG, IDLE_FOCUS_STATE, FocusTransition,
+  completePhase, pauseFocus, resumeFocus, startFocus, stopFocus
+} from '../services/focusTimer.ts';
+
+export interface FocusDigest {
+  endedAt: string;
+  notifications: AppNotification[];
+}
+
+export interface FocusTimer {
+  state: FocusState;
+  // The state as of now, including changes made since the last render.
+  current: () => FocusState;
+  config: FocusConfig;
+  log: FocusSessionLog[];
+  digest: FocusDigest | null;
+  isFocusing: boolean;
+  setConfig: (config: FocusConfig) => void;
+  start: (options?: { minutes?: number; taskId?: string }) => FocusTransition;
+  pause: () => FocusState;
+  resume: () => FocusState;
+  stop: () => FocusTransition;
+  skip: () => FocusTransition;
+  // Returns true when the notification was held back because a work phase is running.
+  hold: (notification: AppNotification) => boolean;
+  dismissDigest: () => void;
+}
+
+/**
+ * Pomodoro state shared by the Study Support timer and the voice tools. Phase changes are driven
+ * by a single timeout at the phase end rather than a per-second tick, so App does not re-render
+ * while the clock runs; components that show a countdown keep their own interval.
+ */
+export function useFocusTimer(onRelease: (notifications: AppNotification[]) => void): FocusTimer {
+  const [state, setState] = usePersistentState<FocusState>(focusStateSchema, IDLE_FOCUS_STATE);
+  const [config, setConfig] = usePersistentState<FocusConfig>(focusConfigSchema, DEFAULT_FOCUS_CONFIG);
+  const [log, setLog] = usePersistentState<FocusSessionLog[]>(focusLogSchema, []);
+  const [digest, setDigest] = useState<FocusDigest | null>(null);
+
+  const releaseRef = useRef(onRelease);
+  releaseRef.current = onRelease;
+  // Voice commands and incoming notifications can arrive before a re-render; each must see the last change.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const changeState = (next: FocusState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const apply = (transition: FocusTransition) => {
+    changeState(transition.state);
+    if (transition.log) setLog(prev => [...prev, transition.log!]);
+    if (transition.released.length) {
+      releaseRef.current(transition.released);
+      setDigest({ endedAt: new Date().toISOString(), notifications: transition.released });
+    }
+    return transition;
+  };
+
+  useEffect(() => {
+    if (!state.phase || !state.endsAt) return;
+    const delay = Math.max(0, Date.parse(state.endsAt) - Date.now());
+    const timer = setTimeout(() => apply(completePhase(stateRef.current, config)), delay);
+    return () => clearTimeout(timer);
+  }, [state, config]);
+
+  return {
+    state,
+    current: () => stateRef.current,
+    config,
+    log,
+    digest,
+    isFocusing: state.phase === 'work',
+    setConfig,
+    start: (options) => apply(startFocus(stateRef.current, config, options)),
+    pause: () => {
+      const next = pauseFocus(stateRef.current);
+      changeState(next);
+      return next;
+    },
+    resume: () => {
+      const next = resumeFocus(stateRef.current);
+      changeState(next);
+      return next;
+    },
+    stop: () => apply(stopFocus(stateRef.current)),
+    skip: () => apply(completePhase(stateRef.current, config)),
+    hold: (notification) => {
+      const current = stateRef.current;
+      if (current.phase !== 'work') return false;
+      changeState({ ...current, held: [...current.held, notification] });
+      return true;
+    },
+    dismissDigest: () => setDigest(null)
+  };
+}
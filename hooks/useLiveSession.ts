@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { IDLE_STATUS, LiveConnection, LiveConnector, LiveSessionManager, LiveStartRequest, LiveStatus, createLiveSessionManager } from '../services/liveSession.ts';
+
+export interface LiveSession {
+  status: LiveStatus;
+  // False without a connector (no API key); start() then does nothing.
+  available: boolean;
+  start: (request: LiveStartRequest) => void;
+  stop: () => void;
+  send: (fn: (connection: LiveConnection) => void) => boolean;
+}
+
+/** The Live session lifecycle as React state, so anything in the app can show where it stands. */
+export function useLiveSession(connector: LiveConnector | null): LiveSession {
+  const manager = useMemo<LiveSessionManager | null>(() => connector ? createLiveSessionManager(connector) : null, [connector]);
+  const [status, setStatus] = useState<LiveStatus>(IDLE_STATUS);
+
+  useEffect(() => {
+    if (!manager) return;
+    setStatus(manager.status());
+    const unsubscribe = manager.subscribe(setStatus);
+    return () => {
+      unsubscribe();
+      manager.stop();
+    };
+  }, [manager]);
+
+  return {
+    status,
+    available: !!manager,
+    start: (request) => manager?.start(request),
+    stop: () => manager?.stop(),
+    send: (fn) => manager?.send(fn) ?? false
+  };
+}
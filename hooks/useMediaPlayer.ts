@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MediaState, Playlist, RepeatMode, Track } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { mediaStateSchema, playlistsSchema, tracksSchema } from '../services/schemas.ts';
+import { getBlobStore } from '../services/blobStore.ts';
+import {
+  INITIAL_MEDIA_STATE, MusicSelection, MusicSelector, buildLibraryIndex, createTrack, currentTrackId, enqueue,
+  isAudioFile, probeDuration, readTrackMetadata, resolveSelection, setShuffle, startQueue, stepIndex
+} from '../services/mediaLibrary.ts';
+import { newId } from '../services/ids.ts';
+
+export interface MediaPlayer {
+  state: MediaState;
+  setState: React.Dispatch<React.SetStateAction<MediaState>>;
+  tracks: Track[];
+  playlists: Playlist[];
+  current: Track | null;
+  importing: boolean;
+  // Why the last track was skipped, until something is played again.
+  error: string | null;
+  // The underlying element, for components that follow playback position without re-rendering App.
+  audio: HTMLAudioElement;
+  importFiles: (files: File[]) => Promise<Track[]>;
+  removeTrack: (id: string) => Promise<void>;
+  select: (selector: MusicSelector) => MusicSelection;
+  playTracks: (trackIds: string[], startIndex?: number) => void;
+  enqueueTracks: (trackIds: string[]) => void;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  next: () => void;
+  previous: () => void;
+  seek: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  setShuffle: (on: boolean) => void;
+  setRepeat: (mode: RepeatMode) => void;
+  createPlaylist: (name: string, trackIds?: string[]) => Playlist;
+  addToPlaylist: (playlistId: string, trackIds: string[]) => void;
+  removeFromPlaylist: (playlistId: string, trackId: string) => void;
+  deletePlaylist: (id: string) => void;
+}
+
+/** One audio element for the whole app, driven by the persisted queue in MediaState. */
+export function useMediaPlayer(): MediaPlayer {
+  const [state, setState] = usePersistentState<MediaState>(mediaStateSchema, INITIAL_MEDIA_STATE);
+  const [tracks, setTracks] = usePersistentState<Track[]>(tracksSchema, []);
+  const [playlists, setPlaylists] = usePersistentState<Playlist[]>(playlistsSchema, []);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audio = useMemo(() => new Audio(), []);
+  const index = useMemo(() => buildLibraryIndex(tracks), [tracks]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const loadedRef = useRef<{ trackId: string; url: string } | null>(null);
+  const brokenInARow = useRef(0);
+
+  const currentId = currentTrackId(state);
+  const current = tracks.find(t => t.id === currentId) ?? null;
+
+  // Swap the element's source when the current track changes; blobs are read lazily from the vault.
+  useEffect(() => {
+    if (!currentId || loadedRef.current?.trackId === currentId) return;
+    let cancelled = false;
+    const title = current?.title ?? 'a track';
+    const skip = (reason: string) => {
+      setError(`Skipped "${title}": ${reason}.`);
+      brokenInARow.current++;
+      setState(s => {
+        const nextIndex = stepIndex(s, 1);
+        // Stop instead of cycling forever when every track in the queue is broken.
+        if (nextIndex === null || brokenInARow.current >= s.queue.length) return { ...s, isPlaying: false };
+        return { ...s, queueIndex: nextIndex, positionSec: 0 };
+      });
+    };
+    getBlobStore().then(store => store.get(currentId)).then(blob => {
+      if (cancelled) return;
+      if (!blob) {
+        console.warn(`Audio for ${currentId} is missing; skipping`);
+        skip('its audio is missing from this device');
+        return;
+      }
+      brokenInARow.current = 0;
+      if (loadedRef.current) URL.revokeObjectURL(loadedRef.current.url);
+      const url = URL.createObjectURL(blob);
+      loadedRef.current = { trackId: currentId, url };
+      audio.src = url;
+      audio.currentTime = stateRef.current.positionSec;
+      if (stateRef.current.isPlaying) audio.play().catch(e => console.warn('Playback blocked', e));
+    }).catch(e => {
+      if (cancelled) return;
+      console.error(`Failed to read audio for ${currentId}`, e);
+      skip(`its audio could not be read (${e?.message ?? e})`);
+    });
+    return () => { cancelled = true; };
+  }, [currentId, audio]);
+
+  useEffect(() => {
+    if (!loadedRef.current || loadedRef.current.trackId !== currentId) return;
+    if (state.isPlaying && audio.paused) audio.play().catch(() => setState(s => ({ ...s, isPlaying: false })));
+    if (!state.isPlaying && !audio.paused) audio.pause();
+  }, [state.isPlaying, currentId, audio]);
+
+  useEffect(() => { audio.volume = state.volume; }, [state.volume, audio]);
+
+  useEffect(() => {
+    const onEnded = () => {
+      const s = stateRef.current;
+      const nextIndex = stepIndex(s, 1, true);
+      if (nextIndex === s.queueIndex) {
+        audio.currentTime = 0;
+        audio.play().catch(() => {});
+      } else {
+        setState(nextIndex === null ? { ...s, isPlaying: false, positionSec: 0, queueIndex: 0 } : { ...s, queueIndex: nextIndex, positionSec: 0 });
+      }
+    };
+    // Position is only written back on pause so timeupdate does not re-render the app several times a second.
+    const onPause = () => setState(s => ({ ...s, positionSec: audio.currentTime }));
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('pause', onPause);
+    return () => {
+      audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('pause', onPause);
+    };
+  }, [audio]);
+
+  useEffect(() => () => {
+    audio.pause();
+    if (loadedRef.current) URL.revokeObjectURL(loadedRef.current.url);
+  }, [audio]);
+
+  const goTo = (queueIndex: number) => {
+    if (loadedRef.current) audio.currentTime = 0;
+    setState(s => ({ ...s, queueIndex, positionSec: 0, isPlaying: true }));
+  };
+
+  const importFiles = async (files: File[]) => {
+    setImporting(true);
+    try {
+      const store = await getBlobStore();
+      const added: Track[] = [];
+      for (const file of files.filter(isAudioFile)) {
+        const [meta, duration] = await Promise.all([readTrackMetadata(file), probeDuration(file)]);
+        const track = createTrack(file, meta, duration);
+        await store.put(track.id, file);
+        added.push(track);
+      }
+      setTracks(prev => [...prev, ...added]);
+      return added;
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const removeTrack = async (id: string) => {
+    setTracks(prev => prev.filter(t => t.id !== id));
+    setPlaylists(prev => prev.map(p => ({ ...p, trackIds: p.trackIds.filter(t => t !== id) })));
+    setState(s => {
+      const currentGone = currentTrackId(s) === id;
+      const queue = s.queue.filter(t => t !== id);
+      const before = s.queue.slice(0, s.queueIndex).filter(t => t !== id).length;
+      return {
+        ...s,
+        queue,
+        baseQueue: s.baseQueue.filter(t => t !== id),
+        queueIndex: Math.min(before, Math.max(0, queue.length - 1)),
+        isPlaying: s.isPlaying && !currentGone && queue.length > 0,
+        positionSec: currentGone ? 0 : s.positionSec
+      };
+    });
+    if (loadedRef.current?.trackId === id) {
+      audio.pause();
+      audio.removeAttribute('src');
+      URL.revokeObjectURL(loadedRef.current.url);
+      loadedRef.current = null;
+    }
+    await (await getBlobStore()).remove(id);
+  };
+
+  const createPlaylist = (name: string, trackIds: string[] = []) => {
+    const playlist: Playlist = { id: newId('playlist'), name: name.trim(), trackIds, createdAt: new Date().toISOString() };
+    setPlaylists(prev => [...prev, playlist]);
+    return playlist;
+  };
+
+  return {
+    state,
+    setState,
+    tracks,
+    playlists,
+    current,
+    importing,
+    error,
+    audio,
+    importFiles,
+    removeTrack,
+    select: (selector) => resolveSelection(tracks, playlists, index, selector),
+    playTracks: (trackIds, startIndex = 0) => {
+      if (loadedRef.current) audio.currentTime = 0;
+      brokenInARow.current = 0;
+      setError(null);
+      setState(s => ({ ...startQueue(s, trackIds, startIndex), isPlaying: true }));
+    },
+    enqueueTracks: (trackIds) => setState(s => s.queue.length ? enqueue(s, trackIds) : { ...startQueue(s, trackIds), isPlaying: false }),
+    play: () => setState(s => s.queue.length ? { ...s, isPlaying: true } : tracks.length ? { ...startQueue(s, tracks.map(t => t.id)), isPlaying: true } : s),
+    pause: () => setState(s => ({ ...s, isPlaying: false })),
+    toggle: () => setState(s => s.queue.length ? { ...s, isPlaying: !s.isPlaying } : tracks.length ? { ...startQueue(s, tracks.map(t => t.id)), isPlaying: true } : s),
+    next: () => {
+      const nextIndex = stepIndex(stateRef.current, 1);
+      if (nextIndex === null) setState(s => ({ ...s, isPlaying: false, queueIndex: 0, positionSec: 0 }));
+      else goTo(nextIndex);
+    },
+    // Like most players: restart the track unless it has only just begun.
+    previous: () => {
+      const prevIndex = stepIndex(stateRef.current, -1);
+      if (audio.currentTime > 3 || prevIndex === null) audio.currentTime = 0;
+      else goTo(prevIndex);
+    },
+    seek: (seconds) => {
+      const max = current?.durationSec || audio.duration || seconds;
+      audio.currentTime = Math.max(0, Math.min(max, seconds));
+      setState(s => ({ ...s, positionSec: audio.currentTime }));
+    },
+    setVolume: (volume) => setState(s => ({ ...s, volume: Math.max(0, Math.min(1, volume)) })),
+    setShuffle: (on) => setState(s => setShuffle(s, on)),
+    setRepeat: (repeat) => setState(s => ({ ...s, repeat })),
+    createPlaylist,
+    addToPlaylist: (playlistId, trackIds) => setPlaylists(prev => prev.map(p => p.id === playlistId
+      ? { ...p, trackIds: [...p.trackIds, ...trackIds.filter(id => !p.trackIds.includes(id))] } : p)),
+    removeFromPlaylist: (playlistId, trackId) => setPlaylists(prev => prev.map(p => p.id === playlistId
+      ? { ...p, trackIds: p.trackIds.filter(id => id !== trackId) } : p)),
+    deletePlaylist: (id) => setPlaylists(prev => prev.filter(p => p.id !== id))
+  };
+}
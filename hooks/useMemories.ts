@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { Memory } from '../types.ts';
+import { createMemory, buildMemoryIndex, findDuplicate } from '../services/memory.ts';
+import { SearchIndex } from '../services/search.ts';
+import { memoriesSchema } from '../services/schemas.ts';
+import { usePersistentState } from './usePersistentState.ts';
+
+export interface Memories {
+  memories: Memory[];
+  index: SearchIndex;
+  // Saving something already remembered refreshes it instead of storing it twice.
+  remember: (text: string, source: Memory['source']) => { memory: Memory; existed: boolean };
+  update: (id: string, text: string) => void;
+  forget: (id: string) => void;
+  clear: () => void;
+}
+
+export function useMemories(): Memories {
+  const [memories, setMemories] = usePersistentState(memoriesSchema, []);
+  const index = useMemo(() => buildMemoryIndex(memories), [memories]);
+
+  const remember = (text: string, source: Memory['source']) => {
+    const existing = findDuplicate(memories, text);
+    if (existing) {
+      const memory = { ...existing, updatedAt: new Date().toISOString() };
+      setMemories(prev => prev.map(m => m.id === existing.id ? memory : m));
+      return { memory, existed: true };
+    }
+    const memory = createMemory(text, source);
+    setMemories(prev => [memory, ...prev]);
+    return { memory, existed: false };
+  };
+
+  return {
+    memories,
+    index,
+    remember,
+    update: (id, text) => setMemories(prev => prev.map(m => m.id === id ? { ...m, text: text.trim(), updatedAt: new Date().toISOString() } : m)),
+    forget: (id) => setMemories(prev => prev.filter(m => m.id !== id)),
+    clear: () => setMemories([])
+  };
+}
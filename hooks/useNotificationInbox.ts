@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppNotification, NotificationRouting, NotificationSourceSettings, NotificationStatus } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { notificationsSchema, notificationSourcesSchema } from '../services/schemas.ts';
+import { isInInbox, mergeNotifications } from '../services/notifications.ts';
+import {
+  NotificationSource, SourceStatus,
+  createJsonImportSource, createMockSource, createWebSocketSource
+} from '../services/notificationSources.ts';
+
+export interface SourceState {
+  label: string;
+  status: SourceStatus;
+  detail?: string;
+}
+
+// What an ingest did with its notifications: added to the inbox, or held back by `route`.
+// Notifications already in the inbox, and those a rule muted or sent to the digest, count as neither.
+export interface IngestResult {
+  delivered: number;
+  held: number;
+}
+
+export interface NotificationInbox {
+  all: AppNotification[];
+  inbox: AppNotification[];
+  archived: AppNotification[];
+  unreadCount: number;
+  settings: NotificationSourceSettings;
+  sources: Record<string, SourceState>;
+  setSettings: (settings: NotificationSourceSettings) => void;
+  // Ingest path used by sources; `route` decides where each notification goes (e.g. held during focus).
+  ingest: (notifications: AppNotification[]) => IngestResult;
+  // Adds notifications directly, bypassing `route`; used when held notifications are released.
+  add: (notifications: AppNotification[]) => void;
+  setStatus: (ids: string[], status: NotificationStatus) => void;
+  markAllRead: () => void;
+  importJson: (json: string) => IngestResult;
+}
+
+const DEFAULT_SETTINGS: NotificationSourceSettings = { mockEnabled: true, websocketEnabled: false, websocketUrl: 'ws://localhost:8787' };
+
+export function useNotificationInbox(seed: AppNotification[], route: (notification: AppNotification) => NotificationRouting): NotificationInbox {
+  const [all, setAll] = usePersistentState<AppNotification[]>(notificationsSchema, seed);
+  const [settings, setSettings] = usePersistentState<NotificationSourceSettings>(notificationSourcesSchema, DEFAULT_SETTINGS);
+  const [sources, setSources] = useState<Record<string, SourceState>>({});
+  const importSource = useMemo(() => createJsonImportSource(), []);
+
+  const routeRef = useRef(route);
+  routeRef.current = route;
+
+  const allRef = useRef(all);
+  allRef.current = all;
+  // The import source delivers through the same callback as every other source; this keeps what it did.
+  const lastIngest = useRef<IngestResult>({ delivered: 0, held: 0 });
+
+  const add = (notifications: AppNotification[]) => setAll(prev => mergeNotifications(prev, notifications));
+  const ingest = (notifications: AppNotification[]): IngestResult => {
+    const known = new Set(allRef.current.map(n => n.id));
+    const routed = notifications.map(n => ({ n, routing: routeRef.current(n) }));
+    add(routed.filter(r => r.routing === 'inbox').map(r => r.n));
+    const fresh = (routing: NotificationRouting) => routed.filter(r => r.routing === routing && !known.has(r.n.id)).length;
+    lastIngest.current = { delivered: fresh('inbox'), held: fresh('held') };
+    return lastIngest.current;
+  };
+  const ingestRef = useRef(ingest);
+  ingestRef.current = ingest;
+
+  useEffect(() => {
+    const active: NotificationSource[] = [importSource];
+    if (settings.mockEnabled) active.push(createMockSource());
+    if (settings.websocketEnabled && settings.websocketUrl) active.push(createWebSocketSource(settings.websocketUrl));
+
+    setSources({});
+    const stops = active.map(source => source.start(
+      notifications => ingestRef.current(notifications),
+      (status, detail) => setSources(prev => ({ ...prev, [source.id]: { label: source.label, status, detail } }))
+    ));
+    return () => stops.forEach(stop => stop());
+  }, [importSource, settings.mockEnabled, settings.websocketEnabled, settings.websocketUrl]);
+
+  // Memoized so the triage that depends on it only re-runs when the notifications change.
+  const inbox = useMemo(() => all.filter(isInInbox), [all]);
+  const archived = useMemo(() => all.filter(n => n.status === 'archived'), [all]);
+
+  return {
+    all,
+    inbox,
+    archived,
+    unreadCount: inbox.filter(n => n.status === 'unread').length,
+    settings,
+    sources,
+    setSettings,
+    ingest,
+    add,
+    setStatus: (ids, status) => setAll(prev => prev.map(n => ids.includes(n.id) ? { ...n, status } : n)),
+    markAllRead: () => setAll(prev => prev.map(n => n.status === 'unread' ? { ...n, status: 'read' } : n)),
+    importJson: (json) => {
+      lastIngest.current = { delivered: 0, held: 0 };
+      importSource.importJson(json);
+      return lastIngest.current;
+    }
+  };
+}
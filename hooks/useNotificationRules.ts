@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import { AppNotification, DndSettings, NotificationRouting, NotificationRule } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { digestQueueSchema, dndSettingsSchema, notificationRulesSchema } from '../services/schemas.ts';
+import { DEFAULT_DND, activeDndSchedule, evaluateNotification, isDndActive, nextDigestAt } from '../services/notificationRules.ts';
+
+export interface NotificationRules {
+  rules: NotificationRule[];
+  dnd: DndSettings;
+  dndActive: boolean;
+  dndLabel: string | null;
+  digestQueue: AppNotification[];
+  // Notifications waiting to be spoken by a Live session.
+  announcements: AppNotification[];
+  setRules: (rules: NotificationRule[]) => void;
+  setDnd: (dnd: DndSettings) => void;
+  // Applies the rules to an incoming notification and reports where it went; only 'inbox' may reach the inbox now.
+  route: (notification: AppNotification, hold: (notification: AppNotification) => boolean) => NotificationRouting;
+  flushDigest: () => void;
+  acknowledge: (ids: string[]) => void;
+}
+
+interface RuleEffects {
+  deliver: (notifications: AppNotification[]) => void;
+  createTask: (notification: AppNotification) => void;
+}
+
+export function useNotificationRules(effects: RuleEffects): NotificationRules {
+  const [rules, setRules] = usePersistentState<NotificationRule[]>(notificationRulesSchema, []);
+  const [dnd, setDnd] = usePersistentState<DndSettings>(dndSettingsSchema, DEFAULT_DND);
+  const [digestQueue, setDigestQueue] = usePersistentState<AppNotification[]>(digestQueueSchema, []);
+  const [announcements, setAnnouncements] = useState<AppNotification[]>([]);
+  const [now, setNow] = useState(() => new Date());
+
+  const effectsRef = useRef(effects);
+  effectsRef.current = effects;
+
+  // Schedules switch on and off with the clock.
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(id);
+  }, []);
+
+  const flushDigest = () => {
+    if (!digestQueue.length) return;
+    effectsRef.current.deliver(digestQueue);
+    if (dnd.announce && !isDndActive(dnd, new Date())) setAnnouncements(prev => [...prev, ...digestQueue]);
+    setDigestQueue([]);
+  };
+  const flushRef = useRef(flushDigest);
+  flushRef.current = flushDigest;
+
+  const oldest = digestQueue[0]?.receivedAt;
+  useEffect(() => {
+    if (!oldest) return;
+    const timer = setTimeout(() => flushRef.current(), Math.max(0, nextDigestAt(oldest).getTime() - Date.now()));
+    return () => clearTimeout(timer);
+  }, [oldest]);
+
+  const route = (n: AppNotification, hold: (n: AppNotification) => boolean): NotificationRouting => {
+    const outcome = evaluateNotification(rules, dnd, n);
+    switch (outcome.action) {
+      case 'mute':
+        effectsRef.current.deliver([{ ...n, status: 'archived' }]);
+        return 'diverted';
+      case 'digest':
+        setDigestQueue(prev => [...prev, n]);
+        return 'diverted';
+      case 'create_task':
+        effectsRef.current.createTask(n);
+        break;
+    }
+    // Always-announce rules break through focus sessions as well as quiet hours.
+    if (outcome.action !== 'announce' && hold(n)) return 'held';
+    if (outcome.announce) setAnnouncements(prev => [...prev, n]);
+    return 'inbox';
+  };
+
+  const schedule = activeDndSchedule(dnd, now);
+
+  return {
+    rules,
+    dnd,
+    dndActive: isDndActive(dnd, now),
+    dndLabel: dnd.manual ? 'Do Not Disturb' : schedule ? `${schedule.label} quiet hours` : null,
+    digestQueue,
+    announcements,
+    setRules,
+    setDnd,
+    route,
+    flushDigest,
+    acknowledge: (ids) => setAnnouncements(prev => prev.filter(n => !ids.includes(n.id)))
+  };
+}
@@ -0,0 +1,63 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AppNotification, TriageCategory, TriageRule, TriageSettings } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { triageLabelsSchema, triageRulesSchema, triageSettingsSchema } from '../services/schemas.ts';
+import { TriagedNotification, llmTriage, matchingRule, ruleFromCorrection, scoreNotification, triageAll } from '../services/triage.ts';
+import { TextModel } from '../services/textModel.ts';
+
+const LLM_CONFIDENCE_THRESHOLD = 0.7;
+const LLM_DEBOUNCE_MS = 1500;
+
+export interface NotificationTriage {
+  triaged: TriagedNotification[];
+  rules: TriageRule[];
+  settings: TriageSettings;
+  llmBusy: boolean;
+  setSettings: (settings: TriageSettings) => void;
+  correct: (notification: AppNotification, category: TriageCategory) => void;
+  removeRule: (id: string) => void;
+}
+
+export function useNotificationTriage(notifications: AppNotification[], knownSenders: string[], textModel: TextModel | null): NotificationTriage {
+  const [rules, setRules] = usePersistentState<TriageRule[]>(triageRulesSchema, []);
+  const [settings, setSettings] = usePersistentState<TriageSettings>(triageSettingsSchema, { llmEnabled: false });
+  const [llmLabels, setLlmLabels] = usePersistentState<Record<string, TriageCategory>>(triageLabelsSchema, {});
+  const [llmBusy, setLlmBusy] = useState(false);
+  const attempted = useRef(new Set<string>());
+
+  const triaged = useMemo(
+    () => triageAll(notifications, { rules, knownSenders, llmLabels }),
+    [notifications, rules, knownSenders, llmLabels]
+  );
+
+  useEffect(() => {
+    if (!settings.llmEnabled || !textModel) return;
+    const unsure = notifications.filter(n =>
+      !attempted.current.has(n.id) && !llmLabels[n.id] && !matchingRule(rules, n) &&
+      scoreNotification(n, knownSenders).confidence < LLM_CONFIDENCE_THRESHOLD);
+    if (!unsure.length) return;
+
+    const timer = setTimeout(() => {
+      unsure.forEach(n => attempted.current.add(n.id));
+      setLlmBusy(true);
+      llmTriage(textModel, unsure)
+        .then(labels => {
+          const live = new Set(notifications.map(n => n.id));
+          setLlmLabels(prev => ({ ...Object.fromEntries(Object.entries(prev).filter(([id]) => live.has(id))), ...labels }));
+        })
+        .catch(e => console.warn('LLM triage failed; keeping rule-based scores', e))
+        .finally(() => setLlmBusy(false));
+    }, LLM_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [notifications, settings.llmEnabled, textModel, rules, llmLabels]);
+
+  return {
+    triaged,
+    rules,
+    settings,
+    llmBusy,
+    setSettings,
+    correct: (notification, category) => setRules(prev => ruleFromCorrection(prev, notification, category)),
+    removeRule: (id) => setRules(prev => prev.filter(r => r.id !== id))
+  };
+}
@@ -0,0 +1,89 @@
+import { useRef, useState } from 'react';
+import { ToolCallRecord, TurnChannel } from '../types.ts';
+import { ToolRegistry } from '../tools/index.ts';
+import { Conversation } from './useConversation.ts';
+import { LocalSpeechEngine } from '../services/speech.ts';
+import { describeToolResponse, offlineHelp, parseIntent } from '../services/intents.ts';
+import { createTurn, toolCallRecord } from '../services/conversation.ts';
+
+export interface OfflineAssistant {
+  listening: boolean;
+  speaking: boolean;
+  error: string | null;
+  // Hears one utterance, carries it out and speaks the reply.
+  listen: () => Promise<void>;
+  // Carries out a typed or already transcribed command; resolves with the reply.
+  handle: (text: string, channel: TurnChannel) => Promise<string>;
+  cancel: () => void;
+}
+
+/**
+ * The assistant without a model: utterances go through the rule-based intent parser and the
+ * matching tool, so commands reach the same handlers and history as in a Live session.
+ */
+export function useOfflineAssistant(registry: ToolRegistry, conversation: Conversation, engine: LocalSpeechEngine, lang: string): OfflineAssistant {
+  const [listening, setListening] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Replies resolve after the render that started them; use the registry and history as they are then.
+  const latest = useRef({ registry, conversation });
+  latest.current = { registry, conversation };
+
+  const handle = async (text: string, channel: TurnChannel) => {
+    const { registry, conversation } = latest.current;
+    const intent = parseIntent(text);
+    let reply: string;
+    let tools: ToolCallRecord[] | undefined;
+    if (!intent) {
+      reply = `I can't do that offline. ${offlineHelp()}`;
+    } else if (!intent.tool) {
+      reply = offlineHelp();
+    } else {
+      const response = await registry.execute(intent.tool, intent.args);
+      tools = [toolCallRecord(intent.tool, intent.args, response)];
+      reply = describeToolResponse(response);
+    }
+    conversation.append(createTurn('user', channel, text), createTurn('assistant', channel, reply, tools));
+    return reply;
+  };
+
+  const speak = async (text: string) => {
+    if (!engine.canSpeak) return;
+    setSpeaking(true);
+    try {
+      await engine.speak(text, lang);
+    } finally {
+      setSpeaking(false);
+    }
+  };
+
+  return {
+    listening,
+    speaking,
+    error,
+    listen: async () => {
+      if (listening) return;
+      setError(null);
+      setListening(true);
+      try {
+        const heard = await engine.listen(lang);
+        setListening(false);
+        if (heard) await speak(await handle(heard, 'voice'));
+      } catch (e: any) {
+        setError(e.message || 'Speech recognition failed');
+      } finally {
+        setListening(false);
+      }
+    },
+    handle: async (text, channel) => {
+      const reply = await handle(text, channel);
+      if (channel === 'voice') await speak(reply);
+      return reply;
+    },
+    cancel: () => {
+      engine.cancel();
+      setListening(false);
+      setSpeaking(false);
+    }
+  };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/** The browser's idea of whether there is a network; it can say online when the API is unreachable. */
+export function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
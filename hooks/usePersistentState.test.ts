@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { replayOnStored } from './usePersistentState.ts';
+
+describe('replayOnStored', () => {
+  it('keeps the in-memory value when nothing was stored', () => {
+    expect(replayOnStored<number[]>(undefined, [[1]])).toEqual({ value: undefined, save: true });
+  });
+
+  it('uses the stored value as is and skips the save when nothing changed early', () => {
+    const stored = [1, 2];
+    expect(replayOnStored(stored, [])).toEqual({ value: stored, save: false });
+  });
+
+  it('replays early updates in order on top of the stored value', () => {
+    const early = [(prev: number[]) => [...prev, 3], (prev: number[]) => prev.filter(n => n !== 1)];
+    expect(replayOnStored([1, 2], early)).toEqual({ value: [2, 3], save: true });
+  });
+
+  it('lets a plain value replace the stored one', () => {
+    expect(replayOnStored([1, 2], [(prev: number[]) => [...prev, 3], [9]])).toEqual({ value: [9], save: true });
+  });
+});
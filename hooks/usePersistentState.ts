@@ -0,0 +1,112 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CollectionSchema, loadCollection, saveCollection } from '../services/storage.ts';
+
+export interface StorageFailure {
+  key: string;
+  error: string;
+  // Overwrites the unreadable stored copy with what is in memory now and resumes saving.
+  reset: () => void;
+}
+
+const failures = new Map<string, StorageFailure>();
+const failureListeners = new Set<() => void>();
+const announceFailures = () => failureListeners.forEach(l => l());
+
+const apply = <T>(prev: T, action: React.SetStateAction<T>): T =>
+  typeof action === 'function' ? (action as (prev: T) => T)(prev) : action;
+
+/**
+ * Where hydration leaves the state: the stored value with the updates made before it loaded
+ * replayed on top, or undefined to keep the in-memory value when nothing was stored. `save`
+ * is false only when the stored value comes back untouched.
+ */
+export const replayOnStored = <T>(stored: T | undefined, early: React.SetStateAction<T>[]): { value: T | undefined; save: boolean } =>
+  stored === undefined
+    ? { value: undefined, save: true }
+    : { value: early.reduce(apply, stored), save: early.length > 0 };
+
+/**
+ * useState backed by the storage layer. `initial` is used until hydration finishes and
+ * whenever nothing has been stored yet; updates made before then are replayed on top of the
+ * stored value, and nothing is written until it has loaded so the seed data never overwrites
+ * what the user saved. If loading fails the collection stays in memory only until the user
+ * resets it (see useStorageFailures), so a transient error can't wipe their data.
+ */
+export function usePersistentState<T>(
+  schema: CollectionSchema<T>,
+  initial: T
+): [T, React.Dispatch<React.SetStateAction<T>>, boolean] {
+  const [value, setValue] = useState<T>(initial);
+  const [hydrated, setHydrated] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const skipNextSave = useRef(true);
+  const hydratedRef = useRef(false);
+  const early = useRef<React.SetStateAction<T>[]>([]);
+
+  const update = useCallback<React.Dispatch<React.SetStateAction<T>>>((action) => {
+    if (!hydratedRef.current) early.current.push(action);
+    setValue(action);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCollection(schema)
+      .then(stored => {
+        if (cancelled) return;
+        hydratedRef.current = true;
+        const { value: hydratedValue, save } = replayOnStored(stored, early.current);
+        early.current = [];
+        if (hydratedValue !== undefined) setValue(hydratedValue);
+        // Writing back an untouched stored value would only bump its savedAt.
+        skipNextSave.current = !save;
+      })
+      .catch(e => {
+        if (cancelled) return;
+        console.error(`Failed to load '${schema.key}'`, e);
+        hydratedRef.current = true;
+        early.current = [];
+        skipNextSave.current = false;
+        setLoadFailed(true);
+        failures.set(schema.key, {
+          key: schema.key,
+          error: e instanceof Error ? e.message : String(e),
+          reset: () => {
+            failures.delete(schema.key);
+            announceFailures();
+            setLoadFailed(false);
+          }
+        });
+        announceFailures();
+      })
+      .finally(() => { if (!cancelled) setHydrated(true); });
+    return () => {
+      cancelled = true;
+      if (failures.delete(schema.key)) announceFailures();
+    };
+  }, [schema]);
+
+  useEffect(() => {
+    if (!hydrated || loadFailed) return;
+    if (skipNextSave.current) {
+      skipNextSave.current = false;
+      return;
+    }
+    saveCollection(schema, value).catch(e => console.error(`Failed to save '${schema.key}'`, e));
+  }, [schema, value, hydrated, loadFailed]);
+
+  return [value, update, hydrated];
+}
+
+/** Collections that failed to load and are not being saved until the user resets them. */
+export function useStorageFailures(): StorageFailure[] {
+  const [list, setList] = useState(() => [...failures.values()]);
+
+  useEffect(() => {
+    const refresh = () => setList([...failures.values()]);
+    failureListeners.add(refresh);
+    refresh();
+    return () => { failureListeners.delete(refresh); };
+  }, []);
+
+  return list;
+}
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+
+const isTyping = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+/**
+ * Calls `onPress` when `code` goes down and `onRelease` when it comes back up, ignoring key
+ * repeat and keys typed into form fields. Losing window focus counts as a release so the
+ * microphone can't stay open behind another window.
+ */
+export function usePushToTalk(enabled: boolean, code: string, onPress: () => void, onRelease: () => void) {
+  const handlers = useRef({ onPress, onRelease });
+  handlers.current = { onPress, onRelease };
+
+  useEffect(() => {
+    if (!enabled) return;
+    let held = false;
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== code || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      held = true;
+      handlers.current.onPress();
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code !== code || !held) return;
+      held = false;
+      handlers.current.onRelease();
+    };
+    const blur = () => {
+      if (!held) return;
+      held = false;
+      handlers.current.onRelease();
+    };
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', blur);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', blur);
+    };
+  }, [enabled, code]);
+}
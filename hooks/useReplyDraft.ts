@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { AppNotification, Message, ReplyDraft } from '../types.ts';
+import { createReplyDraft, generateReplies, quickReplies } from '../services/replies.ts';
+import { TextModel } from '../services/textModel.ts';
+
+export interface ReplyDrafts {
+  draft: ReplyDraft | null;
+  // The draft as of now, including changes made since the last render.
+  current: () => ReplyDraft | null;
+  busy: boolean;
+  // `turn` counts the turns the user has taken so far, recorded as when the draft was shown.
+  suggest: (notification: AppNotification, thread?: Message[], turn?: number) => Promise<ReplyDraft>;
+  compose: (notification: AppNotification, text: string, turn?: number) => ReplyDraft;
+  edit: (text: string) => void;
+  // The user pressed Send.
+  confirm: (draftId?: string) => string;
+  // The assistant heard "send it"; refused unless the user has taken a turn since the draft was shown.
+  confirmSpoken: (draftId: string, turn?: number) => string;
+  discard: () => void;
+}
+
+/**
+ * The single pending reply to a notification. Drafts are only handed to `deliver` through
+ * `confirm` (the UI's Send button) or `confirmSpoken`, which refuses a draft the user has not
+ * had a turn to hear, so drafting and sending in one batch of tool calls cannot skip review.
+ */
+export function useReplyDraft(textModel: TextModel | null, deliver: (draft: ReplyDraft) => string): ReplyDrafts {
+  const [draft, setDraftState] = useState<ReplyDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const draftRef = useRef(draft);
+  const setDraft = (next: ReplyDraft | null) => {
+    draftRef.current = next;
+    setDraftState(next);
+  };
+
+  const suggest = async (notification: AppNotification, thread: Message[] = [], turn?: number) => {
+    setBusy(true);
+    let suggestions: string[];
+    try {
+      suggestions = textModel ? await generateReplies(textModel, notification, thread) : quickReplies(notification);
+    } catch (e) {
+      console.warn('Reply suggestions failed; using quick replies', e);
+      suggestions = quickReplies(notification);
+    } finally {
+      setBusy(false);
+    }
+    const next = createReplyDraft(notification, '', suggestions, turn);
+    setDraft(next);
+    return next;
+  };
+
+  const compose = (notification: AppNotification, text: string, turn?: number) => {
+    const current = draftRef.current;
+    const next = createReplyDraft(notification, text, current?.notificationId === notification.id ? current.suggestions : [], turn);
+    setDraft(next);
+    return next;
+  };
+
+  const confirm = (draftId?: string) => {
+    const current = draftRef.current;
+    if (!current) throw new Error('There is no reply waiting for confirmation.');
+    if (draftId && draftId !== current.id) throw new Error(`Reply ${draftId} is no longer pending; the current draft is ${current.id}.`);
+    if (!current.text) throw new Error('The reply is empty; choose or dictate a reply first.');
+    const result = deliver(current);
+    setDraft(null);
+    return result;
+  };
+
+  return {
+    draft,
+    current: () => draftRef.current,
+    busy,
+    suggest,
+    compose,
+    edit: (text) => draftRef.current && setDraft({ ...draftRef.current, text }),
+    confirm,
+    confirmSpoken: (draftId, turn) => {
+      const current = draftRef.current;
+      if (current && current.id === draftId && current.shownInTurn === turn) {
+        throw new Error('The user has not reviewed this draft yet. Read it back and wait for them to say send, or they can press Send in Notifications.');
+      }
+      return confirm(draftId);
+    },
+    discard: () => setDraft(null)
+  };
+}
@@ -0,0 +1,81 @@
+import { useRef, useState } from 'react';
+import { ToolAuditEntry, ToolPermissions } from '../types.ts';
+import { ToolArgs, ToolGate, ToolRegistry, guardRegistry } from '../tools/registry.ts';
+import { CONFIRM_TIMEOUT_MS, DEFAULT_PERMISSIONS, MAX_AUDIT_ENTRIES, ToolCallContext, checkUrl, createAuditEntry, describeToolCall, policyFor, resolveUrl } from '../services/permissions.ts';
+import { toolAuditSchema, toolPermissionsSchema } from '../services/schemas.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { newId } from '../services/ids.ts';
+
+export interface ToolConfirmation {
+  id: string;
+  tool: string;
+  args: ToolArgs;
+  question: string;
+}
+
+export interface ToolPermissionsState {
+  permissions: ToolPermissions;
+  setPermissions: (permissions: ToolPermissions) => void;
+  audit: ToolAuditEntry[];
+  clearAudit: () => void;
+  // The prompt waiting for an answer; further calls queue behind it.
+  pending: ToolConfirmation | null;
+  answer: (approved: boolean) => void;
+  guard: (registry: ToolRegistry) => ToolRegistry;
+}
+
+/**
+ * The user's tool policy, the confirmation queue it creates and the audit log of every call.
+ * Calls marked 'ask' wait on `pending` until `answer` is called or the prompt times out;
+ * `context` supplies what a prompt needs to show beyond the call's arguments, such as the reply draft.
+ */
+export function useToolPermissions(context: () => ToolCallContext = () => ({})): ToolPermissionsState {
+  const [permissions, setPermissions] = usePersistentState(toolPermissionsSchema, DEFAULT_PERMISSIONS);
+  const [audit, setAudit] = usePersistentState(toolAuditSchema, []);
+  const [queue, setQueue] = useState<ToolConfirmation[]>([]);
+  const resolvers = useRef(new Map<string, (approved: boolean) => void>());
+  // Voice answers arrive from callbacks created renders ago.
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  // Calls can come through a registry guarded renders ago; judge them by the current policy.
+  const permissionsRef = useRef(permissions);
+  permissionsRef.current = permissions;
+  const contextRef = useRef(context);
+  contextRef.current = context;
+
+  const settle = (id: string, approved: boolean) => {
+    const resolve = resolvers.current.get(id);
+    if (!resolve) return;
+    resolvers.current.delete(id);
+    setQueue(prev => prev.filter(c => c.id !== id));
+    resolve(approved);
+  };
+
+  const gate: ToolGate = {
+    policy: (name) => policyFor(permissionsRef.current, name),
+    screen: (name, args) => name === 'open_website' ? checkUrl(resolveUrl(String(args.target)), permissionsRef.current) : null,
+    confirm: (name, args) => new Promise<boolean>((resolve) => {
+      const confirmation = {
+        id: newId('confirm'),
+        tool: name,
+        args,
+        question: describeToolCall(name, args, contextRef.current())
+      };
+      resolvers.current.set(confirmation.id, resolve);
+      setQueue(prev => [...prev, confirmation]);
+      setTimeout(() => settle(confirmation.id, false), CONFIRM_TIMEOUT_MS);
+    }),
+    audit: (name, args, decision, response) =>
+      setAudit(prev => [createAuditEntry(name, args, decision, response), ...prev].slice(0, MAX_AUDIT_ENTRIES))
+  };
+
+  return {
+    permissions,
+    setPermissions,
+    audit,
+    clearAudit: () => setAudit([]),
+    pending: queue[0] ?? null,
+    answer: (approved) => { if (queueRef.current[0]) settle(queueRef.current[0].id, approved); },
+    guard: (registry) => guardRegistry(registry, gate)
+  };
+}
@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+import { VisionMode, VisionSettings } from '../types.ts';
+import { usePersistentState } from './usePersistentState.ts';
+import { visionSettingsSchema } from '../services/schemas.ts';
+import { Camera } from './useCamera.ts';
+import { waitForFrame } from '../services/camera.ts';
+import { DEFAULT_VISION_SETTINGS, InlineImage, encodeImageBlob, encodeVideoFrame, normalizeVisionSettings } from '../services/vision.ts';
+
+export interface Vision {
+  mode: VisionMode;
+  settings: VisionSettings;
+  framesSent: number;
+  error: string | null;
+  setMode: (mode: VisionMode) => void;
+  setSettings: (settings: VisionSettings) => void;
+  // Sends one still image (a vault photo or an uploaded screenshot) as a user turn.
+  sendImage: (blob: Blob, prompt?: string) => Promise<void>;
+}
+
+interface VisionTransport {
+  live: boolean;
+  sendFrame: (image: InlineImage) => void;
+  sendStill: (image: InlineImage, prompt: string) => void;
+}
+
+/** Streams camera frames into the Live session at the configured rate while `mode` is 'camera'. */
+export function useVision(camera: Camera, transport: VisionTransport): Vision {
+  const [settings, setSettingsState] = usePersistentState<VisionSettings>(visionSettingsSchema, DEFAULT_VISION_SETTINGS);
+  const [mode, setMode] = useState<VisionMode>('off');
+  const [framesSent, setFramesSent] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const transportRef = useRef(transport);
+  transportRef.current = transport;
+
+  const streaming = mode === 'camera' && transport.live;
+
+  useEffect(() => {
+    if (mode !== 'camera') return;
+    setError(null);
+    camera.open().catch(e => {
+      setError(e.message);
+      setMode('off');
+    });
+    return () => camera.close();
+  }, [mode]);
+
+  useEffect(() => {
+    if (!streaming) return;
+    let cancelled = false;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    waitForFrame(camera.video).then(() => {
+      if (cancelled) return;
+      timer = setInterval(() => {
+        try {
+          transportRef.current.sendFrame(encodeVideoFrame(camera.video, settings));
+          setFramesSent(n => n + 1);
+        } catch (e: any) {
+          setError(e.message);
+        }
+      }, 1000 / settings.fps);
+    }).catch(e => setError(e.message));
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [streaming, settings.fps, settings.maxWidth, settings.quality]);
+
+  return {
+    mode,
+    settings,
+    framesSent,
+    error,
+    setMode: (next) => {
+      setFramesSent(0);
+      setMode(next);
+    },
+    setSettings: (next) => setSettingsState(normalizeVisionSettings(next)),
+    sendImage: async (blob, prompt = 'Here is an image I want to ask you about. Take a look and wait for my question.') => {
+      if (!transportRef.current.live) throw new Error('Start a Live session first.');
+      setError(null);
+      transportRef.current.sendStill(await encodeImageBlob(blob, settings), prompt);
+      setFramesSent(n => n + 1);
+    }
+  };
+}
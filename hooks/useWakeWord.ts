@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from 'react';
+import { LocalRecognition, installLocalRecognition, listenForWakePhrase, localRecognitionSupport } from '../services/speech.ts';
+
+export interface WakeWord {
+  // null while support is being checked
+  support: LocalRecognition | null;
+  listening: boolean;
+  error: string | null;
+  install: () => Promise<void>;
+}
+
+/**
+ * Runs the on-device wake phrase listener while `enabled`. It never falls back to server-side
+ * recognition: without local support the listener simply doesn't start.
+ */
+export function useWakeWord(enabled: boolean, phrase: string, lang: string, onWake: () => void): WakeWord {
+  const [support, setSupport] = useState<LocalRecognition | null>(null);
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onWakeRef = useRef(onWake);
+  onWakeRef.current = onWake;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSupport(null);
+    localRecognitionSupport(lang).then(s => { if (!cancelled) setSupport(s); });
+    return () => { cancelled = true; };
+  }, [lang]);
+
+  useEffect(() => {
+    if (!enabled || support !== 'available') return;
+    setError(null);
+    setListening(true);
+    const listener = listenForWakePhrase(phrase, lang, () => {
+      setListening(false);
+      onWakeRef.current();
+    }, message => {
+      setListening(false);
+      setError(message);
+    });
+    return () => {
+      listener.stop();
+      setListening(false);
+    };
+  }, [enabled, support, phrase, lang]);
+
+  return {
+    support,
+    listening,
+    error,
+    install: async () => {
+      setError(null);
+      if (await installLocalRecognition(lang)) setSupport('available');
+      else setError('Could not download on-device speech recognition for this language.');
+    }
+  };
+}
@@ -0,0 +1,182 @@
+// The Live API expects 16-bit little-endian mono PCM at this rate.
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Audio is sent in chunks of this length; shorter means lower latency but more messages.
+export const CAPTURE_BATCH_MS = 100;
+// Level reports from the worklet; the UI reads them without re-rendering on every one.
+export const LEVEL_INTERVAL_MS = 50;
+
+export interface AudioLevel {
+  rms: number;
+  peak: number;
+}
+
+export interface AudioCaptureCallbacks {
+  onChunk: (pcm: Int16Array) => void;
+  onLevel?: (level: AudioLevel) => void;
+}
+
+export interface AudioCapture {
+  // Rate the browser actually runs the context at; the worklet resamples from it to 16 kHz.
+  contextRate: number;
+  // Tapped from the same source as the worklet, for visualisers.
+  analyser: AnalyserNode;
+  stop: () => Promise<void>;
+}
+
+/*
+ * Runs on the audio thread. Each 128-frame block is measured for level, resampled to the target
+ * rate by linear interpolation (carrying the fractional read position and last sample across
+ * blocks), clamped to [-1, 1], converted to Int16 and batched. Buffers are transferred, not copied.
+ */
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, batchSamples, levelIntervalMs } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    this.position = 0;
+    this.last = 0;
+    this.batch = new Int16Array(batchSamples);
+    this.filled = 0;
+    this.levelEvery = Math.max(128, Math.round(sampleRate * levelIntervalMs / 1000));
+    this.levelFrames = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+  }
+
+  push(sample) {
+    const s = sample > 1 ? 1 : sample < -1 ? -1 : sample;
+    this.batch[this.filled++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.filled === this.batch.length) this.flush();
+  }
+
+  flush() {
+    if (!this.filled) return;
+    const chunk = this.batch.slice(0, this.filled);
+    this.filled = 0;
+    this.port.postMessage({ type: 'pcm', pcm: chunk }, [chunk.buffer]);
+  }
+
+  measure(input) {
+    for (let i = 0; i < input.length; i++) {
+      const v = input[i];
+      this.sumSquares += v * v;
+      const a = v < 0 ? -v : v;
+      if (a > this.peak) this.peak = a;
+    }
+    this.levelFrames += input.length;
+    if (this.levelFrames < this.levelEvery) return;
+    this.port.postMessage({ type: 'level', rms: Math.sqrt(this.sumSquares / this.levelFrames), peak: this.peak });
+    this.levelFrames = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input || !input.length) return true;
+    this.measure(input);
+    if (this.step === 1) {
+      for (let i = 0; i < input.length; i++) this.push(input[i]);
+      return true;
+    }
+    // Position -1 refers to the last sample of the previous block.
+    let p = this.position;
+    while (p < input.length - 1) {
+      const i = Math.floor(p);
+      const a = i < 0 ? this.last : input[i];
+      const b = input[i + 1];
+      this.push(a + (b - a) * (p - i));
+      p += this.step;
+    }
+    this.position = p - input.length;
+    this.last = input[input.length - 1];
+    return true;
+  }
+}
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+const createContext = (): AudioContext => {
+  const AudioCtx = window.AudioContext || (window as any).webkitAudioContext;
+  try {
+    return new AudioCtx({ sampleRate: CAPTURE_SAMPLE_RATE });
+  } catch {
+    // Some browsers refuse non-native rates outright; the worklet resamples instead.
+    return new AudioCtx();
+  }
+};
+
+/**
+ * Streams a microphone track as 16 kHz Int16 chunks through an AudioWorklet. Firefox cannot
+ * connect a mic stream to a context running at a different rate, so that case retries at the
+ * device's native rate and lets the worklet do the conversion.
+ */
+export const startAudioCapture = async (stream: MediaStream, callbacks: AudioCaptureCallbacks): Promise<AudioCapture> => {
+  let ctx = createContext();
+  if (!ctx.audioWorklet) {
+    await ctx.close();
+    throw new Error('This browser cannot capture audio with an AudioWorklet.');
+  }
+  let source: MediaStreamAudioSourceNode;
+  try {
+    source = ctx.createMediaStreamSource(stream);
+  } catch {
+    await ctx.close();
+    ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    source = ctx.createMediaStreamSource(stream);
+  }
+  await ctx.resume();
+
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const worklet = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: {
+      targetRate: CAPTURE_SAMPLE_RATE,
+      batchSamples: Math.round(CAPTURE_SAMPLE_RATE * CAPTURE_BATCH_MS / 1000),
+      levelIntervalMs: LEVEL_INTERVAL_MS
+    }
+  });
+  worklet.port.onmessage = (e: MessageEvent) => {
+    if (e.data.type === 'pcm') callbacks.onChunk(e.data.pcm as Int16Array);
+    else if (e.data.type === 'level') callbacks.onLevel?.({ rms: e.data.rms, peak: e.data.peak });
+  };
+
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 256;
+  analyser.smoothingTimeConstant = 0.7;
+  source.connect(worklet);
+  source.connect(analyser);
+  // The worklet writes nothing to its output; connecting it just keeps every browser pulling it.
+  worklet.connect(ctx.destination);
+
+  return {
+    contextRate: ctx.sampleRate,
+    analyser,
+    stop: async () => {
+      source.disconnect();
+      worklet.port.onmessage = null;
+      await ctx.close().catch(() => {});
+    }
+  };
+};
+
+/** Base64 without a per-byte string concatenation; chunked so `apply` stays under argument limits. */
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000) as unknown as number[]);
+  }
+  return btoa(binary);
+};
+
+export const pcmToBase64 = (pcm: Int16Array) => encodeBase64(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength));
@@ -0,0 +1,57 @@
+import { requestToPromise } from './storage.ts';
+
+/** Binary payloads (audio files, photos) kept apart from the JSON collections so those stay small. */
+export interface BlobStore {
+  name: 'indexeddb' | 'memory';
+  put: (key: string, blob: Blob) => Promise<void>;
+  get: (key: string) => Promise<Blob | undefined>;
+  remove: (key: string) => Promise<void>;
+}
+
+const DB_NAME = 'v1-assistant-blobs';
+const STORE_NAME = 'blobs';
+
+export const createIndexedDbBlobStore = async (dbName = DB_NAME): Promise<BlobStore> => {
+  const open = indexedDB.open(dbName, 1);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(STORE_NAME)) open.result.createObjectStore(STORE_NAME);
+  };
+  const db = await requestToPromise(open);
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    name: 'indexeddb',
+    put: async (key, blob) => { await requestToPromise(store('readwrite').put(blob, key)); },
+    get: async (key) => (await requestToPromise(store('readonly').get(key))) as Blob | undefined,
+    remove: async (key) => { await requestToPromise(store('readwrite').delete(key)); }
+  };
+};
+
+export const createMemoryBlobStore = (): BlobStore => {
+  const blobs = new Map<string, Blob>();
+  return {
+    name: 'memory',
+    put: async (key, blob) => { blobs.set(key, blob); },
+    get: async (key) => blobs.get(key),
+    remove: async (key) => { blobs.delete(key); }
+  };
+};
+
+let storePromise: Promise<BlobStore> | null = null;
+
+// localStorage cannot hold binary data, so without IndexedDB blobs only last for the session.
+export const getBlobStore = (): Promise<BlobStore> => {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          return await createIndexedDbBlobStore();
+        } catch (e) {
+          console.warn('IndexedDB unavailable, blobs will not survive a reload', e);
+        }
+      }
+      return createMemoryBlobStore();
+    })();
+  }
+  return storePromise;
+};
@@ -0,0 +1,86 @@
+import { CallEndReason, Contact } from '../types.ts';
+import { newId } from './ids.ts';
+
+export type CallProviderEvent =
+  | { type: 'incoming'; callId: string; contactId: string }
+  | { type: 'ringing'; callId: string }
+  | { type: 'connected'; callId: string }
+  | { type: 'ended'; callId: string; reason: CallEndReason };
+
+/**
+ * Transport behind the call screen. The app drives calls through these methods and learns about
+ * progress only through events, so a WebRTC or SIP implementation can replace the simulator.
+ */
+export interface CallProvider {
+  readonly name: string;
+  dial: (callId: string, contact: Contact) => void;
+  answer: (callId: string) => void;
+  reject: (callId: string) => void;
+  hangUp: (callId: string) => void;
+  subscribe: (listener: (event: CallProviderEvent) => void) => () => void;
+}
+
+export interface SimulatedCallOptions {
+  ringMs?: number;
+  // Chance that an outgoing call is picked up; the rest are split between busy and no answer.
+  answerRate?: number;
+  incomingTimeoutMs?: number;
+  random?: () => number;
+}
+
+export interface SimulatedCallProvider extends CallProvider {
+  simulateIncoming: (contact: Contact) => string;
+}
+
+/** Offline provider: outgoing calls ring and then connect or fail at random; incoming calls are triggered by hand. */
+export const createSimulatedCallProvider = (options: SimulatedCallOptions = {}): SimulatedCallProvider => {
+  const { ringMs = 2500, answerRate = 0.8, incomingTimeoutMs = 20000, random = Math.random } = options;
+  const listeners = new Set<(event: CallProviderEvent) => void>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const emit = (event: CallProviderEvent) => listeners.forEach(l => l(event));
+  const clear = (callId: string) => {
+    clearTimeout(timers.get(callId));
+    timers.delete(callId);
+  };
+  const later = (callId: string, ms: number, fn: () => void) => {
+    clear(callId);
+    timers.set(callId, setTimeout(() => { timers.delete(callId); fn(); }, ms));
+  };
+
+  return {
+    name: 'simulated',
+    dial: (callId) => {
+      later(callId, 300, () => {
+        emit({ type: 'ringing', callId });
+        later(callId, ringMs, () => {
+          const roll = random();
+          if (roll < answerRate) emit({ type: 'connected', callId });
+          else emit({ type: 'ended', callId, reason: roll < answerRate + (1 - answerRate) / 2 ? 'busy' : 'no_answer' });
+        });
+      });
+    },
+    answer: (callId) => {
+      clear(callId);
+      emit({ type: 'connected', callId });
+    },
+    reject: (callId) => {
+      clear(callId);
+      emit({ type: 'ended', callId, reason: 'declined' });
+    },
+    hangUp: (callId) => {
+      clear(callId);
+      emit({ type: 'ended', callId, reason: 'hangup' });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    simulateIncoming: (contact) => {
+      const callId = newId('call');
+      emit({ type: 'incoming', callId, contactId: contact.id });
+      later(callId, incomingTimeoutMs, () => emit({ type: 'ended', callId, reason: 'no_answer' }));
+      return callId;
+    }
+  };
+};
@@ -0,0 +1,86 @@
+import { CaptureKind, MediaCapture } from '../types.ts';
+import { newId } from './ids.ts';
+
+export const MAX_VIDEO_SECONDS = 30;
+
+export const openCameraStream = (withAudio = false): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getUserMedia) return Promise.reject(new Error('This browser has no camera access.'));
+  return navigator.mediaDevices.getUserMedia({
+    video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } },
+    audio: withAudio
+  }).catch((e: DOMException) => {
+    if (e.name === 'NotAllowedError') throw new Error('Camera permission was denied.');
+    if (e.name === 'NotFoundError') throw new Error('No camera was found.');
+    throw e;
+  });
+};
+
+export const stopStream = (stream: MediaStream | null) => stream?.getTracks().forEach(t => t.stop());
+
+// Resolves once the element has a frame to draw; freshly attached streams start at 0×0.
+export const waitForFrame = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+  if (video.videoWidth) return resolve();
+  const timer = setTimeout(() => reject(new Error('The camera did not start in time.')), 5000);
+  video.addEventListener('loadeddata', () => { clearTimeout(timer); resolve(); }, { once: true });
+});
+
+export const grabFrame = (video: HTMLVideoElement, type = 'image/jpeg', quality = 0.9) => new Promise<{ blob: Blob; width: number; height: number }>((resolve, reject) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return reject(new Error('Canvas is unavailable.'));
+  ctx.drawImage(video, 0, 0);
+  canvas.toBlob(blob => blob ? resolve({ blob, width: canvas.width, height: canvas.height }) : reject(new Error('Could not encode the photo.')), type, quality);
+});
+
+const RECORDER_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export const recorderMimeType = () =>
+  typeof MediaRecorder === 'undefined' ? null : RECORDER_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? null;
+
+export interface Recording {
+  stop: () => Promise<Blob>;
+}
+
+/** Records the stream until `stop` is called or `maxSeconds` pass, whichever comes first. */
+export const startRecording = (stream: MediaStream, maxSeconds = MAX_VIDEO_SECONDS, onAutoStop?: () => void): Recording => {
+  const mimeType = recorderMimeType();
+  if (!mimeType) throw new Error('Video recording is not supported in this browser.');
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  const finished = new Promise<Blob>(resolve => {
+    recorder.ondataavailable = e => e.data.size && chunks.push(e.data);
+    recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+  });
+  recorder.start(1000);
+  const timer = setTimeout(() => {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      onAutoStop?.();
+    }
+  }, maxSeconds * 1000);
+  return {
+    stop: () => {
+      clearTimeout(timer);
+      if (recorder.state !== 'inactive') recorder.stop();
+      return finished;
+    }
+  };
+};
+
+export const createCapture = (kind: CaptureKind, blob: Blob, size: { width: number; height: number }, extra: Partial<MediaCapture> = {}): MediaCapture => ({
+  id: newId('capture'),
+  kind,
+  mimeType: blob.type,
+  width: size.width,
+  height: size.height,
+  favourite: false,
+  createdAt: new Date().toISOString(),
+  ...extra
+});
+
+export const describeCapture = (c: MediaCapture) => {
+  const when = new Date(c.createdAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  return `${c.kind === 'photo' ? 'Photo' : `Video (${c.durationSec ?? 0}s)`} taken ${when}${c.caption ? `: ${c.caption}` : ''}`;
+};
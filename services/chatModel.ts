@@ -0,0 +1,56 @@
+import { Content, GoogleGenAI, Part } from '@google/genai';
+import { ToolRegistry } from '../tools/registry.ts';
+import { DEFAULT_TEXT_MODEL } from './textModel.ts';
+import { toolCallRecord } from './conversation.ts';
+import { ToolCallRecord } from '../types.ts';
+
+// Guards against a model that keeps calling tools without ever answering.
+const MAX_TOOL_ROUNDS = 6;
+
+export interface ChatRequest {
+  contents: Content[];
+  systemInstruction: string;
+  tools: ToolRegistry;
+}
+
+export interface ChatReply {
+  text: string;
+  toolCalls: ToolCallRecord[];
+}
+
+/** Text counterpart of the Live session: same tools, answered by a regular generateContent loop. */
+export interface ChatModel {
+  send: (request: ChatRequest) => Promise<ChatReply>;
+}
+
+export const createGeminiChatModel = (apiKey: string, model = DEFAULT_TEXT_MODEL): ChatModel => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    send: async ({ contents, systemInstruction, tools }) => {
+      const history = [...contents];
+      const toolCalls: ToolCallRecord[] = [];
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const response = await ai.models.generateContent({
+          model,
+          contents: history,
+          config: { systemInstruction, tools: [{ functionDeclarations: tools.declarations() }] }
+        });
+        const calls = response.functionCalls ?? [];
+        if (!calls.length) {
+          const text = response.text?.trim();
+          if (!text) throw new Error('The model returned an empty response');
+          return { text, toolCalls };
+        }
+        history.push(response.candidates?.[0]?.content ?? { role: 'model', parts: calls.map(functionCall => ({ functionCall })) });
+        const parts: Part[] = [];
+        for (const call of calls) {
+          const result = await tools.execute(call.name ?? '', call.args ?? {});
+          toolCalls.push(toolCallRecord(call.name ?? 'unknown', call.args ?? {}, result));
+          parts.push({ functionResponse: { id: call.id, name: call.name, response: result as Record<string, unknown> } });
+        }
+        history.push({ role: 'user', parts });
+      }
+      throw new Error('Gave up after too many tool calls without an answer');
+    }
+  };
+};
@@ -0,0 +1,86 @@
+import { Contact, ContactDisambiguation, Message } from '../types.ts';
+import { newId } from './ids.ts';
+
+export type ContactResolution =
+  | { status: 'found'; contact: Contact }
+  | { status: 'ambiguous'; candidates: Contact[] }
+  | { status: 'not_found' };
+
+const normalize = (s: string) => s.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const levenshtein = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+};
+
+// 1 for an exact match down to 0; each query word is matched against the closest name word so
+// "text Alice" matches "Alice Thompson" and "Alise" still finds "Alice".
+export const matchScore = (contact: Contact, query: string): number => {
+  const name = normalize(contact.name);
+  const q = normalize(query);
+  if (!q) return 0;
+  if (name === q) return 1;
+  const nameWords = name.split(' ');
+  const queryWords = q.split(' ');
+  const wordScores = queryWords.map(qw => Math.max(...nameWords.map(nw => {
+    if (nw === qw) return 1;
+    if (nw.startsWith(qw) && qw.length >= 2) return 0.85;
+    const distance = levenshtein(qw, nw);
+    return distance <= Math.max(1, Math.floor(nw.length / 4)) ? 0.7 - distance * 0.1 : 0;
+  })));
+  if (wordScores.some(s => s === 0)) return 0;
+  return 0.9 * wordScores.reduce((a, b) => a + b, 0) / wordScores.length;
+};
+
+export const searchContacts = (contacts: Contact[], query: string) => contacts
+  .map(contact => ({ contact, score: matchScore(contact, query) }))
+  .filter(m => m.score > 0)
+  .sort((a, b) => b.score - a.score);
+
+/** Resolves a spoken name (or contact id / phone number) to one contact, or reports every equally good candidate. */
+export const resolveContact = (contacts: Contact[], query: string): ContactResolution => {
+  const direct = contacts.find(c => c.id === query || (c.phone && c.phone.replace(/\D/g, '') === query.replace(/\D/g, '') && /\d{3}/.test(query)));
+  if (direct) return { status: 'found', contact: direct };
+  const matches = searchContacts(contacts, query);
+  if (!matches.length) return { status: 'not_found' };
+  const best = matches[0].score;
+  const top = matches.filter(m => best - m.score < 0.05).map(m => m.contact);
+  return top.length === 1 ? { status: 'found', contact: top[0] } : { status: 'ambiguous', candidates: top };
+};
+
+export const initials = (name: string) => name.split(/\s+/).filter(Boolean).slice(0, 2).map(w => w[0].toUpperCase()).join('');
+
+export const createContact = (name: string, phone = ''): Contact => ({
+  id: newId('contact'),
+  name: name.trim(),
+  phone: phone.trim(),
+  avatar: initials(name)
+});
+
+export const threadFor = (messages: Message[], contactId: string) => messages.filter(m => m.contactId === contactId);
+
+export const unreadCount = (messages: Message[], contactId: string) =>
+  messages.filter(m => m.contactId === contactId && m.incoming && !m.read).length;
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60).toString().padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+export const formatTime = (date = new Date()) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const toDisambiguation = (query: string, resolution: Exclude<ContactResolution, { status: 'found' }>): ContactDisambiguation =>
+  resolution.status === 'ambiguous'
+    ? {
+      status: 'ambiguous',
+      question: `Which ${query}? ${resolution.candidates.map(c => c.name).join(' or ')}? Ask the user, then call again with the contact id.`,
+      candidates: resolution.candidates.map(({ id, name, phone }) => ({ id, name, phone }))
+    }
+    : { status: 'not_found', question: `There is no contact called '${query}'. Ask the user who they meant or offer to add them.`, candidates: [] };
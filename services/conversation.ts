@@ -0,0 +1,88 @@
+import { Content } from '@google/genai';
+import { ConversationSession, ConversationTurn, ToolCallRecord, TurnChannel, TurnRole } from '../types.ts';
+import { ToolArgs, ToolResponse } from '../tools/registry.ts';
+import { SearchIndex, createSearchIndex } from './search.ts';
+import { newId } from './ids.ts';
+
+// Appended to whichever persona is selected; describes how the app works rather than how V1 sounds.
+export const ASSISTANT_GUIDANCE = 'The user may show you camera frames or an image; answer from what you see, and offer to save worked answers with add_note. '
+  + 'The user switches between speaking and typing; treat it as one conversation. Typed replies may use Markdown.';
+
+// How many earlier turns are replayed when a voice session starts or a chat request is made.
+export const CONTEXT_TURNS = 30;
+
+export const createTurn = (role: TurnRole, channel: TurnChannel, text: string, tools?: ToolCallRecord[]): ConversationTurn => ({
+  id: newId('turn'),
+  role,
+  channel,
+  text: text.trim(),
+  at: new Date().toISOString(),
+  ...(tools?.length ? { tools } : {})
+});
+
+/** Turns as Gemini contents, merging consecutive turns by the same speaker (the API expects alternation). */
+export const toContents = (turns: ConversationTurn[], limit = CONTEXT_TURNS): Content[] => {
+  const contents: Content[] = [];
+  for (const turn of turns.slice(-limit)) {
+    if (!turn.text) continue;
+    const role = turn.role === 'user' ? 'user' : 'model';
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts!.push({ text: turn.text });
+    else contents.push({ role, parts: [{ text: turn.text }] });
+  }
+  // A request must not open with a model turn.
+  while (contents[0]?.role === 'model') contents.shift();
+  return contents;
+};
+
+export const toolCallRecord = (name: string, args: ToolArgs, response: ToolResponse): ToolCallRecord =>
+  'error' in response
+    ? { name, args, error: `${response.error.code}: ${response.error.message}` }
+    : { name, args, result: response.result };
+
+export const createSession = (contextFrom?: string): ConversationSession => {
+  const now = new Date().toISOString();
+  return {
+    id: newId('session'),
+    startedAt: now,
+    updatedAt: now,
+    turns: [],
+    ...(contextFrom ? { contextFrom } : {})
+  };
+};
+
+/** The first thing the user said, which is what people remember a session by. */
+export const sessionTitle = (session: ConversationSession): string => {
+  const opener = session.turns.find(t => t.role === 'user')?.text ?? session.turns[0]?.text ?? 'Empty session';
+  return opener.length > 60 ? `${opener.slice(0, 57)}...` : opener;
+};
+
+export const sessionToolCalls = (session: ConversationSession): ToolCallRecord[] =>
+  session.turns.flatMap(t => t.tools ?? []);
+
+export const buildSessionIndex = (sessions: ConversationSession[]): SearchIndex => createSearchIndex(sessions, s => s.id, s => [
+  { text: s.turns.filter(t => t.role === 'user').map(t => t.text).join(' '), weight: 2 },
+  { text: s.turns.filter(t => t.role === 'assistant').map(t => t.text).join(' '), weight: 1 },
+  { text: sessionToolCalls(s).map(c => c.name.replace(/_/g, ' ')).join(' '), weight: 1.5 }
+]);
+
+export const searchSessions = (sessions: ConversationSession[], index: SearchIndex, query: string): ConversationSession[] => {
+  if (!query.trim()) return [...sessions].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const byId = new Map(sessions.map(s => [s.id, s]));
+  return index.search(query, sessions.length).map(hit => byId.get(hit.id)!).filter(Boolean);
+};
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value ?? null, null, 2);
+
+export const exportSession = (session: ConversationSession, format: 'md' | 'json'): string => {
+  if (format === 'json') return JSON.stringify(session, null, 2);
+  const lines = [`# ${sessionTitle(session)}`, '', `Started ${new Date(session.startedAt).toLocaleString()}, last turn ${new Date(session.updatedAt).toLocaleString()}.`];
+  for (const turn of session.turns) {
+    lines.push('', `## ${turn.role === 'user' ? 'User' : 'V1'} (${turn.channel}, ${new Date(turn.at).toLocaleTimeString()})`, '', turn.text);
+    for (const call of turn.tools ?? []) {
+      lines.push('', `- Tool \`${call.name}\` with \`${JSON.stringify(call.args)}\``);
+      lines.push(call.error ? `  - Error: ${call.error}` : `  - Result: ${formatValue(call.result).replace(/\n/g, '\n    ')}`);
+    }
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { AppNotification } from '../types.ts';
+import { DEFAULT_FOCUS_CONFIG, IDLE_FOCUS_STATE, pauseFocus, startFocus } from './focusTimer.ts';
+
+const start = new Date('2026-03-10T09:00:00.000Z');
+const minutesLater = (minutes: number) => new Date(start.getTime() + minutes * 60000);
+const held: AppNotification = { id: 'n1', app: 'Slack', sender: 'Dev Team', content: 'Standup?', receivedAt: start.toISOString(), status: 'unread', sourceId: 'mock' };
+
+describe('startFocus', () => {
+  it('starts a work phase from idle with nothing to log or release', () => {
+    const { state, log, released } = startFocus(IDLE_FOCUS_STATE, DEFAULT_FOCUS_CONFIG, { minutes: 30, taskId: 't1' }, start);
+    expect(state).toMatchObject({ phase: 'work', taskId: 't1', plannedMinutes: 30, endsAt: minutesLater(30).toISOString(), held: [] });
+    expect(log).toBeUndefined();
+    expect(released).toEqual([]);
+  });
+
+  it('stops a running session first, logging it and releasing what it held', () => {
+    const running = { ...startFocus(IDLE_FOCUS_STATE, DEFAULT_FOCUS_CONFIG, { taskId: 't1' }, start).state, held: [held] };
+    const { state, log, released } = startFocus(running, DEFAULT_FOCUS_CONFIG, { minutes: 50 }, minutesLater(10));
+    expect(log).toMatchObject({ taskId: 't1', focusedMinutes: 10, plannedMinutes: 25, completed: false });
+    expect(released).toEqual([held]);
+    expect(state).toMatchObject({ phase: 'work', plannedMinutes: 50, held: [] });
+    expect(state.taskId).toBeUndefined();
+  });
+
+  it('logs a paused session by the time it had run', () => {
+    const paused = pauseFocus(startFocus(IDLE_FOCUS_STATE, DEFAULT_FOCUS_CONFIG, {}, start).state, minutesLater(5));
+    expect(startFocus(paused, DEFAULT_FOCUS_CONFIG, {}, minutesLater(60)).log?.focusedMinutes).toBe(5);
+  });
+
+  it('keeps the completed count when replacing a break', () => {
+    const onBreak = { ...IDLE_FOCUS_STATE, phase: 'shortBreak' as const, completedWorkSessions: 2, startedAt: start.toISOString(), endsAt: minutesLater(5).toISOString() };
+    const { state, log } = startFocus(onBreak, DEFAULT_FOCUS_CONFIG, {}, minutesLater(1));
+    expect(log).toBeUndefined();
+    expect(state).toMatchObject({ phase: 'work', completedWorkSessions: 2 });
+  });
+
+  it.each([0, 241])('refuses %d minutes', minutes => {
+    expect(() => startFocus(IDLE_FOCUS_STATE, DEFAULT_FOCUS_CONFIG, { minutes }, start)).toThrow('Focus sessions must be between 1 and 240 minutes.');
+  });
+});
@@ -0,0 +1,97 @@
+import { FocusConfig, FocusPhase, FocusSessionLog, FocusState } from '../types.ts';
+
+export const DEFAULT_FOCUS_CONFIG: FocusConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4
+};
+
+export const IDLE_FOCUS_STATE: FocusState = { phase: null, plannedMinutes: 0, completedWorkSessions: 0, held: [] };
+
+const MINUTE_MS = 60 * 1000;
+
+export const phaseLabel: Record<FocusPhase, string> = {
+  work: 'Focus',
+  shortBreak: 'Short Break',
+  longBreak: 'Long Break'
+};
+
+export const isRunning = (state: FocusState) => !!state.phase && !!state.endsAt;
+export const isPaused = (state: FocusState) => !!state.phase && state.remainingMs !== undefined;
+
+export const remainingMs = (state: FocusState, now = new Date()): number => {
+  if (!state.phase) return 0;
+  if (state.remainingMs !== undefined) return state.remainingMs;
+  return Math.max(0, Date.parse(state.endsAt!) - now.getTime());
+};
+
+export const formatRemaining = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60).toString().padStart(2, '0')}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+const startPhase = (state: FocusState, phase: FocusPhase, minutes: number, now: Date): FocusState => ({
+  ...state,
+  phase,
+  plannedMinutes: minutes,
+  startedAt: now.toISOString(),
+  endsAt: new Date(now.getTime() + minutes * MINUTE_MS).toISOString(),
+  remainingMs: undefined
+});
+
+const workLog = (state: FocusState, now: Date, completed: boolean): FocusSessionLog => ({
+  id: `focus-${Date.parse(state.startedAt!)}`,
+  taskId: state.taskId,
+  startedAt: state.startedAt!,
+  endedAt: now.toISOString(),
+  plannedMinutes: state.plannedMinutes,
+  focusedMinutes: Math.round((state.plannedMinutes * MINUTE_MS - remainingMs(state, now)) / MINUTE_MS),
+  completed
+});
+
+export const pauseFocus = (state: FocusState, now = new Date()): FocusState => {
+  if (!isRunning(state)) throw new Error('No running focus session to pause.');
+  return { ...state, remainingMs: remainingMs(state, now), endsAt: undefined };
+};
+
+export const resumeFocus = (state: FocusState, now = new Date()): FocusState => {
+  if (!isPaused(state)) throw new Error('No paused focus session to resume.');
+  return { ...state, endsAt: new Date(now.getTime() + state.remainingMs!).toISOString(), remainingMs: undefined };
+};
+
+export interface FocusTransition {
+  state: FocusState;
+  log?: FocusSessionLog;
+  released: FocusState['held'];
+}
+
+/** Moves to the next phase: work rolls into a short or long break, a break ends the cycle. */
+export const completePhase = (state: FocusState, config: FocusConfig, now = new Date()): FocusTransition => {
+  if (state.phase !== 'work') {
+    return { state: { ...IDLE_FOCUS_STATE, completedWorkSessions: state.completedWorkSessions }, released: [] };
+  }
+  const completedWorkSessions = state.completedWorkSessions + 1;
+  const long = completedWorkSessions % config.longBreakEvery === 0;
+  const next = startPhase(
+    { ...state, completedWorkSessions, held: [] },
+    long ? 'longBreak' : 'shortBreak',
+    long ? config.longBreakMinutes : config.shortBreakMinutes,
+    now
+  );
+  return { state: next, log: workLog(state, now, true), released: state.held };
+};
+
+export const stopFocus = (state: FocusState, now = new Date()): FocusTransition => ({
+  state: { ...IDLE_FOCUS_STATE, completedWorkSessions: state.completedWorkSessions },
+  log: state.phase === 'work' ? workLog(state, now, false) : undefined,
+  released: state.held
+});
+
+/** Starts a work phase. A session already running is stopped first, so it is logged and its held notifications released. */
+export const startFocus = (state: FocusState, config: FocusConfig, options: { minutes?: number; taskId?: string } = {}, now = new Date()): FocusTransition => {
+  const minutes = options.minutes ?? config.workMinutes;
+  if (!(minutes > 0 && minutes <= 240)) throw new Error('Focus sessions must be between 1 and 240 minutes.');
+  const stopped = stopFocus(state, now);
+  return { ...stopped, state: startPhase({ ...stopped.state, taskId: options.taskId }, 'work', minutes, now) };
+};
@@ -0,0 +1,2 @@
+/** 'note-1760900000000-k3j9x2': creation time plus a random suffix, so records made in the same millisecond still differ. */
+export const newId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ToolResponse } from '../tools/registry.ts';
+import { Intent, describeToolResponse, normalizeCommand, parseIntent, parseNumber } from './intents.ts';
+
+const cases: [string, Intent][] = [
+  ['help', { intent: 'help', tool: null, args: {} }],
+  ['what can I say', { intent: 'help', tool: null, args: {} }],
+  ['what time is it', { intent: 'time', tool: 'get_current_time', args: {} }],
+
+  ['Add study task Review chapter 3 due tomorrow', { intent: 'add_task', tool: 'add_task', args: { text: 'Review chapter 3', category: 'study', due_date: 'tomorrow' } }],
+  ['add a high priority work task: send the report by 2026-03-01', { intent: 'add_task', tool: 'add_task', args: { text: 'send the report', priority: 'high', category: 'work', due_date: '2026-03-01' } }],
+  ['new todo buy milk', { intent: 'add_task', tool: 'add_task', args: { text: 'buy milk' } }],
+  ['remind me to call Mum tomorrow', { intent: 'add_task', tool: 'add_task', args: { text: 'call Mum', due_date: 'tomorrow' } }],
+  ['finish the task essay draft', { intent: 'complete_task', tool: 'complete_task', args: { task: 'essay draft' } }],
+  ['mark review chapter 3 as done', { intent: 'complete_task', tool: 'complete_task', args: { task: 'review chapter 3' } }],
+  ['delete task buy milk', { intent: 'delete_task', tool: 'delete_task', args: { task: 'buy milk' } }],
+  ['show my work tasks', { intent: 'list_tasks', tool: 'list_tasks', args: { category: 'work' } }],
+  ["what's on my list", { intent: 'list_tasks', tool: 'list_tasks', args: {} }],
+
+  ['pause music', { intent: 'media_pause', tool: 'control_multimedia', args: { action: 'pause' } }],
+  ['resume the music', { intent: 'media_play', tool: 'control_multimedia', args: { action: 'play' } }],
+  ['play', { intent: 'media_play', tool: 'control_multimedia', args: { action: 'play' } }],
+  ['skip this song', { intent: 'media_next', tool: 'control_multimedia', args: { action: 'next' } }],
+  ['previous track', { intent: 'media_previous', tool: 'control_multimedia', args: { action: 'previous' } }],
+  ["what's playing", { intent: 'media_status', tool: 'control_multimedia', args: { action: 'status' } }],
+  ['volume 40 percent', { intent: 'media_volume', tool: 'control_multimedia', args: { action: 'volume', volume: 40 } }],
+  ['set the volume to forty-five', { intent: 'media_volume', tool: 'control_multimedia', args: { action: 'volume', volume: 45 } }],
+  ['volume 250', { intent: 'media_volume', tool: 'control_multimedia', args: { action: 'volume', volume: 100 } }],
+  ['turn on shuffle', { intent: 'media_shuffle', tool: 'control_multimedia', args: { action: 'shuffle', enabled: true } }],
+  ['shuffle off', { intent: 'media_shuffle', tool: 'control_multimedia', args: { action: 'shuffle', enabled: false } }],
+  ['play something by Daft Punk', { intent: 'media_play', tool: 'control_multimedia', args: { action: 'play', artist: 'Daft Punk' } }],
+  ['play my playlist Focus Mix', { intent: 'media_play', tool: 'control_multimedia', args: { action: 'play', playlist: 'Focus Mix' } }],
+  ['play Around the World by Daft Punk', { intent: 'media_play', tool: 'control_multimedia', args: { action: 'play', query: 'Around the World', artist: 'Daft Punk' } }],
+
+  ['start a 25 minute focus', { intent: 'start_focus', tool: 'start_focus', args: { minutes: 25 } }],
+  ['start a twenty-five minute pomodoro on essay', { intent: 'start_focus', tool: 'start_focus', args: { minutes: 25, task: 'essay' } }],
+  ['start focus', { intent: 'start_focus', tool: 'start_focus', args: {} }],
+  ['pause the timer', { intent: 'pause_focus', tool: 'pause_focus', args: {} }],
+  ['resume focus', { intent: 'resume_focus', tool: 'resume_focus', args: {} }],
+  ['stop the focus session', { intent: 'stop_focus', tool: 'stop_focus', args: {} }],
+  ['how much time is left', { intent: 'focus_status', tool: 'get_focus_status', args: {} }],
+
+  ['remember that my exam is on the 12th', { intent: 'remember', tool: 'remember', args: { fact: 'my exam is on the 12th' } }],
+  ['what do you know about my exam', { intent: 'recall', tool: 'recall', args: { query: 'my exam' } }],
+  ['what do you remember', { intent: 'recall', tool: 'recall', args: {} }],
+  ['forget about my exam', { intent: 'forget', tool: 'forget', args: { memory: 'my exam' } }],
+
+  ['take a note: buy eggs and flour for the cake tonight', { intent: 'add_note', tool: 'add_note', args: { title: 'buy eggs and flour for the', content: 'buy eggs and flour for the cake tonight' } }],
+  ['search notes for biology', { intent: 'search_notes', tool: 'search_notes', args: { query: 'biology' } }],
+  ['read the note called Lab Report', { intent: 'read_note', tool: 'read_note', args: { note: 'Lab Report' } }],
+
+  ['send a message to Alice saying running late', { intent: 'send_message', tool: 'send_message', args: { recipient: 'Alice', text: 'running late' } }],
+  ['read messages from Bob', { intent: 'read_messages', tool: 'read_messages', args: { contact: 'Bob' } }],
+  ['answer the call', { intent: 'answer_call', tool: 'answer_call', args: {} }],
+  ['hang up', { intent: 'end_call', tool: 'end_call', args: {} }],
+  ['call Alice', { intent: 'place_call', tool: 'place_call', args: { contact: 'Alice' } }],
+
+  ['turn on do not disturb', { intent: 'do_not_disturb', tool: 'set_do_not_disturb', args: { enabled: true } }],
+  ['do not disturb off', { intent: 'do_not_disturb', tool: 'set_do_not_disturb', args: { enabled: false } }],
+  ['check my notifications', { intent: 'notifications', tool: 'get_notifications', args: {} }],
+  ['open youtube', { intent: 'open_website', tool: 'open_website', args: { target: 'youtube' } }]
+];
+
+describe('parseIntent', () => {
+  it.each(cases)('%s', (text, expected) => {
+    expect(parseIntent(text)).toEqual(expected);
+  });
+
+  it.each([
+    ['Hey V1, please pause music.', 'media_pause'],
+    ['could you call Alice please', 'place_call'],
+    ['OK v1 what time is it?', 'time']
+  ])('ignores filler in %s', (text, intent) => {
+    expect(parseIntent(text)?.intent).toBe(intent);
+  });
+
+  it.each(['', '   ', 'blah blah', 'Thanks', 'how are you today', 'start a lots minute focus', 'volume loud'])('returns null for %j', text => {
+    expect(parseIntent(text)).toBeNull();
+  });
+});
+
+describe('parseNumber', () => {
+  it.each([
+    ['25', 25],
+    ['twelve', 12],
+    ['forty', 40],
+    ['forty-five', 45],
+    ['twenty five', 25],
+    ['a hundred', 100]
+  ])('%s -> %d', (text, value) => {
+    expect(parseNumber(text)).toBe(value);
+  });
+
+  it.each(['twenty twelve', 'lots', 'one two three', ''])('rejects %j', text => {
+    expect(parseNumber(text)).toBeUndefined();
+  });
+});
+
+describe('normalizeCommand', () => {
+  it('strips the wake word, politeness and end punctuation', () => {
+    expect(normalizeCommand('  Hey V1,  can you   pause music thanks!')).toBe('pause music');
+    expect(normalizeCommand('please open youtube please')).toBe('open youtube');
+  });
+});
+
+describe('describeToolResponse', () => {
+  it.each<[string, ToolResponse, string]>([
+    ['handler text', { result: 'Paused.' }, 'Paused.'],
+    ['a contact question', { result: { question: 'Which Alice did you mean?', matches: ['Alice T', 'Alice N'] } }, 'Which Alice did you mean?'],
+    ['an object without a question', { result: { question: 3 } }, '{"question":3}'],
+    ['no result', { result: undefined }, 'Done.'],
+    ['an error', { error: { code: 'HANDLER_FAILED', message: 'Nothing is playing.' } }, "That didn't work: Nothing is playing."]
+  ])('%s', (_, response, expected) => {
+    expect(describeToolResponse(response)).toBe(expected);
+  });
+});
@@ -0,0 +1,265 @@
+import { ToolArgs, ToolResponse } from '../tools/registry.ts';
+
+/**
+ * A command the offline assistant understood. `tool` names an entry in the tool registry, so an
+ * offline command runs through the same validation and handlers as a model's tool call; a null
+ * tool is answered locally (help).
+ */
+export interface Intent {
+  intent: string;
+  tool: string | null;
+  args: ToolArgs;
+}
+
+interface IntentRule {
+  intent: string;
+  pattern: RegExp;
+  tool: string | null;
+  // Turns the match into tool arguments; returning null rejects the match and tries the next rule.
+  args?: (m: RegExpMatchArray) => ToolArgs | null;
+}
+
+export const OFFLINE_EXAMPLES = [
+  'add study task review chapter 3 due tomorrow',
+  'mark review chapter 3 as done',
+  'pause music',
+  'play something by Daft Punk',
+  'start a 25 minute focus',
+  'remember that my exam is on the 12th',
+  'call Alice',
+  'what time is it'
+];
+
+const UNITS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16, seventeen: 17, eighteen: 18, nineteen: 19
+};
+const TENS: Record<string, number> = { twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90 };
+
+/** '25', 'twenty five', 'twenty-five', 'a hundred' -> number; anything else -> undefined. */
+export const parseNumber = (text: string): number | undefined => {
+  const t = text.trim().toLowerCase();
+  if (/^\d+$/.test(t)) return parseInt(t, 10);
+  if (t === 'a hundred' || t === 'one hundred' || t === 'hundred') return 100;
+  const [tens, unit, ...rest] = t.split(/[\s-]+/);
+  if (rest.length) return undefined;
+  if (UNITS[tens] !== undefined && unit === undefined) return UNITS[tens];
+  if (TENS[tens] === undefined) return undefined;
+  if (unit === undefined) return TENS[tens];
+  return UNITS[unit] !== undefined && UNITS[unit] < 10 ? TENS[tens] + UNITS[unit] : undefined;
+};
+
+const NUMBER = '(\\d+|[a-z]+(?:[\\s-][a-z]+)?)';
+const MUSIC = '(?:the )?(?:music|song|track|playback|player)';
+const TASK_FIELDS = '(?:\\s+(?:(?:due|for|by) )?(today|tomorrow|\\d{4}-\\d{2}-\\d{2}))?';
+
+const media = (action: string, extra: ToolArgs = {}) => () => ({ action, ...extra });
+
+// First match wins, so specific phrasings come before the catch-alls ('play ...', 'open ...').
+const RULE_LIST: IntentRule[] = [
+  { intent: 'help', pattern: /^(?:help|what can (?:you|i) (?:do|say))$/, tool: null },
+  { intent: 'time', pattern: /^(?:what(?:'s| is) the time|what time is it|(?:tell me the )?(?:current )?time)$/, tool: 'get_current_time' },
+
+  {
+    intent: 'add_task',
+    pattern: new RegExp(`^(?:add|create|new)(?: an?)?(?: (high|medium|low) priority)?(?: (study|personal|work))? (?:task|to-?do)(?: to)?:? (.+?)${TASK_FIELDS}$`),
+    tool: 'add_task',
+    args: m => ({ text: m[3], priority: m[1]?.toLowerCase(), category: m[2]?.toLowerCase(), due_date: m[4]?.toLowerCase() })
+  },
+  {
+    intent: 'add_task',
+    pattern: new RegExp(`^remind me to (.+?)${TASK_FIELDS}$`),
+    tool: 'add_task',
+    args: m => ({ text: m[1], due_date: m[2]?.toLowerCase() })
+  },
+  {
+    intent: 'complete_task',
+    pattern: /^(?:complete|finish|check off|tick off) (?:the )?(?:task )?(.+)$/,
+    tool: 'complete_task',
+    args: m => ({ task: m[1] })
+  },
+  {
+    intent: 'complete_task',
+    pattern: /^mark (?:the )?(?:task )?(.+?) as (?:done|complete|completed|finished)$/,
+    tool: 'complete_task',
+    args: m => ({ task: m[1] })
+  },
+  {
+    intent: 'delete_task',
+    pattern: /^(?:delete|remove) (?:the )?task (.+)$/,
+    tool: 'delete_task',
+    args: m => ({ task: m[1] })
+  },
+  {
+    intent: 'list_tasks',
+    pattern: /^(?:list|show|read)(?: me)?(?: my)?(?: (study|personal|work))? (?:tasks|to-?dos|checklist)$|^what(?:'s| is) on my (?:list|checklist)$/,
+    tool: 'list_tasks',
+    args: m => ({ category: m[1]?.toLowerCase() })
+  },
+
+  { intent: 'media_pause', pattern: new RegExp(`^(?:pause|stop)(?: ${MUSIC})?$`), tool: 'control_multimedia', args: media('pause') },
+  { intent: 'media_play', pattern: new RegExp(`^(?:resume|continue|unpause)(?: ${MUSIC})?$|^play(?: ${MUSIC})?$`), tool: 'control_multimedia', args: media('play') },
+  { intent: 'media_next', pattern: /^(?:next|skip)(?: (?:this )?(?:song|track))?$/, tool: 'control_multimedia', args: media('next') },
+  { intent: 'media_previous', pattern: /^(?:previous|go back|last)(?: (?:song|track))?$/, tool: 'control_multimedia', args: media('previous') },
+  { intent: 'media_status', pattern: /^what(?:'s| is) (?:playing|this song)$/, tool: 'control_multimedia', args: media('status') },
+  {
+    intent: 'media_volume',
+    pattern: new RegExp(`^(?:set (?:the )?)?volume(?: to)? ${NUMBER}(?:%| percent)?$`),
+    tool: 'control_multimedia',
+    args: m => {
+      const volume = parseNumber(m[1]);
+      return volume === undefined ? null : { action: 'volume', volume: Math.min(100, volume) };
+    }
+  },
+  {
+    intent: 'media_shuffle',
+    pattern: /^(?:turn )?shuffle (on|off)$|^turn (on|off) shuffle$/,
+    tool: 'control_multimedia',
+    args: m => ({ action: 'shuffle', enabled: (m[1] ?? m[2]).toLowerCase() === 'on' })
+  },
+
+  {
+    intent: 'start_focus',
+    pattern: new RegExp(`^start(?: an?)?(?: ${NUMBER}[\\s-]minutes?)? (?:focus|pomodoro)(?: session| timer)?(?: on (.+))?$`),
+    tool: 'start_focus',
+    args: m => {
+      const minutes = m[1] === undefined ? undefined : parseNumber(m[1]);
+      return m[1] !== undefined && minutes === undefined ? null : { minutes, task: m[2] };
+    }
+  },
+  { intent: 'pause_focus', pattern: /^pause (?:the )?(?:focus|pomodoro|timer)$/, tool: 'pause_focus' },
+  { intent: 'resume_focus', pattern: /^resume (?:the )?(?:focus|pomodoro|timer)$/, tool: 'resume_focus' },
+  { intent: 'stop_focus', pattern: /^(?:stop|end|cancel) (?:the )?(?:focus|pomodoro|timer)(?: session)?$/, tool: 'stop_focus' },
+  { intent: 'focus_status', pattern: /^how (?:much|long) (?:time )?(?:is )?left$|^focus status$/, tool: 'get_focus_status' },
+
+  {
+    intent: 'remember',
+    pattern: /^remember(?: that)? (.+)$/,
+    tool: 'remember',
+    args: m => ({ fact: m[1] })
+  },
+  {
+    intent: 'recall',
+    pattern: /^what do you (?:remember|know)(?: about (.+))?$/,
+    tool: 'recall',
+    args: m => ({ query: m[1] })
+  },
+  {
+    intent: 'forget',
+    pattern: /^forget(?: that| about)? (.+)$/,
+    tool: 'forget',
+    args: m => ({ memory: m[1] })
+  },
+
+  {
+    intent: 'add_note',
+    pattern: /^(?:take a note|note down|new note|make a note)(?: that)?:? (.+)$/,
+    tool: 'add_note',
+    args: m => ({ title: m[1].split(/\s+/).slice(0, 6).join(' '), content: m[1] })
+  },
+  {
+    intent: 'search_notes',
+    pattern: /^(?:search|find)(?: my)? notes (?:for|about|on) (.+)$/,
+    tool: 'search_notes',
+    args: m => ({ query: m[1] })
+  },
+  {
+    intent: 'read_note',
+    pattern: /^(?:read|open) (?:the |my )?note (?:called |titled |about )?(.+)$/,
+    tool: 'read_note',
+    args: m => ({ note: m[1] })
+  },
+
+  {
+    intent: 'send_message',
+    pattern: /^(?:send (?:a )?(?:message|text) to|message|text) (.+?)(?: saying| that says|:) (.+)$/,
+    tool: 'send_message',
+    args: m => ({ recipient: m[1], text: m[2] })
+  },
+  {
+    intent: 'read_messages',
+    pattern: /^(?:read|check)(?: my)? messages from (.+)$/,
+    tool: 'read_messages',
+    args: m => ({ contact: m[1] })
+  },
+  { intent: 'answer_call', pattern: /^(?:answer|pick up)(?: the)?(?: call| phone)?$/, tool: 'answer_call' },
+  { intent: 'end_call', pattern: /^(?:hang up|end (?:the )?call)$/, tool: 'end_call' },
+  {
+    intent: 'place_call',
+    pattern: /^(?:call|phone|ring) (.+)$/,
+    tool: 'place_call',
+    args: m => ({ contact: m[1] })
+  },
+
+  {
+    intent: 'do_not_disturb',
+    pattern: /^(?:turn |switch )?(on|off) do not disturb$|^(?:turn |switch )?do not disturb (on|off)$/,
+    tool: 'set_do_not_disturb',
+    args: m => ({ enabled: (m[1] ?? m[2]).toLowerCase() === 'on' })
+  },
+  { intent: 'notifications', pattern: /^(?:read|check|any|show)(?: me)?(?: my)?(?: new)? notifications$/, tool: 'get_notifications' },
+
+  // Catch-alls last.
+  {
+    intent: 'media_play',
+    pattern: /^play (?:(?:some|something|anything|music|songs) )*by (.+)$/,
+    tool: 'control_multimedia',
+    args: m => ({ action: 'play', artist: m[1] })
+  },
+  {
+    intent: 'media_play',
+    pattern: /^play (?:the |my )?playlist (.+)$/,
+    tool: 'control_multimedia',
+    args: m => ({ action: 'play', playlist: m[1] })
+  },
+  {
+    intent: 'media_play',
+    pattern: /^play (.+?)(?: by (.+))?$/,
+    tool: 'control_multimedia',
+    args: m => ({ action: 'play', query: m[1], artist: m[2] })
+  },
+  {
+    intent: 'open_website',
+    pattern: /^(?:open|go to|visit|launch) (.+)$/,
+    tool: 'open_website',
+    args: m => ({ target: m[1] })
+  }
+];
+
+// Written in lowercase for readability; utterances keep their case so captures come out as spoken.
+const RULES = RULE_LIST.map(rule => ({ ...rule, pattern: new RegExp(rule.pattern, 'i') }));
+
+// Politeness and the assistant's name carry no meaning for the parser.
+const FILLER = /^(?:(?:hey |ok |okay )?v ?1,? |please |can you |could you |would you )+|(?: please| thanks| thank you)+$/gi;
+
+export const normalizeCommand = (text: string): string =>
+  text.replace(/[.!?]+$/, '').replace(/\s+/g, ' ').trim().replace(FILLER, '').trim();
+
+const withoutEmpty = (args: ToolArgs): ToolArgs =>
+  Object.fromEntries(Object.entries(args).filter(([, v]) => v !== undefined && v !== ''));
+
+/** Maps an utterance onto a tool call by fixed rules; null when no rule matches. Deterministic and side-effect free. */
+export const parseIntent = (text: string): Intent | null => {
+  const command = normalizeCommand(text);
+  if (!command) return null;
+  for (const rule of RULES) {
+    const m = command.match(rule.pattern);
+    if (!m) continue;
+    const args = rule.args ? rule.args(m) : {};
+    if (!args) continue;
+    return { intent: rule.intent, tool: rule.tool, args: withoutEmpty(args) };
+  }
+  return null;
+};
+
+export const offlineHelp = () =>
+  `I'm offline, so I only understand simple commands. Try: ${OFFLINE_EXAMPLES.map(e => `"${e}"`).join(', ')}.`;
+
+/** What to say back for a tool response: handler text, a contact question, or the error. */
+export const describeToolResponse = (response: ToolResponse): string => {
+  if ('error' in response) return `That didn't work: ${response.error.message}`;
+  const { result } = response;
+  if (typeof result === 'string') return result;
+  if (result && typeof result === 'object' && 'question' in result && typeof result.question === 'string') return result.question;
+  return result === undefined || result === null ? 'Done.' : JSON.stringify(result);
+};
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { LiveConnection, LiveConnector, LiveStartRequest, backoffDelay, createLiveSessionManager } from './liveSession.ts';
+
+// Records every connect; each entry in `failures` makes one attempt reject with that message.
+const fakeServer = (failures: string[] = []) => {
+  const calls: LiveConnectParameters[] = [];
+  const connections: LiveConnection[] = [];
+  const connector: LiveConnector = async (params) => {
+    calls.push(params);
+    const failure = failures.shift();
+    if (failure) throw new Error(failure);
+    const connection = { sendRealtimeInput: vi.fn(), sendClientContent: vi.fn(), sendToolResponse: vi.fn(), close: vi.fn() };
+    connections.push(connection);
+    return connection;
+  };
+  const latest = () => calls[calls.length - 1].callbacks;
+  return {
+    calls,
+    connections,
+    connector,
+    message: (message: LiveServerMessage) => latest().onmessage(message),
+    close: (code = 1006) => latest().onclose?.({ code, reason: '' } as CloseEvent)
+  };
+};
+
+const request = (): LiveStartRequest => ({ model: 'test-model', config: () => ({}), onOpen: vi.fn(), onMessage: vi.fn() });
+
+// random 0.5 makes the jitter factor exactly 1, so delays are base * 2^(attempt - 1).
+const backoff = { baseMs: 500, maxMs: 15000, maxAttempts: 3, random: () => 0.5 };
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the cap, with ±20% jitter', () => {
+    expect([1, 2, 3, 4].map(n => backoffDelay(n, backoff))).toEqual([500, 1000, 2000, 4000]);
+    expect(backoffDelay(10, backoff)).toBe(15000);
+    expect(backoffDelay(1, { random: () => 0 })).toBe(400);
+    expect(backoffDelay(1, { random: () => 1 })).toBe(600);
+  });
+});
+
+describe('createLiveSessionManager', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('reconnects after an unexpected close once the backoff delay has passed', async () => {
+    const server = fakeServer();
+    const manager = createLiveSessionManager(server.connector, backoff);
+    manager.start(request());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.status().state).toBe('live');
+
+    server.close();
+    expect(manager.status()).toMatchObject({ state: 'reconnecting', attempt: 1, retryAt: Date.now() + 500 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(server.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(server.calls).toHaveLength(2);
+    expect(manager.status()).toMatchObject({ state: 'live', attempt: 0 });
+  });
+
+  it('backs off between failed attempts and gives up after maxAttempts', async () => {
+    const server = fakeServer(['Network down', 'Network down', 'Network down', 'Network down']);
+    const manager = createLiveSessionManager(server.connector, backoff);
+    manager.start(request());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.status()).toMatchObject({ state: 'reconnecting', attempt: 1 });
+
+    for (const [delay, attempts] of [[500, 2], [1000, 3], [2000, 4]]) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(server.calls).toHaveLength(attempts - 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(server.calls).toHaveLength(attempts);
+    }
+    expect(manager.status()).toMatchObject({ state: 'failed', error: 'Gave up after 3 reconnect attempts: Network down' });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(server.calls).toHaveLength(4);
+  });
+
+  it('fails without retrying on errors a retry cannot fix', async () => {
+    const server = fakeServer(['API key not valid']);
+    const manager = createLiveSessionManager(server.connector, backoff);
+    manager.start(request());
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(server.calls).toHaveLength(1);
+    expect(manager.status()).toMatchObject({ state: 'failed', error: 'API key not valid' });
+  });
+
+  it('reconnects ahead of a go-away with the latest resumption handle', async () => {
+    const server = fakeServer();
+    const manager = createLiveSessionManager(server.connector, backoff);
+    const started = request();
+    manager.start(started);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(server.calls[0].config?.sessionResumption).toEqual({});
+
+    server.message({ sessionResumptionUpdate: { newHandle: 'h1', resumable: true } } as LiveServerMessage);
+    server.message({ sessionResumptionUpdate: { newHandle: 'h2', resumable: true } } as LiveServerMessage);
+    expect(manager.status().resumable).toBe(true);
+    server.message({ goAway: { timeLeft: '5s' } } as LiveServerMessage);
+
+    await vi.advanceTimersByTimeAsync(3999);
+    expect(server.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    // A second early is the whole head start; the reconnect itself does not back off.
+    expect(manager.status()).toMatchObject({ state: 'reconnecting', retryAt: Date.now() });
+    await vi.runOnlyPendingTimersAsync();
+    expect(server.calls).toHaveLength(2);
+    expect(server.connections[0].close).toHaveBeenCalled();
+    expect(server.calls[1].config?.sessionResumption).toEqual({ handle: 'h2' });
+    expect(started.onOpen).toHaveBeenLastCalledWith(server.connections[1], true);
+    expect(manager.status()).toMatchObject({ state: 'live', attempt: 0 });
+  });
+
+  it('cancels a pending reconnect when stopped', async () => {
+    const server = fakeServer();
+    const manager = createLiveSessionManager(server.connector, backoff);
+    manager.start(request());
+    await vi.advanceTimersByTimeAsync(0);
+
+    server.close();
+    expect(manager.status().state).toBe('reconnecting');
+    manager.stop();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(server.calls).toHaveLength(1);
+    expect(manager.status()).toMatchObject({ state: 'idle', attempt: 0 });
+    expect(manager.send(() => {})).toBe(false);
+  });
+});
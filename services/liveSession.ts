@@ -0,0 +1,202 @@
+import { GoogleGenAI, LiveConnectConfig, LiveConnectParameters, LiveServerMessage, Session } from '@google/genai';
+
+export type LiveState = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+export interface LiveStatus {
+  state: LiveState;
+  attempt: number; // reconnect attempts since the session was last live
+  retryAt?: number; // epoch ms of the next attempt while reconnecting
+  error?: string;
+  resumable: boolean; // whether the server has handed out a resumption handle
+}
+
+// The subset of the SDK session the app uses; a fake server only has to provide these.
+export type LiveConnection = Pick<Session, 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse' | 'close'>;
+
+export type LiveConnector = (params: LiveConnectParameters) => Promise<LiveConnection>;
+
+export interface LiveStartRequest {
+  model: string;
+  // Built again for every attempt so reconnects pick up the current tools and instruction.
+  config: () => LiveConnectConfig;
+  // `resumed` is true when the server restored the previous session's context from its handle.
+  onOpen: (connection: LiveConnection, resumed: boolean) => void;
+  onMessage: (message: LiveServerMessage) => void;
+}
+
+export interface BackoffOptions {
+  baseMs?: number;
+  maxMs?: number;
+  maxAttempts?: number;
+  random?: () => number;
+}
+
+export interface LiveSessionManager {
+  status: () => LiveStatus;
+  start: (request: LiveStartRequest) => void;
+  stop: () => void;
+  // Runs `fn` against the open connection; returns false (and drops the message) while not live.
+  send: (fn: (connection: LiveConnection) => void) => boolean;
+  subscribe: (listener: (status: LiveStatus) => void) => () => void;
+}
+
+export const IDLE_STATUS: LiveStatus = { state: 'idle', attempt: 0, resumable: false };
+
+// Problems a retry cannot fix: bad keys, unknown models, rejected configs.
+const FATAL_ERROR = /api key|permission|unauthori[sz]ed|not found|invalid argument|not supported|unsupported/i;
+
+/** Delay before reconnect attempt `attempt` (1-based): exponential with ±20% jitter, capped. */
+export const backoffDelay = (attempt: number, { baseMs = 500, maxMs = 15000, random = Math.random }: BackoffOptions = {}) =>
+  Math.round(Math.min(maxMs, baseMs * 2 ** (attempt - 1)) * (0.8 + random() * 0.4));
+
+/** Parses the protobuf duration in a go-away message ("10s", "1.5s") into milliseconds. */
+export const parseDuration = (value?: string): number => {
+  const seconds = parseFloat(value ?? '');
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+};
+
+export const createGeminiLiveConnector = (apiKey: string, baseUrl?: string): LiveConnector => {
+  // Pointing baseUrl at a local server lets the whole lifecycle run against a fake Live API.
+  const ai = new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+  return (params) => ai.live.connect(params);
+};
+
+/**
+ * Owns one logical Live session across however many sockets it takes. Unexpected closes and
+ * go-away notices reconnect with exponential backoff, resuming from the latest server handle
+ * when there is one; fatal errors and exhausted retries end in 'failed'. Callbacks from
+ * superseded sockets are ignored by generation number.
+ */
+export const createLiveSessionManager = (connector: LiveConnector, backoff: BackoffOptions = {}): LiveSessionManager => {
+  const maxAttempts = backoff.maxAttempts ?? 6;
+  const listeners = new Set<(status: LiveStatus) => void>();
+  let status: LiveStatus = IDLE_STATUS;
+  let request: LiveStartRequest | null = null;
+  let connection: LiveConnection | null = null;
+  let handle: string | undefined;
+  let generation = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (next: Partial<LiveStatus>) => {
+    status = { ...status, ...next };
+    listeners.forEach(l => l(status));
+  };
+
+  const drop = () => {
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    generation++;
+    const closing = connection;
+    connection = null;
+    try { closing?.close(); } catch { /* already closed */ }
+  };
+
+  const fail = (error: string) => {
+    drop();
+    request = null;
+    setStatus({ state: 'failed', error, retryAt: undefined });
+  };
+
+  const scheduleReconnect = (reason: string, immediate = false) => {
+    if (!request) return;
+    if (FATAL_ERROR.test(reason)) return fail(reason);
+    drop();
+    const attempt = status.attempt + 1;
+    if (attempt > maxAttempts) return fail(`Gave up after ${maxAttempts} reconnect attempts: ${reason}`);
+    const delay = immediate ? 0 : backoffDelay(attempt, backoff);
+    setStatus({ state: 'reconnecting', attempt, retryAt: Date.now() + delay, error: reason });
+    retryTimer = setTimeout(connect, delay);
+  };
+
+  const connect = async () => {
+    if (!request) return;
+    const current = request;
+    const mine = ++generation;
+    const resuming = handle;
+    if (status.state !== 'reconnecting') setStatus({ state: 'connecting' });
+    const stale = () => mine !== generation || request !== current;
+    try {
+      const config = current.config();
+      const opened = await connector({
+        model: current.model,
+        config: {
+          ...config,
+          sessionResumption: resuming ? { handle: resuming } : {},
+          // Without compression the server ends audio sessions after a few minutes of context.
+          contextWindowCompression: config.contextWindowCompression ?? { slidingWindow: {} }
+        },
+        callbacks: {
+          onmessage: (message) => {
+            if (stale()) return;
+            const update = message.sessionResumptionUpdate;
+            if (update) {
+              handle = update.resumable && update.newHandle ? update.newHandle : handle;
+              if (status.resumable !== !!handle) setStatus({ resumable: !!handle });
+            }
+            if (message.goAway) {
+              // Reconnect before the server cuts us off; with a handle nothing is lost.
+              const left = parseDuration(message.goAway.timeLeft);
+              setTimeout(() => { if (!stale()) scheduleReconnect('Server asked to reconnect', true); }, Math.max(0, left - 1000));
+            }
+            current.onMessage(message);
+          },
+          onerror: (e) => { if (!stale()) scheduleReconnect((e as any)?.message || 'Connection error'); },
+          onclose: (e) => { if (!stale()) scheduleReconnect(e?.reason || `Connection closed (${e?.code ?? 'unknown'})`); }
+        }
+      });
+      if (stale()) {
+        opened.close();
+        return;
+      }
+      connection = opened;
+      setStatus({ state: 'live', attempt: 0, retryAt: undefined, error: undefined });
+      current.onOpen(opened, !!resuming);
+    } catch (e: any) {
+      if (stale()) return;
+      // A rejected handle is not worth retrying with; the next attempt replays context instead.
+      if (resuming) handle = undefined;
+      scheduleReconnect(e?.message || String(e));
+    }
+  };
+
+  return {
+    status: () => status,
+    start: (next) => {
+      drop();
+      request = next;
+      handle = undefined;
+      status = { ...IDLE_STATUS };
+      connect();
+    },
+    stop: () => {
+      drop();
+      request = null;
+      handle = undefined;
+      setStatus({ ...IDLE_STATUS });
+    },
+    send: (fn) => {
+      if (!connection || status.state !== 'live') return false;
+      try {
+        fn(connection);
+        return true;
+      } catch (e) {
+        console.warn('Live send failed', e);
+        return false;
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export const liveStatusLabel = (status: LiveStatus): string => {
+  switch (status.state) {
+    case 'idle': return 'Standby';
+    case 'connecting': return 'Connecting';
+    case 'live': return 'Live';
+    case 'reconnecting': return `Reconnecting (attempt ${status.attempt})`;
+    case 'failed': return 'Connection failed';
+  }
+};
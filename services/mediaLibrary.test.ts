@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseId3v2 } from './mediaLibrary.ts';
+
+const synchsafe = (n: number) => [(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f];
+const ascii = (text: string) => [...text].map(c => c.charCodeAt(0));
+
+const tag = (major: number, frames: number[], flags = 0) =>
+  new Uint8Array([...ascii('ID3'), major, 0, flags, ...synchsafe(frames.length), ...frames]).buffer;
+
+const v23Frame = (id: string, text: string) => {
+  const body = [3, ...ascii(text)];
+  return [...ascii(id), 0, 0, 0, body.length, 0, 0, ...body];
+};
+
+describe('parseId3v2', () => {
+  it('reads title, artist and album from a v2.3 tag', () => {
+    const buffer = tag(3, [...v23Frame('TIT2', 'Neon Nights'), ...v23Frame('TPE1', 'Retro Wave'), ...v23Frame('TALB', 'Synth')]);
+    expect(parseId3v2(buffer)).toEqual({ title: 'Neon Nights', artist: 'Retro Wave', album: 'Synth' });
+  });
+
+  it('stops at a frame whose size has the high bit set instead of looping', () => {
+    const hostile = [...ascii('TXXX'), 0xff, 0xff, 0xff, 0xf6, 0, 0, 0, 0];
+    const buffer = tag(3, [...v23Frame('TIT2', 'Before'), ...hostile, ...v23Frame('TPE1', 'After')]);
+    expect(parseId3v2(buffer)).toEqual({ title: 'Before' });
+  });
+
+  it('stops at zero-size frames and frames that run past the tag', () => {
+    expect(parseId3v2(tag(3, [...ascii('TIT2'), 0, 0, 0, 0, 0, 0, ...v23Frame('TPE1', 'X')]))).toEqual({});
+    expect(parseId3v2(tag(3, [...ascii('TIT2'), 0, 0, 0, 50, 0, 0, 3, ...ascii('short')]))).toEqual({});
+  });
+
+  it('survives an extended header size with the high bit set', () => {
+    const buffer = tag(3, [0x80, 0, 0, 0, 0, 0, ...v23Frame('TIT2', 'Hidden')], 0x40);
+    expect(parseId3v2(buffer)).toEqual({});
+  });
+});
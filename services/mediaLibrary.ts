@@ -0,0 +1,235 @@
+import { MediaState, Playlist, RepeatMode, Track } from '../types.ts';
+import { createSearchIndex, SearchIndex } from './search.ts';
+import { newId } from './ids.ts';
+
+export interface TrackMetadata {
+  title?: string;
+  artist?: string;
+  album?: string;
+}
+
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+
+export const INITIAL_MEDIA_STATE: MediaState = {
+  queue: [], baseQueue: [], queueIndex: 0, positionSec: 0, volume: 0.8, shuffle: false, repeat: 'off', isPlaying: false, flashActive: false
+};
+
+// --- Metadata -------------------------------------------------------------
+
+const decodeText = (bytes: Uint8Array, encoding: number) => {
+  const label = encoding === 1 ? 'utf-16' : encoding === 2 ? 'utf-16be' : encoding === 3 ? 'utf-8' : 'latin1';
+  return new TextDecoder(label).decode(bytes).replace(/\0+$/, '').split('\0')[0].trim();
+};
+
+const synchsafe = (b: Uint8Array, at: number) => (b[at] << 21) | (b[at + 1] << 14) | (b[at + 2] << 7) | b[at + 3];
+// Multiplied rather than shifted: `<< 24` on a byte >= 0x80 would go negative.
+const uint32 = (b: Uint8Array, at: number) => b[at] * 0x1000000 + (b[at + 1] << 16) + (b[at + 2] << 8) + b[at + 3];
+
+const ID3_FRAMES: Record<string, keyof TrackMetadata> = { TIT2: 'title', TPE1: 'artist', TALB: 'album', TT2: 'title', TP1: 'artist', TAL: 'album' };
+
+/** Reads title/artist/album from an ID3v2.2–2.4 tag at the start of the buffer. */
+export const parseId3v2 = (buffer: ArrayBuffer): TrackMetadata => {
+  const b = new Uint8Array(buffer);
+  if (b.length < 10 || b[0] !== 0x49 || b[1] !== 0x44 || b[2] !== 0x33) return {};
+  const major = b[3];
+  const end = Math.min(b.length, 10 + synchsafe(b, 6));
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  let offset = 10;
+  if (b[5] & 0x40 && major > 2) offset += major === 4 ? synchsafe(b, 10) : uint32(b, 10) + 4;
+
+  const meta: TrackMetadata = {};
+  while (offset + headerLength <= end) {
+    const id = String.fromCharCode(...b.subarray(offset, offset + idLength));
+    if (!/^[A-Z0-9]+$/.test(id)) break; // padding
+    const size = major === 2 ? (b[offset + 3] << 16) | (b[offset + 4] << 8) | b[offset + 5]
+      : major === 4 ? synchsafe(b, offset + 4)
+      : uint32(b, offset + 4);
+    // A frame that claims no body or runs past the tag is corrupt; stop rather than loop on it.
+    if (size <= 0 || offset + headerLength + size > end) break;
+    const body = b.subarray(offset + headerLength, offset + headerLength + size);
+    const field = ID3_FRAMES[id];
+    if (field && body.length > 1 && !meta[field]) meta[field] = decodeText(body.subarray(1), body[0]) || undefined;
+    offset += headerLength + size;
+  }
+  return meta;
+};
+
+/** Reads the fixed 128-byte ID3v1 trailer some older files only carry. */
+export const parseId3v1 = (tail: ArrayBuffer): TrackMetadata => {
+  const b = new Uint8Array(tail);
+  if (b.length < 128) return {};
+  const at = b.length - 128;
+  if (b[at] !== 0x54 || b[at + 1] !== 0x41 || b[at + 2] !== 0x47) return {};
+  const text = (from: number) => decodeText(b.subarray(at + from, at + from + 30), 0) || undefined;
+  return { title: text(3), artist: text(33), album: text(63) };
+};
+
+/** "03 - Retro Wave - Neon Nights.mp3" → artist Retro Wave, title Neon Nights. */
+export const metadataFromFileName = (fileName: string): TrackMetadata => {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/_/g, ' ').replace(/^\d{1,3}[\s.\-]+/, '').trim();
+  const parts = base.split(/\s+-\s+/);
+  return parts.length >= 2 ? { artist: parts[0], title: parts.slice(1).join(' - ') } : { title: base };
+};
+
+export const readTrackMetadata = async (file: Blob & { name: string }): Promise<TrackMetadata> => {
+  const fromName = metadataFromFileName(file.name);
+  try {
+    const head = parseId3v2(await file.slice(0, 256 * 1024).arrayBuffer());
+    const tail = head.title && head.artist ? {} : parseId3v1(await file.slice(Math.max(0, file.size - 128)).arrayBuffer());
+    return {
+      title: head.title || tail.title || fromName.title,
+      artist: head.artist || tail.artist || fromName.artist,
+      album: head.album || tail.album
+    };
+  } catch (e) {
+    console.warn(`Could not read tags from ${file.name}`, e);
+    return fromName;
+  }
+};
+
+export const probeDuration = (blob: Blob) => new Promise<number>(resolve => {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio();
+  const done = (seconds: number) => {
+    URL.revokeObjectURL(url);
+    resolve(Number.isFinite(seconds) ? Math.round(seconds) : 0);
+  };
+  audio.preload = 'metadata';
+  audio.onloadedmetadata = () => done(audio.duration);
+  audio.onerror = () => done(0);
+  audio.src = url;
+});
+
+export const isAudioFile = (file: { type: string; name: string }) =>
+  file.type.startsWith('audio/') || /\.(mp3|m4a|aac|wav|ogg|oga|opus|flac|webm)$/i.test(file.name);
+
+export const createTrack = (file: { name: string; type: string }, meta: TrackMetadata, durationSec: number): Track => ({
+  id: newId('track'),
+  title: meta.title?.trim() || file.name,
+  artist: meta.artist?.trim() || UNKNOWN_ARTIST,
+  ...(meta.album?.trim() ? { album: meta.album.trim() } : {}),
+  durationSec,
+  fileName: file.name,
+  mimeType: file.type || 'audio/mpeg',
+  addedAt: new Date().toISOString()
+});
+
+// --- Library lookup -------------------------------------------------------
+
+export const buildLibraryIndex = (tracks: Track[]): SearchIndex => createSearchIndex(tracks, t => t.id, t => [
+  { text: t.title, weight: 3 },
+  { text: t.artist, weight: 2 },
+  { text: t.album ?? '', weight: 1 }
+]);
+
+export interface MusicSelector {
+  query?: string;
+  artist?: string;
+  album?: string;
+  playlist?: string;
+}
+
+export interface MusicSelection {
+  label: string;
+  trackIds: string[];
+}
+
+const norm = (s: string) => s.trim().toLowerCase();
+
+const pickByField = (tracks: Track[], value: string, field: 'artist' | 'album') => {
+  const wanted = norm(value);
+  const exact = tracks.filter(t => norm(t[field] ?? '') === wanted);
+  if (exact.length) return exact;
+  return tracks.filter(t => (t[field] ?? '') && (norm(t[field]!).includes(wanted) || wanted.includes(norm(t[field]!))));
+};
+
+/** Resolves a voice request against the library; throws with what is available when nothing matches. */
+export const resolveSelection = (tracks: Track[], playlists: Playlist[], index: SearchIndex, selector: MusicSelector): MusicSelection => {
+  if (!tracks.length) throw new Error('The music library is empty. Import some audio files in the Media tab first.');
+
+  if (selector.playlist) {
+    const wanted = norm(selector.playlist);
+    const playlist = playlists.find(p => norm(p.name) === wanted) ?? playlists.find(p => norm(p.name).includes(wanted));
+    if (!playlist) throw new Error(`No playlist called '${selector.playlist}'. Playlists: ${playlists.map(p => p.name).join(', ') || 'none'}`);
+    const ids = playlist.trackIds.filter(id => tracks.some(t => t.id === id));
+    if (!ids.length) throw new Error(`Playlist '${playlist.name}' is empty.`);
+    return { label: `playlist "${playlist.name}"`, trackIds: ids };
+  }
+
+  let pool = tracks;
+  const labels: string[] = [];
+  if (selector.artist) {
+    pool = pickByField(pool, selector.artist, 'artist');
+    if (!pool.length) throw new Error(`Nothing by '${selector.artist}' in the library. Artists: ${[...new Set(tracks.map(t => t.artist))].join(', ')}`);
+    labels.push(`by ${pool[0].artist}`);
+  }
+  if (selector.album) {
+    pool = pickByField(pool, selector.album, 'album');
+    if (!pool.length) throw new Error(`No album matching '${selector.album}'.`);
+    labels.push(`from ${pool[0].album}`);
+  }
+  if (selector.query) {
+    const allowed = new Set(pool.map(t => t.id));
+    const hits = index.search(selector.query, 50).filter(h => allowed.has(h.id));
+    if (!hits.length) throw new Error(`No tracks match '${selector.query}'.`);
+    pool = hits.map(h => tracks.find(t => t.id === h.id)!);
+    labels.unshift(hits.length === 1 ? `"${pool[0].title}"` : `tracks matching "${selector.query}"`);
+  }
+  return { label: labels.join(' ') || 'your library', trackIds: pool.map(t => t.id) };
+};
+
+// --- Queue ----------------------------------------------------------------
+
+export const shuffled = <T>(items: T[]): T[] => {
+  const out = [...items];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const currentTrackId = (state: MediaState): string | undefined => state.queue[state.queueIndex];
+
+export const startQueue = (state: MediaState, trackIds: string[], startIndex = 0): MediaState => {
+  const first = trackIds[startIndex];
+  const queue = state.shuffle ? [first, ...shuffled(trackIds.filter((_, i) => i !== startIndex))] : trackIds;
+  return { ...state, baseQueue: trackIds, queue, queueIndex: state.shuffle ? 0 : startIndex, positionSec: 0 };
+};
+
+export const enqueue = (state: MediaState, trackIds: string[]): MediaState => ({
+  ...state,
+  baseQueue: [...state.baseQueue, ...trackIds],
+  queue: [...state.queue, ...(state.shuffle ? shuffled(trackIds) : trackIds)]
+});
+
+// Shuffling keeps the current track playing and reorders only what comes after it.
+export const setShuffle = (state: MediaState, on: boolean): MediaState => {
+  const current = currentTrackId(state);
+  if (on) {
+    const rest = state.queue.filter((_, i) => i !== state.queueIndex);
+    return { ...state, shuffle: true, queue: current ? [current, ...shuffled(rest)] : shuffled(rest), queueIndex: 0 };
+  }
+  const index = current ? state.baseQueue.indexOf(current) : 0;
+  return { ...state, shuffle: false, queue: state.baseQueue, queueIndex: Math.max(0, index) };
+};
+
+/** The next queue position, or null when playback should stop. `auto` is true when a track ended by itself. */
+export const stepIndex = (state: MediaState, direction: 1 | -1, auto = false): number | null => {
+  if (!state.queue.length) return null;
+  if (auto && state.repeat === 'one') return state.queueIndex;
+  const next = state.queueIndex + direction;
+  if (next >= 0 && next < state.queue.length) return next;
+  if (state.repeat === 'all') return (next + state.queue.length) % state.queue.length;
+  return null;
+};
+
+export const nextRepeat = (mode: RepeatMode): RepeatMode => mode === 'off' ? 'all' : mode === 'all' ? 'one' : 'off';
+
+export const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const describeTrack = (t: Track) => `"${t.title}" by ${t.artist}${t.album ? ` (${t.album})` : ''}`;
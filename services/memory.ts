@@ -0,0 +1,68 @@
+import { ConversationTurn, Memory } from '../types.ts';
+import { SearchIndex, createSearchIndex, tokenize } from './search.ts';
+import { newId } from './ids.ts';
+
+// Upper bound on memories written into the system instruction; the rest stay reachable through recall.
+export const MAX_PROMPT_MEMORIES = 20;
+
+export const createMemory = (text: string, source: Memory['source']): Memory => {
+  const now = new Date().toISOString();
+  return { id: newId('mem'), text: text.trim(), createdAt: now, updatedAt: now, source };
+};
+
+export const buildMemoryIndex = (memories: Memory[]): SearchIndex =>
+  createSearchIndex(memories, m => m.id, m => [{ text: m.text, weight: 1 }]);
+
+export const searchMemories = (memories: Memory[], index: SearchIndex, query: string, limit?: number): Memory[] => {
+  const byId = new Map(memories.map(m => [m.id, m]));
+  return index.search(query, limit).map(hit => byId.get(hit.id)).filter((m): m is Memory => !!m);
+};
+
+const newestFirst = (memories: Memory[]) => [...memories].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+/** A stored memory that says the same thing, compared word by word so rephrased punctuation still matches. */
+export const findDuplicate = (memories: Memory[], text: string): Memory | undefined => {
+  const key = tokenize(text).join(' ');
+  return key ? memories.find(m => tokenize(m.text).join(' ') === key) : undefined;
+};
+
+// Resolves a memory by id, then by search; ambiguous references throw so the model can ask again.
+export const resolveMemory = (memories: Memory[], index: SearchIndex, ref: string): Memory => {
+  const byId = memories.find(m => m.id === ref);
+  if (byId) return byId;
+  const exact = findDuplicate(memories, ref);
+  if (exact) return exact;
+  const matches = searchMemories(memories, index, ref, 5);
+  if (matches.length === 0) throw new Error(`Nothing remembered matches '${ref}'.`);
+  if (matches.length > 1) {
+    throw new Error(`'${ref}' matches several memories: ${matches.map(m => `"${m.text}"`).join(', ')}. Be more specific.`);
+  }
+  return matches[0];
+};
+
+/**
+ * The memories worth putting in front of the model when a session starts: everything while the
+ * store is small, otherwise the ones that match the recent conversation topped up with the newest.
+ */
+export const memoriesForPrompt = (memories: Memory[], index: SearchIndex, recent: ConversationTurn[], limit = MAX_PROMPT_MEMORIES): Memory[] => {
+  if (memories.length <= limit) return newestFirst(memories);
+  const topic = recent.slice(-6).map(t => t.text).join(' ');
+  const picked = new Map<string, Memory>();
+  // Each recent word is searched on its own; the index requires every query term to match.
+  for (const term of new Set(tokenize(topic))) {
+    for (const m of searchMemories(memories, index, term, limit)) {
+      if (picked.size < limit / 2) picked.set(m.id, m);
+    }
+  }
+  for (const m of newestFirst(memories)) {
+    if (picked.size >= limit) break;
+    picked.set(m.id, m);
+  }
+  return [...picked.values()];
+};
+
+export const withMemories = (instruction: string, memories: Memory[]): string => memories.length
+  ? `${instruction}\n\nThings the user asked you to remember (use them when relevant; call remember, recall or forget to manage them):\n${memories.map(m => `- ${m.text}`).join('\n')}`
+  : `${instruction}\n\nYou can keep facts and preferences the user shares across sessions with the remember tool.`;
+
+export const describeMemory = (memory: Memory) => `"${memory.text}" (saved ${new Date(memory.createdAt).toLocaleDateString()})`;
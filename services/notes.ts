@@ -0,0 +1,58 @@
+import { Note, NoteChanges } from '../types.ts';
+import { createSearchIndex, SearchIndex } from './search.ts';
+import { newId } from './ids.ts';
+
+export const normalizeTags = (tags: string[] | string): string[] => {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  return [...new Set(list.map(t => t.trim().toLowerCase().replace(/^#/, '')).filter(Boolean))];
+};
+
+export const createNote = (title: string, content: string, tags: string[] = []): Note => {
+  const now = new Date().toISOString();
+  return { id: newId('note'), title, content, tags: normalizeTags(tags), createdAt: now, updatedAt: now };
+};
+
+export const applyNoteChanges = (note: Note, changes: NoteChanges): Note => ({
+  ...note,
+  ...(changes.title !== undefined ? { title: changes.title } : {}),
+  ...(changes.content !== undefined ? { content: changes.content } : {}),
+  ...(changes.tags !== undefined ? { tags: normalizeTags(changes.tags) } : {}),
+  updatedAt: new Date().toISOString()
+});
+
+export const appendToNote = (note: Note, text: string): Note =>
+  applyNoteChanges(note, { content: note.content ? `${note.content.trimEnd()}\n\n${text}` : text });
+
+export const buildNoteIndex = (notes: Note[]): SearchIndex => createSearchIndex(notes, n => n.id, n => [
+  { text: n.title, weight: 3 },
+  { text: n.tags.join(' '), weight: 2 },
+  { text: n.content, weight: 1 }
+]);
+
+export const searchNotes = (notes: Note[], index: SearchIndex, query: string, limit?: number): Note[] => {
+  const byId = new Map(notes.map(n => [n.id, n]));
+  return index.search(query, limit).map(hit => byId.get(hit.id)).filter((n): n is Note => !!n);
+};
+
+// Resolves a note by id, exact title, then by search; ambiguous references throw so the model can ask again.
+export const resolveNote = (notes: Note[], index: SearchIndex, ref: string): Note => {
+  const byId = notes.find(n => n.id === ref);
+  if (byId) return byId;
+  const needle = ref.trim().toLowerCase();
+  const byTitle = notes.filter(n => n.title.toLowerCase() === needle);
+  if (byTitle.length === 1) return byTitle[0];
+  const matches = byTitle.length ? byTitle : searchNotes(notes, index, ref, 5);
+  if (matches.length === 0) throw new Error(`No note matches '${ref}'.`);
+  if (matches.length > 1) {
+    throw new Error(`'${ref}' matches several notes: ${matches.map(n => `"${n.title}"`).join(', ')}. Be more specific.`);
+  }
+  return matches[0];
+};
+
+export const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+export const describeNote = (note: Note, full = false) => {
+  const tags = note.tags.length ? ` [${note.tags.map(t => `#${t}`).join(' ')}]` : '';
+  const body = full ? note.content : note.content.slice(0, 160) + (note.content.length > 160 ? '…' : '');
+  return `"${note.title}"${tags} (updated ${formatDate(note.updatedAt)}): ${body}`;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { AppNotification, DndSettings, NotificationRule, TimeWindow } from '../types.ts';
+import { createRule, evaluateNotification, inWindow } from './notificationRules.ts';
+
+// Local times in the week of Monday 9 March 2026.
+const at = (day: number, clock: string) => {
+  const [h, m] = clock.split(':').map(Number);
+  return new Date(2026, 2, 9 + day, h, m);
+};
+const MON = 0, FRI = 4, SAT = 5, SUN = 6;
+
+describe('inWindow', () => {
+  const office: TimeWindow = { start: '09:00', end: '17:00' };
+  const night: TimeWindow = { start: '22:00', end: '07:00' };
+  const fridayNight: TimeWindow = { ...night, days: [5] };
+  const sundayNight: TimeWindow = { ...night, days: [0] };
+
+  it.each<[string, TimeWindow, Date, boolean]>([
+    ['the start of a daytime window', office, at(MON, '09:00'), true],
+    ['the end of a daytime window', office, at(MON, '17:00'), false],
+    ['before a daytime window', office, at(MON, '08:59'), false],
+    ['late evening in a window crossing midnight', night, at(MON, '23:30'), true],
+    ['just after midnight', night, at(MON, '00:00'), true],
+    ['the end of a window crossing midnight', night, at(MON, '07:00'), false],
+    ['midday outside a window crossing midnight', night, at(MON, '12:00'), false],
+    ['a listed day', { ...office, days: [1, 3] }, at(MON, '10:00'), true],
+    ['an unlisted day', { ...office, days: [2, 3] }, at(MON, '10:00'), false],
+    ['the evening a day-limited night starts', fridayNight, at(FRI, '23:00'), true],
+    ['the morning after a day-limited night', fridayNight, at(SAT, '02:00'), true],
+    ['the morning before a day-limited night', fridayNight, at(FRI, '02:00'), false],
+    ['Monday morning after a Sunday night', sundayNight, at(MON, '03:00'), true],
+    ['Sunday morning after a Saturday night', sundayNight, at(SUN, '03:00'), false],
+    ['an empty day list', { ...office, days: [] }, at(SUN, '10:00'), true]
+  ])('%s', (_, window, date, expected) => {
+    expect(inWindow(window, date)).toBe(expected);
+  });
+
+  it('rejects a malformed time', () => {
+    expect(() => inWindow({ start: '9am', end: '17:00' }, at(MON, '10:00'))).toThrow("'9am' is not a valid time; use HH:MM");
+  });
+});
+
+describe('evaluateNotification', () => {
+  const notification: AppNotification = {
+    id: 'n1', app: 'Slack', sender: 'Dev Team', content: 'Build failed on main', receivedAt: at(MON, '10:00').toISOString(), status: 'unread', sourceId: 'sample'
+  };
+  const noDnd: DndSettings = { manual: false, announce: true, schedules: [] };
+  const nightDnd: DndSettings = { ...noDnd, schedules: [{ id: 'night', label: 'Night', enabled: true, window: { start: '22:00', end: '07:00' } }] };
+  const rule = (name: string, fields: Partial<NotificationRule>) => createRule({ name, ...fields });
+
+  it('applies the first matching rule in list order', () => {
+    const rules = [
+      rule('Other app', { app: 'Gmail', action: 'announce' }),
+      rule('Builds', { keyword: 'build', action: 'create_task' }),
+      rule('Slack', { app: 'slack', action: 'mute' })
+    ];
+    expect(evaluateNotification(rules, noDnd, notification, at(MON, '10:00'))).toMatchObject({ action: 'create_task', announce: true, rule: rules[1] });
+    expect(evaluateNotification(rules.slice(2), noDnd, notification, at(MON, '10:00'))).toMatchObject({ action: 'mute', announce: false });
+  });
+
+  it('skips disabled rules and rules outside their window', () => {
+    const rules = [
+      rule('Off', { app: 'Slack', action: 'mute', enabled: false }),
+      rule('Evenings', { app: 'Slack', action: 'digest', window: { start: '18:00', end: '22:00' } }),
+      rule('Team', { sender: 'dev', action: 'digest' })
+    ];
+    expect(evaluateNotification(rules, noDnd, notification, at(MON, '10:00')).rule).toBe(rules[2]);
+  });
+
+  it.each<[string, NotificationRule[], DndSettings, Date, { action: string; announce: boolean; reason: string }]>([
+    ['no rule and no quiet hours', [], noDnd, at(MON, '10:00'), { action: 'deliver', announce: true, reason: 'Delivered and announced' }],
+    ['no rule during scheduled quiet hours', [], nightDnd, at(MON, '23:00'), { action: 'deliver', announce: false, reason: 'Delivered silently: Night quiet hours' }],
+    ['no rule with manual Do Not Disturb', [], { ...noDnd, manual: true }, at(MON, '10:00'), { action: 'deliver', announce: false, reason: 'Delivered silently: Do Not Disturb is on' }],
+    ['no rule with announcements off', [], { ...nightDnd, announce: false }, at(MON, '10:00'), { action: 'deliver', announce: false, reason: 'Delivered silently: announcements are off' }],
+    ['an announce rule during quiet hours', [rule('Builds', { keyword: 'build', action: 'announce' })], nightDnd, at(MON, '23:00'), { action: 'announce', announce: true, reason: '"Builds" always announces' }],
+    ['a task rule during quiet hours', [rule('Builds', { keyword: 'build', action: 'create_task' })], nightDnd, at(MON, '23:00'), { action: 'create_task', announce: false, reason: '"Builds": create task' }],
+    ['a digest rule', [rule('Slack', { app: 'Slack', action: 'digest' })], noDnd, at(MON, '10:00'), { action: 'digest', announce: false, reason: '"Slack": hourly digest' }]
+  ])('%s', (_, rules, dnd, date, expected) => {
+    expect(evaluateNotification(rules, dnd, notification, date)).toMatchObject(expected);
+  });
+});
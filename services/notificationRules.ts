@@ -0,0 +1,129 @@
+import { AppNotification, DndSettings, DndSchedule, NotificationRule, NotificationRuleAction, TimeWindow } from '../types.ts';
+import { newId } from './ids.ts';
+
+export const RULE_ACTIONS: NotificationRuleAction[] = ['mute', 'announce', 'digest', 'create_task'];
+
+export const ruleActionLabel: Record<NotificationRuleAction, string> = {
+  mute: 'Mute',
+  announce: 'Always announce',
+  digest: 'Hourly digest',
+  create_task: 'Create task'
+};
+
+export const DEFAULT_DND: DndSettings = {
+  manual: false,
+  announce: true,
+  schedules: [{ id: 'night', label: 'Night', enabled: true, window: { start: '22:00', end: '07:00' } }]
+};
+
+const CLOCK = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidClock = (value: string) => CLOCK.test(value.trim());
+
+const minutesOf = (clock: string) => {
+  const match = CLOCK.exec(clock.trim());
+  if (!match) throw new Error(`'${clock}' is not a valid time; use HH:MM`);
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+/** Whether `date` falls inside the window. Windows that wrap midnight count against the day they started. */
+export const inWindow = (window: TimeWindow, date: Date) => {
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  const wraps = end <= start;
+  const inside = wraps ? now >= start || now < end : now >= start && now < end;
+  if (!inside || !window.days?.length) return inside;
+  const day = wraps && now < end ? (date.getDay() + 6) % 7 : date.getDay();
+  return window.days.includes(day);
+};
+
+export const activeDndSchedule = (dnd: DndSettings, date: Date): DndSchedule | undefined =>
+  dnd.schedules.find(s => s.enabled && inWindow(s.window, date));
+
+export const isDndActive = (dnd: DndSettings, date: Date) => dnd.manual || !!activeDndSchedule(dnd, date);
+
+const lower = (s?: string) => (s ?? '').trim().toLowerCase();
+
+export const ruleApplies = (rule: NotificationRule, n: AppNotification, date: Date) =>
+  rule.enabled &&
+  (!rule.app || lower(rule.app) === lower(n.app)) &&
+  (!rule.sender || lower(n.sender).includes(lower(rule.sender))) &&
+  (!rule.keyword || lower(n.content).includes(lower(rule.keyword))) &&
+  (!rule.window || inWindow(rule.window, date));
+
+export interface RuleOutcome {
+  action: NotificationRuleAction | 'deliver';
+  announce: boolean; // spoken aloud if a Live session is running
+  rule?: NotificationRule;
+  reason: string;
+}
+
+/** First matching rule wins, in list order; without one the notification is delivered and DND decides whether it is spoken. */
+export const evaluateNotification = (rules: NotificationRule[], dnd: DndSettings, n: AppNotification, date = new Date()): RuleOutcome => {
+  const rule = rules.find(r => ruleApplies(r, n, date));
+  const dndReason = dnd.manual ? 'Do Not Disturb is on' : activeDndSchedule(dnd, date) ? `${activeDndSchedule(dnd, date)!.label} quiet hours` : null;
+  const quiet = !dnd.announce ? 'announcements are off' : dndReason;
+
+  if (rule?.action === 'announce') return { action: 'announce', announce: true, rule, reason: `"${rule.name}" always announces` };
+  if (rule) {
+    const spoken = rule.action === 'create_task' && !quiet;
+    return { action: rule.action, announce: spoken, rule, reason: `"${rule.name}": ${ruleActionLabel[rule.action].toLowerCase()}` };
+  }
+  return quiet ? { action: 'deliver', announce: false, reason: `Delivered silently: ${quiet}` } : { action: 'deliver', announce: true, reason: 'Delivered and announced' };
+};
+
+export const describeWindow = (window: TimeWindow) => {
+  const days = window.days?.length ? ` (${window.days.map(d => ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][d]).join(', ')})` : '';
+  return `${window.start}–${window.end}${days}`;
+};
+
+export const describeRule = (rule: NotificationRule) => {
+  const match = [
+    rule.app && `on ${rule.app}`,
+    rule.sender && `from ${rule.sender}`,
+    rule.keyword && `mentioning "${rule.keyword}"`,
+    rule.window && `during ${describeWindow(rule.window)}`
+  ].filter(Boolean).join(' ');
+  return `${ruleActionLabel[rule.action]} ${match || 'everything'}`;
+};
+
+export const validateRule = (rule: NotificationRule): string | null => {
+  if (!rule.name.trim()) return 'Give the rule a name.';
+  if (!rule.app && !rule.sender && !rule.keyword && !rule.window) return 'Match on at least an app, sender, keyword or time window.';
+  if (rule.window && (!isValidClock(rule.window.start) || !isValidClock(rule.window.end))) return 'Times must be HH:MM.';
+  return null;
+};
+
+export const createRule = (fields: Partial<NotificationRule> = {}): NotificationRule => ({
+  id: newId('nrule'),
+  name: '',
+  enabled: true,
+  action: 'mute',
+  ...fields
+});
+
+// The hourly digest goes out at the top of the hour after its oldest notification arrived.
+export const nextDigestAt = (since: string) => {
+  const at = new Date(since);
+  at.setHours(at.getHours() + 1, 0, 0, 0);
+  return at;
+};
+
+export const taskTextFrom = (n: AppNotification) => `Follow up with ${n.sender} (${n.app}): ${n.content}`;
+
+export const SAMPLE_NOTIFICATIONS: AppNotification[] = [
+  ['WhatsApp', 'Mom', 'Did you finish your assignment?'],
+  ['Slack', 'Dev Team', 'Build failed on main, can someone look?'],
+  ['Instagram', 'John Doe', 'Liked your photo'],
+  ['Gmail', 'Prof. Rivera', 'Reminder: essay due Friday'],
+  ['Twitter', 'News', 'Trending: 10 things you missed today']
+].map(([app, sender, content], i) => ({
+  id: `sample-${i}`,
+  app,
+  sender,
+  content,
+  receivedAt: new Date().toISOString(),
+  status: 'unread',
+  sourceId: 'sample'
+}));
@@ -0,0 +1,112 @@
+import { AppNotification } from '../types.ts';
+import { normalizeNotification, parseNotificationPayload } from './notifications.ts';
+
+export type SourceStatus = 'idle' | 'connecting' | 'connected' | 'error';
+
+/**
+ * Anything that can deliver notifications. `start` begins delivery into `push` and returns a stop
+ * function; the pipeline never needs to know what kind of source it is talking to.
+ */
+export interface NotificationSource {
+  id: string;
+  label: string;
+  start: (push: (notifications: AppNotification[]) => void, onStatus: (status: SourceStatus, detail?: string) => void) => () => void;
+}
+
+const MOCK_FEED = [
+  { app: 'WhatsApp', sender: 'Mom', content: 'Are you coming home for dinner?' },
+  { app: 'WhatsApp', sender: 'Alice Thompson', content: 'Can you send me the lab report draft?' },
+  { app: 'Slack', sender: 'Dev Team', content: 'Build #482 failed on main.' },
+  { app: 'Slack', sender: 'Priya', content: 'Standup moved to 10:30 tomorrow.' },
+  { app: 'Instagram', sender: 'John Doe', content: 'Started following you' },
+  { app: 'Gmail', sender: 'Registrar', content: 'Your exam schedule has been published.' },
+  { app: 'Calendar', sender: 'Calendar', content: 'Calculus lecture starts in 15 minutes.' },
+  { app: 'Twitter', sender: 'TechNews', content: 'Five AI papers you missed this week' }
+];
+
+export const createMockSource = (intervalMs = 45000, random = Math.random): NotificationSource => ({
+  id: 'mock',
+  label: 'Demo generator',
+  start: (push, onStatus) => {
+    onStatus('connected');
+    const timer = setInterval(() => {
+      const item = MOCK_FEED[Math.floor(random() * MOCK_FEED.length)];
+      const n = normalizeNotification(item, 'mock');
+      if (n) push([n]);
+    }, intervalMs);
+    return () => {
+      clearInterval(timer);
+      onStatus('idle');
+    };
+  }
+});
+
+/** Local feed that sends notification JSON (any shape parseNotificationPayload accepts) per frame. */
+export const createWebSocketSource = (url: string, retryMs = 5000): NotificationSource => ({
+  id: 'websocket',
+  label: `WebSocket ${url}`,
+  start: (push, onStatus) => {
+    let socket: WebSocket | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      onStatus('connecting');
+      try {
+        socket = new WebSocket(url);
+      } catch (e: any) {
+        onStatus('error', e?.message || 'Invalid URL');
+        return;
+      }
+      socket.onopen = () => onStatus('connected');
+      socket.onmessage = (event) => {
+        try {
+          const notifications = parseNotificationPayload(String(event.data), 'websocket');
+          if (notifications.length) push(notifications);
+        } catch (e: any) {
+          console.warn('Ignoring malformed notification frame', e);
+        }
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        onStatus('error', 'Disconnected, retrying...');
+        retry = setTimeout(connect, retryMs);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      socket?.close();
+      onStatus('idle');
+    };
+  }
+});
+
+export interface JsonImportSource extends NotificationSource {
+  // Feeds a webhook-style payload through the pipeline; returns how many notifications were accepted.
+  importJson: (json: string) => number;
+}
+
+export const createJsonImportSource = (): JsonImportSource => {
+  let sink: ((notifications: AppNotification[]) => void) | null = null;
+  return {
+    id: 'import',
+    label: 'JSON import',
+    start: (push, onStatus) => {
+      sink = push;
+      onStatus('connected');
+      return () => {
+        sink = null;
+        onStatus('idle');
+      };
+    },
+    importJson: (json) => {
+      if (!sink) throw new Error('The JSON import source is not running');
+      const notifications = parseNotificationPayload(json, 'import');
+      if (notifications.length) sink(notifications);
+      return notifications.length;
+    }
+  };
+};
@@ -0,0 +1,77 @@
+import { AppNotification } from '../types.ts';
+import { newId } from './ids.ts';
+
+// What a source hands to the pipeline; everything but the text fields is optional and filled in on ingest.
+export interface IncomingNotification {
+  id?: string;
+  app: string;
+  sender: string;
+  content: string;
+  receivedAt?: string;
+}
+
+const MAX_STORED = 500;
+
+const asText = (value: unknown) => typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+/** Validates a raw payload from any source. Returns null for anything that is not a usable notification. */
+export const normalizeNotification = (raw: unknown, sourceId: string, now = new Date()): AppNotification | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const app = asText(r.app ?? r.source ?? r.application);
+  const sender = asText(r.sender ?? r.from ?? r.author);
+  const content = asText(r.content ?? r.text ?? r.body ?? r.message);
+  if (!app || !content) return null;
+  const received = asText(r.receivedAt ?? r.timestamp ?? r.time);
+  const receivedMs = received ? Date.parse(received) : NaN;
+  return {
+    id: asText(r.id) || newId(sourceId),
+    app,
+    sender: sender || app,
+    content,
+    receivedAt: Number.isNaN(receivedMs) ? now.toISOString() : new Date(receivedMs).toISOString(),
+    status: 'unread',
+    sourceId
+  };
+};
+
+/** Parses a webhook-style JSON payload: a single notification, an array, or { notifications: [...] }. */
+export const parseNotificationPayload = (json: string, sourceId: string): AppNotification[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Payload is not valid JSON');
+  }
+  const items = Array.isArray(data) ? data
+    : data && typeof data === 'object' && Array.isArray((data as any).notifications) ? (data as any).notifications
+    : [data];
+  return items.map((item: unknown) => normalizeNotification(item, sourceId)).filter((n: AppNotification | null): n is AppNotification => !!n);
+};
+
+// Newest first, de-duplicated by id, and capped so a chatty feed cannot grow storage without bound.
+export const mergeNotifications = (existing: AppNotification[], incoming: AppNotification[]): AppNotification[] => {
+  const known = new Set(existing.map(n => n.id));
+  const fresh = incoming.filter(n => !known.has(n.id));
+  if (!fresh.length) return existing;
+  return [...fresh, ...existing]
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt))
+    .slice(0, MAX_STORED);
+};
+
+export const isInInbox = (n: AppNotification) => n.status === 'unread' || n.status === 'read';
+
+export const formatRelative = (iso: string, now = Date.now()) => {
+  const minutes = Math.round((now - Date.parse(iso)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(iso).toLocaleDateString();
+};
+
+// Converts the relative stamps ("5m ago") stored before notifications carried ISO times.
+export const parseRelativeTimestamp = (stamp: string, now = Date.now()): string => {
+  const match = stamp.match(/(\d+)\s*([smhd])/);
+  const unit = { s: 1000, m: 60000, h: 3600000, d: 86400000 } as Record<string, number>;
+  return new Date(match ? now - parseInt(match[1], 10) * unit[match[2]] : now).toISOString();
+};
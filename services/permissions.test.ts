@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ReplyDraft, ToolPermissions } from '../types.ts';
+import { checkUrl, describeToolCall, parseConfirmation } from './permissions.ts';
+
+const lists = (urlAllow: string[], urlDeny: string[]): ToolPermissions => ({ policies: {}, urlAllow, urlDeny });
+
+describe('checkUrl', () => {
+  it.each<[string, string, ToolPermissions, string | null]>([
+    ['no lists', 'https://example.com', lists([], []), null],
+    ['a blocked host', 'https://example.com/page', lists([], ['example.com']), 'example.com is on the blocked sites list.'],
+    ['a subdomain of a blocked host', 'https://www.example.com', lists([], ['example.com']), 'www.example.com is on the blocked sites list.'],
+    ['a wildcard block written as a URL', 'https://news.example.com', lists([], ['*.Example.com/']), 'news.example.com is on the blocked sites list.'],
+    ['a host that only ends with the same letters', 'https://notexample.com', lists([], ['example.com']), null],
+    ['an allowed host', 'https://docs.example.com/guide', lists(['example.com'], []), null],
+    ['a host missing from the allow list', 'https://youtube.com', lists(['example.com'], []), 'youtube.com is not on the allowed sites list.'],
+    ['a host both allowed and blocked', 'https://example.com', lists(['example.com'], ['example.com']), 'example.com is on the blocked sites list.'],
+    ['a blank pattern', 'https://example.com', lists([], [' ']), null],
+    ['something that is not a URL', 'not a url', lists([], []), "'not a url' is not a valid URL."]
+  ])('%s', (_, url, permissions, expected) => {
+    expect(checkUrl(url, permissions)).toBe(expected);
+  });
+});
+
+describe('parseConfirmation', () => {
+  it.each(['yes', 'Yes.', 'yeah sure', 'OK', 'okay go ahead', 'do it!', 'confirm', 'allow'])('accepts %j', text => {
+    expect(parseConfirmation(text)).toBe(true);
+  });
+
+  it.each(['no', 'Nope.', 'cancel', "don't", 'do not', 'stop that', 'deny', 'decline'])('rejects %j', text => {
+    expect(parseConfirmation(text)).toBe(false);
+  });
+
+  it.each([
+    '',
+    'maybe',
+    'yes no',
+    'okay so what I wanted to say is',
+    'nobody',
+    'yesterday'
+  ])('does not read %j as an answer', text => {
+    expect(parseConfirmation(text)).toBeNull();
+  });
+});
+
+describe('describeToolCall', () => {
+  const draft: ReplyDraft = {
+    id: 'reply-1', notificationId: 'n1', recipient: 'Mom', text: 'Yes, all done!', suggestions: [], createdAt: '2026-01-01T00:00:00.000Z'
+  };
+
+  it('reads the pending reply back before sending it', () => {
+    expect(describeToolCall('confirm_reply', { draft_id: 'reply-1' }, { replyDraft: draft })).toBe('Send "Yes, all done!" to Mom?');
+  });
+
+  it('falls back to a generic question when the draft is not the one pending', () => {
+    expect(describeToolCall('confirm_reply', { draft_id: 'reply-0' }, { replyDraft: draft })).toBe('Send the drafted reply?');
+    expect(describeToolCall('confirm_reply', { draft_id: 'reply-1' })).toBe('Send the drafted reply?');
+  });
+
+  it('lists the arguments of tools without their own question', () => {
+    expect(describeToolCall('set_volume', { level: 40, room: 'kitchen' })).toBe('Run set volume (level: 40, room: kitchen)?');
+  });
+});
@@ -0,0 +1,119 @@
+import { ReplyDraft, ToolAuditEntry, ToolDecision, ToolPermissions, ToolPolicy } from '../types.ts';
+import { ToolArgs, ToolResponse } from '../tools/registry.ts';
+import { newId } from './ids.ts';
+
+export const MAX_AUDIT_ENTRIES = 500;
+// A prompt nobody answers is declined, so a Live turn can't hang on it forever.
+export const CONFIRM_TIMEOUT_MS = 60000;
+// A spoken answer longer than this is dictation that happens to contain "ok", not an answer.
+const MAX_CONFIRM_WORDS = 4;
+// Long results (a whole note, a message thread) are cut down in the log.
+const MAX_AUDIT_RESULT = 1000;
+
+export const TOOL_POLICIES: { id: ToolPolicy; label: string }[] = [
+  { id: 'allow', label: 'Allow' },
+  { id: 'ask', label: 'Ask' },
+  { id: 'never', label: 'Never' }
+];
+
+// Tools that reach outside the app or destroy data ask first unless the user says otherwise.
+export const DEFAULT_TOOL_POLICIES: Record<string, ToolPolicy> = {
+  open_website: 'ask',
+  send_message: 'ask',
+  confirm_reply: 'ask',
+  place_call: 'ask',
+  take_photo: 'ask',
+  delete_note: 'ask',
+  delete_task: 'ask',
+  delete_contact: 'ask'
+};
+
+export const DEFAULT_PERMISSIONS: ToolPermissions = { policies: {}, urlAllow: [], urlDeny: [] };
+
+export const policyFor = (permissions: ToolPermissions, tool: string): ToolPolicy =>
+  permissions.policies[tool] ?? DEFAULT_TOOL_POLICIES[tool] ?? 'allow';
+
+/** What open_website will actually open for a spoken target such as "youtube" or "example.com/docs". */
+export const resolveUrl = (target: string): string => {
+  const url = target.trim().toLowerCase();
+  if (url.includes('google')) return 'https://google.com';
+  if (url.includes('youtube')) return 'https://youtube.com';
+  return /^https?:\/\//.test(url) ? url : `https://${url}`;
+};
+
+/** 'https://www.Example.com/path' or '*.example.com' -> 'www.example.com' / 'example.com'. */
+export const normalizeHostPattern = (pattern: string): string =>
+  pattern.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/^\*\./, '').split(/[/?#:]/)[0];
+
+const hostMatches = (host: string, pattern: string) => {
+  const p = normalizeHostPattern(pattern);
+  return !!p && (host === p || host.endsWith(`.${p}`));
+};
+
+/** Why a URL may not be opened under the allow/deny lists, or null if it may. */
+export const checkUrl = (url: string, { urlAllow, urlDeny }: ToolPermissions): string | null => {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return `'${url}' is not a valid URL.`;
+  }
+  if (urlDeny.some(p => hostMatches(host, p))) return `${host} is on the blocked sites list.`;
+  if (urlAllow.length && !urlAllow.some(p => hostMatches(host, p))) return `${host} is not on the allowed sites list.`;
+  return null;
+};
+
+/** A short spoken or typed answer to a confirmation prompt: true, false, or null when it is neither. */
+export const parseConfirmation = (text: string): boolean | null => {
+  const t = ` ${text.toLowerCase().replace(/[^a-z'\s]/g, ' ').replace(/\s+/g, ' ')} `;
+  if (t.trim().split(' ').length > MAX_CONFIRM_WORDS) return null;
+  const no = /\s(no|nope|cancel|don't|do not|stop|deny|decline)\s/.test(t);
+  const yes = /\s(yes|yeah|yep|sure|confirm|ok|okay|go ahead|do it|allow)\s/.test(t);
+  return yes === no ? null : yes;
+};
+
+// App state a confirmation prompt may need beyond the call's own arguments.
+export interface ToolCallContext {
+  replyDraft?: ReplyDraft | null;
+}
+
+/** The question put to the user before a tool marked 'ask' runs. */
+export const describeToolCall = (tool: string, args: ToolArgs, context: ToolCallContext = {}): string => {
+  switch (tool) {
+    case 'open_website': return `Open ${resolveUrl(String(args.target))}?`;
+    case 'send_message': return `Send "${args.text}" to ${args.recipient}?`;
+    case 'confirm_reply': {
+      const draft = context.replyDraft;
+      return draft?.id === args.draft_id ? `Send "${draft.text}" to ${draft.recipient}?` : 'Send the drafted reply?';
+    }
+    case 'place_call': return `Call ${args.contact}?`;
+    case 'take_photo': return args.caption ? `Take a photo captioned "${args.caption}"?` : 'Take a photo?';
+    case 'delete_note': return `Delete the note "${args.note}"?`;
+    case 'delete_task': return `Delete the task "${args.task}"?`;
+    case 'delete_contact': return `Delete the contact "${args.contact}"?`;
+  }
+  const details = Object.entries(args).map(([k, v]) => `${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`).join(', ');
+  return `Run ${tool.replace(/_/g, ' ')}${details ? ` (${details})` : ''}?`;
+};
+
+export const createAuditEntry = (tool: string, args: ToolArgs, decision: ToolDecision, response: ToolResponse): ToolAuditEntry => {
+  const base = {
+    id: newId('audit'),
+    at: new Date().toISOString(),
+    tool,
+    args,
+    decision
+  };
+  if ('error' in response) return { ...base, error: `${response.error.code}: ${response.error.message}` };
+  const result = typeof response.result === 'string' && response.result.length > MAX_AUDIT_RESULT
+    ? `${response.result.slice(0, MAX_AUDIT_RESULT)}…`
+    : response.result;
+  return { ...base, result };
+};
+
+/** Fills in anything missing from stored permissions. */
+export const normalizePermissions = (p: Partial<ToolPermissions>): ToolPermissions => ({
+  policies: { ...(p.policies ?? {}) },
+  urlAllow: (p.urlAllow ?? []).map(normalizeHostPattern).filter(Boolean),
+  urlDeny: (p.urlDeny ?? []).map(normalizeHostPattern).filter(Boolean)
+});
@@ -0,0 +1,48 @@
+import { Type, Schema } from '@google/genai';
+import { AppNotification, Message, ReplyDraft } from '../types.ts';
+import { TextModel } from './textModel.ts';
+import { newId } from './ids.ts';
+
+const MAX_SUGGESTIONS = 3;
+
+const QUESTION = /\?\s*$|\b(can|could|are|did|will|would|do) you\b/i;
+const MEETING = /\b(meet|call|catch up|at \d{1,2}(:\d{2})?\s*(am|pm)?)\b/i;
+const THANKS = /\b(finished|done|deployed|sent|shipped|congrat)/i;
+
+/** Canned replies picked from what the notification looks like; used when no text model is available or it fails. */
+export const quickReplies = (n: AppNotification): string[] => {
+  if (MEETING.test(n.content)) return ['Sounds good, see you then!', "Can't make it, can we do later?", "I'll let you know shortly."];
+  if (QUESTION.test(n.content)) return ['Yes!', 'Not yet, working on it.', "I'll get back to you soon."];
+  if (THANKS.test(n.content)) return ['Great, thanks for the update!', 'Nice work 👍', 'Thanks, will take a look.'];
+  return ['Thanks!', 'Got it.', "I'll reply properly later."];
+};
+
+const replySchema: Schema = {
+  type: Type.OBJECT,
+  properties: { replies: { type: Type.ARRAY, items: { type: Type.STRING } } },
+  required: ['replies']
+};
+
+/** Short reply options written by the text model, with recent thread messages as context. */
+export const generateReplies = async (model: TextModel, n: AppNotification, thread: Message[] = []): Promise<string[]> => {
+  const history = thread.slice(-6).map(m => `${m.incoming ? n.sender : 'Me'}: ${m.text}`).join('\n');
+  const raw = await model.generate({
+    systemInstruction: 'You draft short, casual text replies on behalf of a student. Each reply is one sentence at most and sounds like them, not like an assistant.',
+    responseSchema: replySchema,
+    prompt: `${history ? `Recent conversation:\n${history}\n\n` : ''}New ${n.app} message from ${n.sender}: "${n.content}"\nSuggest ${MAX_SUGGESTIONS} different replies.`
+  });
+  const parsed = JSON.parse(raw) as { replies?: string[] };
+  const replies = (parsed.replies ?? []).map(r => r.trim()).filter(Boolean).slice(0, MAX_SUGGESTIONS);
+  if (!replies.length) throw new Error('The model suggested no replies');
+  return replies;
+};
+
+export const createReplyDraft = (n: AppNotification, text: string, suggestions: string[] = [], shownInTurn?: number): ReplyDraft => ({
+  id: newId('reply'),
+  notificationId: n.id,
+  recipient: n.sender,
+  text: text.trim(),
+  suggestions,
+  createdAt: new Date().toISOString(),
+  shownInTurn
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryBackend, loadCollection, migrate } from './storage.ts';
+import { focusStateSchema, mediaStateSchema, messagesSchema, notesSchema, notificationsSchema, tasksSchema } from './schemas.ts';
+
+const v1 = <T>(data: T) => ({ version: 1, savedAt: '2025-06-01T00:00:00.000Z', data });
+
+describe('v1 to v2 migrations', () => {
+  it('gives old tasks medium priority', () => {
+    expect(migrate(tasksSchema, v1([{ id: 't1', text: 'Read', completed: false, category: 'study' }])))
+      .toEqual([{ id: 't1', text: 'Read', completed: false, category: 'study', priority: 'medium' }]);
+  });
+
+  it('turns note dates into timestamps and adds tags', () => {
+    const [dated, undated] = migrate(notesSchema, v1([
+      { id: 'n1', title: 'A', content: 'a', date: '2025-05-04T10:00:00.000Z' },
+      { id: 'n2', title: 'B', content: 'b', date: 'sometime' }
+    ]));
+    expect(dated).toEqual({ id: 'n1', title: 'A', content: 'a', tags: [], createdAt: '2025-05-04T10:00:00.000Z', updatedAt: '2025-05-04T10:00:00.000Z' });
+    expect(undated).not.toHaveProperty('date');
+    expect(Number.isNaN(Date.parse(undated.createdAt))).toBe(false);
+  });
+
+  it('marks old messages as read', () => {
+    expect(migrate(messagesSchema, v1([{ id: 'm1', contactId: 'c1', text: 'Hi', timestamp: '10:00', incoming: true }]))[0].read).toBe(true);
+  });
+
+  it('upgrades notifications, including those held by focus mode', () => {
+    const legacy = { id: 'x1', app: 'Mail', sender: 'Bob', content: 'Hello', timestamp: '5m ago' };
+    const [upgraded] = migrate(notificationsSchema, v1([legacy]));
+    expect(upgraded).toMatchObject({ id: 'x1', app: 'Mail', sender: 'Bob', content: 'Hello', status: 'unread', sourceId: 'legacy' });
+    expect(upgraded).not.toHaveProperty('timestamp');
+    expect(Date.now() - Date.parse(upgraded.receivedAt)).toBeGreaterThanOrEqual(5 * 60000);
+
+    const focus = migrate(focusStateSchema, v1({ phase: null, plannedMinutes: 25, completedWorkSessions: 0, held: [legacy] }));
+    expect(focus.held).toEqual([{ ...upgraded, receivedAt: expect.any(String) }]);
+  });
+
+  it('replaces the demo media state and never resumes playback on load', async () => {
+    const backend = createMemoryBackend();
+    await backend.set('mediaState', v1({ isPlaying: true, currentTrack: 'Demo', artist: 'Demo', flashActive: true }));
+    expect(await loadCollection(mediaStateSchema, backend)).toMatchObject({ queue: [], isPlaying: false, flashActive: false });
+    expect(await backend.get('mediaState')).toMatchObject({ version: 2, data: { flashActive: true } });
+  });
+});
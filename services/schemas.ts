@@ -0,0 +1,225 @@
+import { Task, Note, Message, AppNotification, MediaState, FlashcardDeck, Quiz, CardSchedule, ReviewRecord, FocusConfig, FocusState, FocusSessionLog, Contact, CallRecord, NotificationSourceSettings, TriageRule, TriageSettings, TriageCategory, NotificationRule, DndSettings, Track, Playlist, MediaCapture, VisionSettings, ConversationSession, Memory, AssistantSettings, ToolPermissions, ToolAuditEntry } from '../types.ts';
+import { normalizeSettings } from './settings.ts';
+import { normalizePermissions } from './permissions.ts';
+import { parseRelativeTimestamp } from './notifications.ts';
+import { CollectionSchema } from './storage.ts';
+
+export const tasksSchema: CollectionSchema<Task[]> = {
+  key: 'tasks',
+  version: 2,
+  migrations: {
+    // v2: tasks gained a priority (and optional due date).
+    1: (tasks: Omit<Task, 'priority'>[]) => tasks.map(t => ({ ...t, priority: 'medium' }))
+  }
+};
+
+export const notesSchema: CollectionSchema<Note[]> = {
+  key: 'notes',
+  version: 2,
+  migrations: {
+    // v2: the locale `date` string became ISO created/updated timestamps, and notes gained tags.
+    1: (notes: { id: string; title: string; content: string; date: string }[]) => notes.map(({ date, ...n }) => {
+      const parsed = Date.parse(date);
+      const iso = Number.isNaN(parsed) ? new Date().toISOString() : new Date(parsed).toISOString();
+      return { ...n, tags: [], createdAt: iso, updatedAt: iso };
+    })
+  }
+};
+
+export const messagesSchema: CollectionSchema<Message[]> = {
+  key: 'messages',
+  version: 2,
+  migrations: {
+    // v2: read state for unread counts; everything stored before then counts as read.
+    1: (messages: Omit<Message, 'read'>[]) => messages.map(m => ({ ...m, read: true }))
+  }
+};
+
+export const contactsSchema: CollectionSchema<Contact[]> = {
+  key: 'contacts',
+  version: 1,
+  migrations: {}
+};
+
+type NotificationV1 = { id: string; app: string; sender: string; content: string; timestamp: string };
+
+// v2: relative `timestamp` became an ISO `receivedAt`, plus read/archive status and the delivering source.
+const upgradeNotification = ({ timestamp, ...n }: NotificationV1): AppNotification =>
+  ({ ...n, receivedAt: parseRelativeTimestamp(timestamp), status: 'unread', sourceId: 'legacy' });
+
+export const notificationsSchema: CollectionSchema<AppNotification[]> = {
+  key: 'notifications',
+  version: 2,
+  migrations: {
+    1: (notifications: NotificationV1[]) => notifications.map(upgradeNotification)
+  }
+};
+
+export const notificationSourcesSchema: CollectionSchema<NotificationSourceSettings> = {
+  key: 'notificationSources',
+  version: 1,
+  migrations: {}
+};
+
+export const mediaStateSchema: CollectionSchema<MediaState> = {
+  key: 'mediaState',
+  version: 2,
+  migrations: {
+    // v2: the hard-coded demo track gave way to a queue over the local library.
+    1: ({ flashActive }: { isPlaying: boolean; currentTrack: string; artist: string; flashActive: boolean }) => ({
+      queue: [], baseQueue: [], queueIndex: 0, positionSec: 0, volume: 0.8, shuffle: false, repeat: 'off', isPlaying: false, flashActive
+    })
+  },
+  revive: (state) => ({ ...state, isPlaying: false, flashActive: false })
+};
+
+export const tracksSchema: CollectionSchema<Track[]> = {
+  key: 'tracks',
+  version: 1,
+  migrations: {}
+};
+
+export const playlistsSchema: CollectionSchema<Playlist[]> = {
+  key: 'playlists',
+  version: 1,
+  migrations: {}
+};
+
+export const decksSchema: CollectionSchema<FlashcardDeck[]> = {
+  key: 'decks',
+  version: 1,
+  migrations: {}
+};
+
+export const quizzesSchema: CollectionSchema<Quiz[]> = {
+  key: 'quizzes',
+  version: 1,
+  migrations: {}
+};
+
+export const cardSchedulesSchema: CollectionSchema<Record<string, CardSchedule>> = {
+  key: 'cardSchedules',
+  version: 1,
+  migrations: {}
+};
+
+export const reviewLogSchema: CollectionSchema<ReviewRecord[]> = {
+  key: 'reviewLog',
+  version: 1,
+  migrations: {}
+};
+
+export const focusConfigSchema: CollectionSchema<FocusConfig> = {
+  key: 'focusConfig',
+  version: 1,
+  migrations: {}
+};
+
+export const focusStateSchema: CollectionSchema<FocusState> = {
+  key: 'focusState',
+  version: 2,
+  migrations: {
+    // v2: held notifications follow the notifications v2 shape.
+    1: (state: Omit<FocusState, 'held'> & { held: NotificationV1[] }) => ({ ...state, held: state.held.map(upgradeNotification) })
+  }
+};
+
+export const focusLogSchema: CollectionSchema<FocusSessionLog[]> = {
+  key: 'focusLog',
+  version: 1,
+  migrations: {}
+};
+
+export const callLogSchema: CollectionSchema<CallRecord[]> = {
+  key: 'callLog',
+  version: 1,
+  migrations: {},
+  // A call cannot survive a reload; anything still in progress is closed out.
+  revive: (calls) => calls.map(c => ['dialing', 'ringing', 'active'].includes(c.status)
+    ? { ...c, status: c.answeredAt ? 'ended' : c.direction === 'incoming' ? 'missed' : 'failed', endedAt: c.endedAt ?? c.startedAt }
+    : c)
+};
+
+export const triageRulesSchema: CollectionSchema<TriageRule[]> = {
+  key: 'triageRules',
+  version: 1,
+  migrations: {}
+};
+
+export const triageSettingsSchema: CollectionSchema<TriageSettings> = {
+  key: 'triageSettings',
+  version: 1,
+  migrations: {}
+};
+
+export const triageLabelsSchema: CollectionSchema<Record<string, TriageCategory>> = {
+  key: 'triageLabels',
+  version: 1,
+  migrations: {}
+};
+
+export const notificationRulesSchema: CollectionSchema<NotificationRule[]> = {
+  key: 'notificationRules',
+  version: 1,
+  migrations: {}
+};
+
+export const dndSettingsSchema: CollectionSchema<DndSettings> = {
+  key: 'dndSettings',
+  version: 1,
+  migrations: {}
+};
+
+export const digestQueueSchema: CollectionSchema<AppNotification[]> = {
+  key: 'digestQueue',
+  version: 1,
+  migrations: {}
+};
+
+export const capturesSchema: CollectionSchema<MediaCapture[]> = {
+  key: 'captures',
+  version: 1,
+  migrations: {}
+};
+
+export const visionSettingsSchema: CollectionSchema<VisionSettings> = {
+  key: 'visionSettings',
+  version: 1,
+  migrations: {}
+};
+
+export const conversationsSchema: CollectionSchema<ConversationSession[]> = {
+  key: 'conversations',
+  version: 1,
+  migrations: {}
+};
+
+export const memoriesSchema: CollectionSchema<Memory[]> = {
+  key: 'memories',
+  version: 1,
+  migrations: {}
+};
+
+export const assistantSettingsSchema: CollectionSchema<AssistantSettings> = {
+  key: 'assistantSettings',
+  version: 2,
+  migrations: {
+    // v2: activation modes and auto-sleep; existing users keep the always-on microphone.
+    1: (settings: Omit<AssistantSettings, 'activation' | 'wakePhrase' | 'pushToTalkKey' | 'sleepAfterSec'>) =>
+      ({ ...settings, activation: 'continuous', wakePhrase: 'Hey V1', pushToTalkKey: 'Space', sleepAfterSec: 0 })
+  },
+  revive: normalizeSettings
+};
+
+export const toolPermissionsSchema: CollectionSchema<ToolPermissions> = {
+  key: 'toolPermissions',
+  version: 1,
+  migrations: {},
+  revive: normalizePermissions
+};
+
+export const toolAuditSchema: CollectionSchema<ToolAuditEntry[]> = {
+  key: 'toolAudit',
+  version: 1,
+  migrations: {}
+};
@@ -0,0 +1,86 @@
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'about', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'my', 'of', 'on', 'or', 'the', 'to', 'was', 'with'
+]);
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+export interface SearchField {
+  text: string;
+  weight: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchIndex {
+  search: (query: string, limit?: number) => SearchHit[];
+  size: number;
+}
+
+/**
+ * Builds an in-memory inverted index. Each document is a set of weighted fields; query terms
+ * also match as prefixes ("backprop" finds "backpropagation") at half weight, and a document must
+ * match every query term to be returned.
+ */
+export const createSearchIndex = <T>(docs: T[], getId: (doc: T) => string, getFields: (doc: T) => SearchField[]): SearchIndex => {
+  const postings = new Map<string, Map<string, number>>();
+  for (const doc of docs) {
+    const id = getId(doc);
+    for (const field of getFields(doc)) {
+      for (const token of tokenize(field.text)) {
+        const docs = postings.get(token) ?? new Map<string, number>();
+        docs.set(id, (docs.get(id) ?? 0) + field.weight);
+        postings.set(token, docs);
+      }
+    }
+  }
+  const terms = [...postings.keys()];
+  const docCount = docs.length;
+
+  const scoreTerm = (term: string): Map<string, number> => {
+    const scores = new Map<string, number>();
+    for (const candidate of terms) {
+      const exact = candidate === term;
+      if (!exact && !candidate.startsWith(term)) continue;
+      const matches = postings.get(candidate)!;
+      const idf = Math.log(1 + docCount / matches.size);
+      for (const [id, tf] of matches) {
+        scores.set(id, Math.max(scores.get(id) ?? 0, tf * idf * (exact ? 1 : 0.5)));
+      }
+    }
+    return scores;
+  };
+
+  return {
+    size: docCount,
+    search: (query, limit = 10) => {
+      const queryTerms = [...new Set(tokenize(query))];
+      if (!queryTerms.length) return [];
+      let totals: Map<string, number> | null = null;
+      for (const term of queryTerms) {
+        const scores = scoreTerm(term);
+        if (!totals) {
+          totals = scores;
+          continue;
+        }
+        const next = new Map<string, number>();
+        for (const [id, score] of scores) {
+          if (totals.has(id)) next.set(id, totals.get(id)! + score);
+        }
+        totals = next;
+      }
+      return [...(totals ?? new Map<string, number>())]
+        .map(([id, score]) => ({ id, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+  };
+};
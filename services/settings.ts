@@ -0,0 +1,122 @@
+import { ActivationMode, AssistantSettings, PersonaId } from '../types.ts';
+import { ASSISTANT_GUIDANCE } from './conversation.ts';
+
+export const PREBUILT_VOICES = [
+  { name: 'Zephyr', style: 'Bright' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Aoede', style: 'Breezy' }
+];
+
+export const LIVE_MODELS = [
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', label: 'Gemini 2.5 Flash native audio (Dec 2025)' },
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash native audio (Sep 2025)' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini 2.5 Flash Live (half-cascade)' }
+];
+
+export const LANGUAGES = [
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'cmn-CN', label: 'Mandarin Chinese' }
+];
+
+export const PERSONAS: { id: PersonaId; label: string; prompt: string }[] = [
+  {
+    id: 'v1',
+    label: 'V1 (default)',
+    prompt: 'You are V1, a high-fidelity AI assistant. Help with time, browsing, media control, and organization. Be concise.'
+  },
+  {
+    id: 'tutor',
+    label: 'Patient tutor',
+    prompt: 'You are V1, a patient study tutor. Explain step by step, check understanding with a short question, and never just hand over answers to homework.'
+  },
+  {
+    id: 'coach',
+    label: 'Focus coach',
+    prompt: 'You are V1, a brisk productivity coach. Keep replies to a sentence or two, steer the user back to their tasks, and suggest focus sessions when they drift.'
+  },
+  { id: 'custom', label: 'Custom prompt', prompt: '' }
+];
+
+export const ACTIVATION_MODES: { id: ActivationMode; label: string; hint: string }[] = [
+  { id: 'continuous', label: 'Always listening', hint: 'The microphone streams until you end the session.' },
+  { id: 'push_to_talk', label: 'Push to talk', hint: 'Audio is only sent while you hold the key or the button.' },
+  { id: 'wake_word', label: 'Wake phrase', hint: 'Listens on this device for the phrase; nothing is sent until it is heard.' }
+];
+
+export const MAX_PROMPT_LENGTH = 4000;
+export const MAX_SLEEP_SEC = 3600;
+
+export const DEFAULT_SETTINGS: AssistantSettings = {
+  voice: 'Zephyr',
+  model: LIVE_MODELS[0].id,
+  persona: 'v1',
+  customPrompt: '',
+  language: 'en-US',
+  transcription: true,
+  activation: 'continuous',
+  wakePhrase: 'Hey V1',
+  pushToTalkKey: 'Space',
+  sleepAfterSec: 120
+};
+
+/** Problems that would stop a setting from taking effect, keyed by field for the form. */
+export const validateSettings = (s: AssistantSettings): Partial<Record<keyof AssistantSettings, string>> => {
+  const errors: Partial<Record<keyof AssistantSettings, string>> = {};
+  if (!PREBUILT_VOICES.some(v => v.name === s.voice)) errors.voice = `Unknown voice '${s.voice}'.`;
+  if (!/^[a-z0-9.-]+$/.test(s.model)) errors.model = 'Model ids use lowercase letters, digits, dots and dashes.';
+  if (!PERSONAS.some(p => p.id === s.persona)) errors.persona = `Unknown persona '${s.persona}'.`;
+  if (s.persona === 'custom' && !s.customPrompt.trim()) errors.customPrompt = 'Write a prompt or pick a preset.';
+  if (s.customPrompt.length > MAX_PROMPT_LENGTH) errors.customPrompt = `Keep the prompt under ${MAX_PROMPT_LENGTH} characters.`;
+  if (!LANGUAGES.some(l => l.code === s.language)) errors.language = `Unsupported language '${s.language}'.`;
+  if (!ACTIVATION_MODES.some(m => m.id === s.activation)) errors.activation = `Unknown activation mode '${s.activation}'.`;
+  if (s.wakePhrase.trim().split(/\s+/).length < 2) errors.wakePhrase = 'Use at least two words so the phrase is not triggered by accident.';
+  if (!s.pushToTalkKey) errors.pushToTalkKey = 'Press a key to use for push to talk.';
+  if (!Number.isFinite(s.sleepAfterSec) || s.sleepAfterSec < 0 || s.sleepAfterSec > MAX_SLEEP_SEC) {
+    errors.sleepAfterSec = `Pick 0 (never) to ${MAX_SLEEP_SEC} seconds.`;
+  }
+  return errors;
+};
+
+/** Replaces anything invalid with the default so a bad stored value can never break a session. */
+export const normalizeSettings = (s: Partial<AssistantSettings>): AssistantSettings => {
+  const merged = { ...DEFAULT_SETTINGS, ...s, transcription: s.transcription ?? DEFAULT_SETTINGS.transcription };
+  const errors = validateSettings(merged);
+  const fixed: AssistantSettings = { ...merged };
+  const reset = <K extends keyof AssistantSettings>(key: K) => { fixed[key] = DEFAULT_SETTINGS[key]; };
+  for (const key of Object.keys(errors) as (keyof AssistantSettings)[]) {
+    if (key === 'customPrompt') {
+      fixed.customPrompt = merged.customPrompt.slice(0, MAX_PROMPT_LENGTH);
+      if (!fixed.customPrompt.trim()) fixed.persona = DEFAULT_SETTINGS.persona;
+    } else {
+      reset(key);
+    }
+  }
+  return fixed;
+};
+
+/** 'KeyT' -> 'T', 'Digit1' -> '1', 'Space' -> 'Space'. */
+export const keyLabel = (code: string) => code.replace(/^(Key|Digit)/, '');
+
+export const languageLabel = (code: string) => LANGUAGES.find(l => l.code === code)?.label ?? code;
+
+export const systemInstructionFor = (settings: AssistantSettings): string => {
+  const persona = settings.persona === 'custom'
+    ? settings.customPrompt.trim()
+    : (PERSONAS.find(p => p.id === settings.persona) ?? PERSONAS[0]).prompt;
+  const language = settings.language === 'en-US' ? '' : ` Speak and reply in ${languageLabel(settings.language)} unless the user asks otherwise.`;
+  return `${persona} ${ASSISTANT_GUIDANCE}${language}`;
+};
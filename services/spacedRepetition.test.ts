@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CardSchedule, FlashcardDeck } from '../types.ts';
+import { applyReview, dueQueue, initialSchedule } from './spacedRepetition.ts';
+
+const now = new Date('2026-03-10T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const schedule = (repetitions: number, interval: number, easeFactor = 2.5): CardSchedule =>
+  ({ cardId: 'c1', deckId: 'd1', repetitions, interval, easeFactor, dueAt: now.toISOString() });
+
+describe('applyReview', () => {
+  it.each<[string, CardSchedule, number, { repetitions: number; interval: number; easeFactor: number }]>([
+    ['a new card answered easy', schedule(0, 0), 5, { repetitions: 1, interval: 1, easeFactor: 2.6 }],
+    ['a new card answered good', schedule(0, 0), 4, { repetitions: 1, interval: 1, easeFactor: 2.5 }],
+    ['a second review answered hard', schedule(1, 1), 3, { repetitions: 2, interval: 6, easeFactor: 2.36 }],
+    ['a mature card answered good', schedule(2, 6), 4, { repetitions: 3, interval: 15, easeFactor: 2.5 }],
+    ['a mature card answered easy', schedule(3, 15, 2.0), 5, { repetitions: 4, interval: 30, easeFactor: 2.1 }],
+    ['a lapse with grade 2', schedule(4, 30), 2, { repetitions: 0, interval: 1, easeFactor: 2.18 }],
+    ['a lapse with grade 1', schedule(4, 30), 1, { repetitions: 0, interval: 1, easeFactor: 1.96 }],
+    ['a lapse with grade 0', schedule(4, 30), 0, { repetitions: 0, interval: 1, easeFactor: 1.7 }],
+    ['a lapse at the ease floor', schedule(2, 6, 1.4), 1, { repetitions: 0, interval: 1, easeFactor: 1.3 }],
+    ['a pass at the ease floor', schedule(2, 6, 1.3), 3, { repetitions: 3, interval: 8, easeFactor: 1.3 }],
+    ['a grade above the scale', schedule(0, 0), 9, { repetitions: 1, interval: 1, easeFactor: 2.6 }],
+    ['a fractional grade', schedule(0, 0), 2.6, { repetitions: 1, interval: 1, easeFactor: 2.36 }]
+  ])('%s', (_, before, grade, expected) => {
+    const after = applyReview(before, grade, now);
+    expect({ repetitions: after.repetitions, interval: after.interval }).toEqual({ repetitions: expected.repetitions, interval: expected.interval });
+    expect(after.easeFactor).toBeCloseTo(expected.easeFactor, 10);
+    expect(after.dueAt).toBe(new Date(now.getTime() + expected.interval * DAY_MS).toISOString());
+  });
+
+  it('keeps the card and deck ids', () => {
+    expect(applyReview(schedule(0, 0), 4, now)).toMatchObject({ cardId: 'c1', deckId: 'd1' });
+  });
+});
+
+describe('dueQueue', () => {
+  const card = (id: string) => ({ id, front: id, back: id });
+  const decks: FlashcardDeck[] = [
+    { id: 'd1', title: 'One', cards: [card('a'), card('b'), card('c')], sourceNoteIds: [], createdAt: now.toISOString() },
+    { id: 'd2', title: 'Two', cards: [card('x'), card('y')], sourceNoteIds: [], createdAt: now.toISOString() }
+  ];
+  const at = (cardId: string, deckId: string, offsetMs: number): CardSchedule =>
+    ({ ...initialSchedule(cardId, deckId), interval: 1, repetitions: 1, dueAt: new Date(now.getTime() + offsetMs).toISOString() });
+  const schedules = {
+    a: at('a', 'd1', -DAY_MS),
+    b: at('b', 'd1', DAY_MS),
+    x: at('x', 'd2', -3 * DAY_MS),
+    y: at('y', 'd2', -60 * 60 * 1000)
+  };
+
+  it('returns due cards, most overdue first, with new cards due now', () => {
+    const queue = dueQueue(decks, schedules, now);
+    expect(queue.map(s => s.cardId)).toEqual(['x', 'a', 'y', 'c']);
+    expect(queue.find(s => s.cardId === 'c')).toMatchObject({ deckId: 'd1', repetitions: 0 });
+  });
+
+  it('limits the queue to one deck', () => {
+    expect(dueQueue(decks, schedules, now, 'd1').map(s => s.cardId)).toEqual(['a', 'c']);
+  });
+
+  it('leaves out reviewed cards due later but keeps new ones', () => {
+    expect(dueQueue(decks, schedules, new Date(now.getTime() - 2 * DAY_MS), 'd1').map(s => s.cardId)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,79 @@
+import { CardSchedule, Flashcard, FlashcardDeck, ReviewAnswer, ReviewRecord } from '../types.ts';
+
+export const REVIEW_ANSWERS: ReviewAnswer[] = ['again', 'hard', 'good', 'easy'];
+
+// SM-2 quality for each answer button; anything below 3 counts as a lapse.
+export const ANSWER_GRADES: Record<ReviewAnswer, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const initialSchedule = (cardId: string, deckId: string, now = new Date()): CardSchedule => ({
+  cardId,
+  deckId,
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  dueAt: now.toISOString()
+});
+
+/** Applies one SM-2 review. Lapses reset the repetition count and bring the card back tomorrow. */
+export const applyReview = (schedule: CardSchedule, grade: number, now = new Date()): CardSchedule => {
+  const q = Math.max(0, Math.min(5, Math.round(grade)));
+  let { repetitions, interval } = schedule;
+  if (q >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * schedule.easeFactor);
+    repetitions += 1;
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+  const easeFactor = Math.max(MIN_EASE, schedule.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+  return { ...schedule, repetitions, interval, easeFactor, dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString() };
+};
+
+export const scheduleFor = (schedules: Record<string, CardSchedule>, card: Flashcard, deckId: string, now = new Date()) =>
+  schedules[card.id] ?? initialSchedule(card.id, deckId, now);
+
+// Cards due at `now`, most overdue first. New cards have never been reviewed and are always due.
+export const dueQueue = (decks: FlashcardDeck[], schedules: Record<string, CardSchedule>, now = new Date(), deckId?: string): CardSchedule[] =>
+  decks
+    .filter(d => !deckId || d.id === deckId)
+    .flatMap(d => d.cards.map(c => scheduleFor(schedules, c, d.id, now)))
+    .filter(s => s.dueAt <= now.toISOString())
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+
+export const findCard = (decks: FlashcardDeck[], cardId: string): { deck: FlashcardDeck; card: Flashcard } | undefined => {
+  for (const deck of decks) {
+    const card = deck.cards.find(c => c.id === cardId);
+    if (card) return { deck, card };
+  }
+  return undefined;
+};
+
+export const createReviewRecord = (before: CardSchedule, after: CardSchedule, answer: ReviewAnswer, now = new Date()): ReviewRecord => ({
+  id: `review-${now.getTime()}-${before.cardId}`,
+  cardId: before.cardId,
+  deckId: before.deckId,
+  answer,
+  grade: ANSWER_GRADES[answer],
+  reviewedAt: now.toISOString(),
+  intervalBefore: before.interval,
+  intervalAfter: after.interval,
+  easeFactor: after.easeFactor
+});
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportReviewHistory = (log: ReviewRecord[], decks: FlashcardDeck[], format: 'json' | 'csv'): string => {
+  const rows = log.map(r => {
+    const found = findCard(decks, r.cardId);
+    return { ...r, deck: found?.deck.title ?? '', front: found?.card.front ?? '' };
+  });
+  if (format === 'json') return JSON.stringify(rows, null, 2);
+  const columns = ['reviewedAt', 'deck', 'front', 'answer', 'grade', 'intervalBefore', 'intervalAfter', 'easeFactor'] as const;
+  return [columns.join(','), ...rows.map(r => columns.map(c => csvCell(r[c])).join(','))].join('\n');
+};
@@ -0,0 +1,180 @@
+// The Web Speech API is not in TypeScript's DOM lib; these are the parts the app touches.
+export interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  processLocally?: boolean;
+  onresult: ((e: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+interface SpeechRecognitionCtor {
+  new (): SpeechRecognitionLike;
+  // Chrome's on-device recognition; absent elsewhere.
+  available?: (options: { langs: string[]; processLocally: boolean }) => Promise<'available' | 'downloadable' | 'downloading' | 'unavailable'>;
+  install?: (options: { langs: string[]; processLocally: boolean }) => Promise<boolean>;
+}
+
+export const getSpeechRecognition = (): SpeechRecognitionCtor | null =>
+  (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition ?? null;
+
+export type LocalRecognition = 'available' | 'downloadable' | 'unavailable';
+
+/**
+ * Whether speech can be recognised without audio leaving the device. Browsers that only offer
+ * server-side recognition report 'unavailable', because that would defeat a local wake phrase.
+ */
+export const localRecognitionSupport = async (lang: string): Promise<LocalRecognition> => {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition?.available) return 'unavailable';
+  try {
+    const status = await Recognition.available({ langs: [lang], processLocally: true });
+    if (status === 'available') return 'available';
+    return status === 'unavailable' ? 'unavailable' : 'downloadable';
+  } catch {
+    return 'unavailable';
+  }
+};
+
+export const installLocalRecognition = async (lang: string): Promise<boolean> => {
+  const Recognition = getSpeechRecognition();
+  return Recognition?.install ? Recognition.install({ langs: [lang], processLocally: true }).catch(() => false) : false;
+};
+
+// Spoken forms recognisers produce for the assistant's name.
+const NAME_FORMS: [RegExp, string][] = [
+  [/\b(v|vee|vi)[\s-]?(1|one|won)\b/g, 'v1'],
+  [/\b(hay|hei|hi)\b/g, 'hey']
+];
+
+export const normalizeUtterance = (text: string): string => {
+  let out = text.toLowerCase().replace(/[^a-z0-9\s-]/g, ' ');
+  for (const [pattern, replacement] of NAME_FORMS) out = out.replace(pattern, replacement);
+  return out.replace(/[\s-]+/g, ' ').trim();
+};
+
+/** True when the phrase appears as whole words anywhere in what was heard. */
+export const containsWakePhrase = (heard: string, phrase: string): boolean => {
+  const target = normalizeUtterance(phrase);
+  return !!target && ` ${normalizeUtterance(heard)} `.includes(` ${target} `);
+};
+
+export interface WakeWordListener {
+  stop: () => void;
+}
+
+/**
+ * Listens on-device for the wake phrase and calls `onWake` once. Recognisers stop by themselves
+ * after silence, so the listener restarts until it hears the phrase or is stopped.
+ */
+export const listenForWakePhrase = (
+  phrase: string,
+  lang: string,
+  onWake: () => void,
+  onError: (message: string) => void
+): WakeWordListener => {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) {
+    onError('This browser has no speech recognition for the wake phrase.');
+    return { stop: () => {} };
+  }
+  let stopped = false;
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.processLocally = true;
+  recognition.onresult = (e) => {
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      if (!containsWakePhrase(e.results[i][0].transcript, phrase)) continue;
+      stopped = true;
+      recognition.abort();
+      onWake();
+      return;
+    }
+  };
+  recognition.onerror = (e) => {
+    if (e.error === 'no-speech' || e.error === 'aborted') return;
+    stopped = true;
+    onError(e.error === 'not-allowed' ? 'Microphone access was denied.' : `Wake phrase listener failed: ${e.error}`);
+  };
+  recognition.onend = () => {
+    if (!stopped) recognition.start();
+  };
+  recognition.start();
+  return {
+    stop: () => {
+      stopped = true;
+      recognition.abort();
+    }
+  };
+};
+
+/** Speech in and out without the Live API: the browser's own engines, or any local engine with the same shape. */
+export interface LocalSpeechEngine {
+  canListen: boolean;
+  canSpeak: boolean;
+  // Resolves with one finished utterance, or '' when nothing was said.
+  listen: (lang: string) => Promise<string>;
+  speak: (text: string, lang: string) => Promise<void>;
+  cancel: () => void;
+}
+
+export const createBrowserSpeechEngine = (): LocalSpeechEngine => {
+  const Recognition = getSpeechRecognition();
+  const synth: SpeechSynthesis | undefined = (window as any).speechSynthesis;
+  let current: SpeechRecognitionLike | null = null;
+
+  return {
+    canListen: !!Recognition,
+    canSpeak: !!synth,
+    listen: async (lang) => {
+      if (!Recognition) throw new Error('This browser has no speech recognition.');
+      // On-device when the language is installed; otherwise whatever the browser offers.
+      const local = (await localRecognitionSupport(lang)) === 'available';
+      current?.abort();
+      return new Promise<string>((resolve, reject) => {
+        const recognition = new Recognition();
+        current = recognition;
+        recognition.lang = lang;
+        recognition.continuous = false;
+        recognition.interimResults = false;
+        if (local) recognition.processLocally = true;
+        let heard = '';
+        recognition.onresult = (e) => {
+          for (let i = e.resultIndex; i < e.results.length; i++) {
+            if (e.results[i].isFinal) heard += e.results[i][0].transcript;
+          }
+        };
+        recognition.onerror = (e) => {
+          if (e.error === 'no-speech' || e.error === 'aborted') return;
+          reject(new Error(e.error === 'not-allowed' ? 'Microphone access was denied.'
+            : e.error === 'network' ? 'Speech recognition needs a connection in this browser.'
+            : `Speech recognition failed: ${e.error}`));
+        };
+        recognition.onend = () => {
+          if (current === recognition) current = null;
+          resolve(heard.trim());
+        };
+        recognition.start();
+      });
+    },
+    speak: (text, lang) => new Promise<void>((resolve) => {
+      if (!synth || !text) return resolve();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      synth.speak(utterance);
+    }),
+    cancel: () => {
+      current?.abort();
+      current = null;
+      synth?.cancel();
+    }
+  };
+};
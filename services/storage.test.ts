@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CollectionSchema, StoredEnvelope, createLocalStorageBackend, createMemoryBackend, loadCollection, migrate, saveCollection } from './storage.ts';
+
+type Item = { id: string; label: string; done: boolean };
+
+// v1 stored bare names, v2 added ids, v3 added the done flag.
+const itemsSchema: CollectionSchema<Item[]> = {
+  key: 'items',
+  version: 3,
+  migrations: {
+    1: (names: string[]) => names.map(name => ({ id: name.toLowerCase(), label: name })),
+    2: (items: Omit<Item, 'done'>[]) => items.map(i => ({ ...i, done: false }))
+  }
+};
+
+const envelope = <T>(version: number, data: T): StoredEnvelope<T> => ({ version, savedAt: '2026-01-01T00:00:00.000Z', data });
+
+describe('migrate', () => {
+  it('runs every step from the stored version up to the current one', () => {
+    expect(migrate(itemsSchema, envelope(1, ['Milk']))).toEqual([{ id: 'milk', label: 'Milk', done: false }]);
+    expect(migrate(itemsSchema, envelope(2, [{ id: 'a', label: 'A' }]))).toEqual([{ id: 'a', label: 'A', done: false }]);
+  });
+
+  it('returns current data unchanged', () => {
+    const data = [{ id: 'a', label: 'A', done: true }];
+    expect(migrate(itemsSchema, envelope(3, data))).toBe(data);
+  });
+
+  it('refuses data saved by a newer version', () => {
+    expect(() => migrate(itemsSchema, envelope(4, []))).toThrow("'items' was saved by a newer version (4 > 3)");
+  });
+
+  it('refuses a gap in the migration chain', () => {
+    const broken = { ...itemsSchema, migrations: { 2: itemsSchema.migrations[2] } };
+    expect(() => migrate(broken, envelope(1, ['Milk']))).toThrow("No migration for 'items' from version 1");
+  });
+});
+
+describe('loadCollection and saveCollection', () => {
+  it('returns undefined when nothing is stored', async () => {
+    expect(await loadCollection(itemsSchema, createMemoryBackend())).toBeUndefined();
+  });
+
+  it('saves a versioned envelope and loads it back', async () => {
+    const backend = createMemoryBackend();
+    const items = [{ id: 'a', label: 'A', done: true }];
+    await saveCollection(itemsSchema, items, backend);
+    expect(await backend.get('items')).toEqual({ version: 3, savedAt: expect.any(String), data: items });
+    expect(await loadCollection(itemsSchema, backend)).toEqual(items);
+  });
+
+  it('writes migrated data back at the current version', async () => {
+    const backend = createMemoryBackend();
+    await backend.set('items', envelope(1, ['Milk']));
+    const loaded = await loadCollection(itemsSchema, backend);
+    expect(await backend.get('items')).toMatchObject({ version: 3, data: loaded });
+  });
+
+  it('leaves current data alone on load', async () => {
+    const backend = createMemoryBackend();
+    const stored = envelope(3, [{ id: 'a', label: 'A', done: false }]);
+    await backend.set('items', stored);
+    await loadCollection(itemsSchema, backend);
+    expect(await backend.get('items')).toBe(stored);
+  });
+
+  it('revives after migrating without storing the revived copy', async () => {
+    const backend = createMemoryBackend();
+    await backend.set('items', envelope(3, [{ id: 'a', label: 'A', done: true }]));
+    const schema = { ...itemsSchema, revive: (items: Item[]) => items.map(i => ({ ...i, done: false })) };
+    expect(await loadCollection(schema, backend)).toEqual([{ id: 'a', label: 'A', done: false }]);
+    expect(await backend.get('items')).toMatchObject({ data: [{ done: true }] });
+  });
+});
+
+describe('createLocalStorageBackend', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('stores JSON under the prefix', async () => {
+    const raw = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (k: string) => raw.get(k) ?? null,
+      setItem: (k: string, v: string) => { raw.set(k, v); },
+      removeItem: (k: string) => { raw.delete(k); }
+    });
+    const backend = createLocalStorageBackend('test:');
+    await backend.set('items', { a: 1 });
+    expect(raw.get('test:items')).toBe('{"a":1}');
+    expect(await backend.get('items')).toEqual({ a: 1 });
+    await backend.remove('items');
+    expect(await backend.get('items')).toBeUndefined();
+  });
+});
+
+describe('getStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // getStorage caches its choice, so each case needs a fresh copy of the module.
+  const freshStorage = async () => {
+    vi.resetModules();
+    return (await import('./storage.ts')).getStorage;
+  };
+  const localStorageStub = { getItem: () => null, setItem: () => {}, removeItem: () => {} };
+
+  it('falls back to localStorage when IndexedDB fails to open', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('indexedDB', { open: () => { throw new Error('Blocked'); } });
+    vi.stubGlobal('localStorage', localStorageStub);
+    const getStorage = await freshStorage();
+    expect((await getStorage()).name).toBe('localstorage');
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('falls back to memory when neither is available', async () => {
+    vi.stubGlobal('indexedDB', undefined);
+    vi.stubGlobal('localStorage', undefined);
+    const getStorage = await freshStorage();
+    expect((await getStorage()).name).toBe('memory');
+  });
+
+  it('picks a backend once', async () => {
+    vi.stubGlobal('localStorage', localStorageStub);
+    const getStorage = await freshStorage();
+    const first = await getStorage();
+    vi.stubGlobal('localStorage', undefined);
+    expect(await getStorage()).toBe(first);
+  });
+});
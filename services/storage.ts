@@ -0,0 +1,114 @@
+export interface StorageBackend {
+  name: 'indexeddb' | 'localstorage' | 'memory';
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+// A collection is stored as a versioned envelope so that older data can be migrated forward on load.
+export interface StoredEnvelope<T = unknown> {
+  version: number;
+  savedAt: string;
+  data: T;
+}
+
+export interface CollectionSchema<T> {
+  key: string;
+  version: number;
+  // migrations[n] upgrades data written at version n to version n + 1.
+  migrations: Record<number, (data: any) => any>;
+  // Optional fix-up applied after load, e.g. to drop transient UI flags.
+  revive?: (data: T) => T;
+}
+
+const DB_NAME = 'v1-assistant';
+const STORE_NAME = 'collections';
+const LOCAL_PREFIX = 'v1:';
+
+export const requestToPromise = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+export const createIndexedDbBackend = async (dbName = DB_NAME): Promise<StorageBackend> => {
+  const open = indexedDB.open(dbName, 1);
+  open.onupgradeneeded = () => {
+    if (!open.result.objectStoreNames.contains(STORE_NAME)) open.result.createObjectStore(STORE_NAME);
+  };
+  const db = await requestToPromise(open);
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    name: 'indexeddb',
+    get: async <T>(key: string) => (await requestToPromise(store('readonly').get(key))) as T | undefined,
+    set: async (key, value) => { await requestToPromise(store('readwrite').put(value, key)); },
+    remove: async (key) => { await requestToPromise(store('readwrite').delete(key)); }
+  };
+};
+
+export const createLocalStorageBackend = (prefix = LOCAL_PREFIX): StorageBackend => ({
+  name: 'localstorage',
+  get: async <T>(key: string) => {
+    const raw = localStorage.getItem(prefix + key);
+    return raw === null ? undefined : JSON.parse(raw) as T;
+  },
+  set: async (key, value) => localStorage.setItem(prefix + key, JSON.stringify(value)),
+  remove: async (key) => localStorage.removeItem(prefix + key)
+});
+
+export const createMemoryBackend = (): StorageBackend => {
+  const data = new Map<string, unknown>();
+  return {
+    name: 'memory',
+    get: async <T>(key: string) => data.get(key) as T | undefined,
+    set: async (key, value) => { data.set(key, value); },
+    remove: async (key) => { data.delete(key); }
+  };
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+export const getStorage = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB !== 'undefined') {
+        try {
+          return await createIndexedDbBackend();
+        } catch (e) {
+          console.warn('IndexedDB unavailable, falling back to localStorage', e);
+        }
+      }
+      if (typeof localStorage !== 'undefined') return createLocalStorageBackend();
+      return createMemoryBackend();
+    })();
+  }
+  return backendPromise;
+};
+
+export const migrate = <T>(schema: CollectionSchema<T>, envelope: StoredEnvelope): T => {
+  if (envelope.version > schema.version) {
+    throw new Error(`'${schema.key}' was saved by a newer version (${envelope.version} > ${schema.version})`);
+  }
+  let data = envelope.data;
+  for (let v = envelope.version; v < schema.version; v++) {
+    const step = schema.migrations[v];
+    if (!step) throw new Error(`No migration for '${schema.key}' from version ${v}`);
+    data = step(data);
+  }
+  return data as T;
+};
+
+export const loadCollection = async <T>(schema: CollectionSchema<T>, backend?: StorageBackend): Promise<T | undefined> => {
+  const store = backend ?? await getStorage();
+  const envelope = await store.get<StoredEnvelope>(schema.key);
+  if (!envelope) return undefined;
+  const data = migrate(schema, envelope);
+  if (envelope.version !== schema.version) await saveCollection(schema, data, store);
+  return schema.revive ? schema.revive(data) : data;
+};
+
+export const saveCollection = async <T>(schema: CollectionSchema<T>, data: T, backend?: StorageBackend): Promise<void> => {
+  const store = backend ?? await getStorage();
+  const envelope: StoredEnvelope<T> = { version: schema.version, savedAt: new Date().toISOString(), data };
+  await store.set(schema.key, envelope);
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Note } from '../types.ts';
+import { createStubTextModel } from './textModel.ts';
+import { generateFlashcards, generateQuiz, summarizeNotes } from './studyGenerator.ts';
+
+const note = (id: string, title: string, content: string, tags: string[] = []): Note =>
+  ({ id, title, content, tags, createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' });
+
+const cells = note('n1', 'Cells', 'Mitochondria make ATP.', ['biology']);
+const genes = note('n2', 'Genes', 'DNA is transcribed into RNA.');
+
+describe('summarizeNotes', () => {
+  it('sends the notes and returns the trimmed summary', async () => {
+    const model = createStubTextModel(() => '  - Mitochondria make ATP.\n');
+    expect(await summarizeNotes(model, [cells])).toBe('- Mitochondria make ATP.');
+    expect(model.requests[0].prompt).toContain('## Cells (tags: biology)\nMitochondria make ATP.');
+    expect(model.requests[0].responseSchema).toBeUndefined();
+  });
+
+  it('refuses an empty selection without calling the model', async () => {
+    const model = createStubTextModel(() => 'unused');
+    await expect(summarizeNotes(model, [])).rejects.toThrow('Select at least one note first.');
+    expect(model.requests).toHaveLength(0);
+  });
+
+  it('throws when the model returns nothing', async () => {
+    await expect(summarizeNotes(createStubTextModel(() => '   '), [cells])).rejects.toThrow('No summary was generated');
+  });
+});
+
+describe('generateFlashcards', () => {
+  it('parses fenced JSON, trims sides and drops incomplete cards', async () => {
+    const reply = '```json\n' + JSON.stringify({ cards: [
+      { front: ' What makes ATP? ', back: ' Mitochondria ' },
+      { front: 'No back' },
+      { front: '  ', back: 'Blank front' },
+      { front: 'DNA becomes?', back: 'RNA' }
+    ] }) + '\n```';
+    const model = createStubTextModel(() => reply);
+    const deck = await generateFlashcards(model, [cells, genes], 4);
+    expect(deck.cards.map(({ front, back }) => ({ front, back }))).toEqual([
+      { front: 'What makes ATP?', back: 'Mitochondria' },
+      { front: 'DNA becomes?', back: 'RNA' }
+    ]);
+    expect(deck.title).toBe('Cells + 1 more');
+    expect(deck.sourceNoteIds).toEqual(['n1', 'n2']);
+    expect(new Set(deck.cards.map(c => c.id)).size).toBe(2);
+    expect(model.requests[0].prompt).toMatch(/^Write 4 flashcards/);
+    expect(model.requests[0].responseSchema).toBeDefined();
+  });
+
+  it.each([
+    ['no usable cards', JSON.stringify({ cards: [{ front: 'Only a front' }] }), 'No flashcards were generated'],
+    ['a missing cards field', '{}', 'No flashcards were generated'],
+    ['text that is not JSON', 'Sorry, I cannot help.', 'Could not read the generated flashcards']
+  ])('throws on %s', async (_, reply, message) => {
+    await expect(generateFlashcards(createStubTextModel(() => reply), [cells])).rejects.toThrow(message);
+  });
+});
+
+describe('generateQuiz', () => {
+  it('keeps only questions with options and an in-range answer', async () => {
+    const valid = { question: 'What makes ATP?', options: ['Mitochondria', 'Nucleus'], answerIndex: 0, explanation: 'Powerhouse.' };
+    const reply = JSON.stringify({ questions: [
+      valid,
+      { question: 'Out of range', options: ['a', 'b'], answerIndex: 2 },
+      { question: 'Negative', options: ['a', 'b'], answerIndex: -1 },
+      { question: 'Fractional', options: ['a', 'b'], answerIndex: 0.5 },
+      { question: 'One option', options: ['a'], answerIndex: 0 },
+      { question: 'No options', answerIndex: 0 },
+      { options: ['a', 'b'], answerIndex: 1 }
+    ] });
+    const quiz = await generateQuiz(createStubTextModel(() => reply), [cells]);
+    expect(quiz.questions).toEqual([valid]);
+    expect(quiz.title).toBe('Cells');
+  });
+
+  it.each([
+    ['no valid questions', JSON.stringify({ questions: [{ question: 'Q', options: ['a', 'b'], answerIndex: 5 }] }), 'No quiz questions were generated'],
+    ['text that is not JSON', '{"questions": [', 'Could not read the generated quiz']
+  ])('throws on %s', async (_, reply, message) => {
+    await expect(generateQuiz(createStubTextModel(() => reply), [cells])).rejects.toThrow(message);
+  });
+});
@@ -0,0 +1,97 @@
+import { Type, Schema } from '@google/genai';
+import { Note, FlashcardDeck, Quiz, QuizQuestion, Flashcard } from '../types.ts';
+import { TextModel } from './textModel.ts';
+import { newId } from './ids.ts';
+
+const SYSTEM_INSTRUCTION = 'You are V1, a study assistant. Work only from the notes provided; do not invent facts that are not supported by them.';
+
+const flashcardSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cards: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { front: { type: Type.STRING }, back: { type: Type.STRING } },
+        required: ['front', 'back']
+      }
+    }
+  },
+  required: ['cards']
+};
+
+const quizSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          answerIndex: { type: Type.INTEGER },
+          explanation: { type: Type.STRING }
+        },
+        required: ['question', 'options', 'answerIndex']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+const formatNotes = (notes: Note[]) => notes
+  .map(n => `## ${n.title}${n.tags.length ? ` (tags: ${n.tags.join(', ')})` : ''}\n${n.content}`)
+  .join('\n\n');
+
+const requireNotes = (notes: Note[]) => {
+  if (!notes.length) throw new Error('Select at least one note first.');
+};
+
+const parseJson = <T>(text: string, what: string): T => {
+  try {
+    return JSON.parse(text.replace(/^```(?:json)?\s*|\s*```$/g, '')) as T;
+  } catch {
+    throw new Error(`Could not read the generated ${what}`);
+  }
+};
+
+const deckTitle = (notes: Note[]) => notes.length === 1 ? notes[0].title : `${notes[0].title} + ${notes.length - 1} more`;
+
+export const summarizeNotes = async (model: TextModel, notes: Note[]): Promise<string> => {
+  requireNotes(notes);
+  const summary = await model.generate({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    prompt: `Summarise the following study notes in Markdown: a one-sentence overview, then 3-7 bullet points of key ideas.\n\n${formatNotes(notes)}`
+  });
+  if (!summary.trim()) throw new Error('No summary was generated');
+  return summary.trim();
+};
+
+export const generateFlashcards = async (model: TextModel, notes: Note[], count = 8): Promise<FlashcardDeck> => {
+  requireNotes(notes);
+  const raw = await model.generate({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    responseSchema: flashcardSchema,
+    prompt: `Write ${count} flashcards testing the key facts and concepts in these notes. Keep each side short.\n\n${formatNotes(notes)}`
+  });
+  const cards = (parseJson<{ cards?: Partial<Flashcard>[] }>(raw, 'flashcards').cards ?? [])
+    .filter(c => c.front?.trim() && c.back?.trim())
+    .map((c): Flashcard => ({ id: newId('card'), front: c.front!.trim(), back: c.back!.trim() }));
+  if (!cards.length) throw new Error('No flashcards were generated');
+  return { id: newId('deck'), title: deckTitle(notes), sourceNoteIds: notes.map(n => n.id), cards, createdAt: new Date().toISOString() };
+};
+
+export const generateQuiz = async (model: TextModel, notes: Note[], count = 5): Promise<Quiz> => {
+  requireNotes(notes);
+  const raw = await model.generate({
+    systemInstruction: SYSTEM_INSTRUCTION,
+    responseSchema: quizSchema,
+    prompt: `Write ${count} multiple-choice questions with 4 options each about these notes. answerIndex is the 0-based index of the correct option.\n\n${formatNotes(notes)}`
+  });
+  const questions = (parseJson<{ questions?: Partial<QuizQuestion>[] }>(raw, 'quiz').questions ?? [])
+    .filter((q): q is QuizQuestion => !!q.question && Array.isArray(q.options) && q.options.length >= 2 &&
+      Number.isInteger(q.answerIndex) && q.answerIndex! >= 0 && q.answerIndex! < q.options.length);
+  if (!questions.length) throw new Error('No quiz questions were generated');
+  return { id: newId('quiz'), title: deckTitle(notes), sourceNoteIds: notes.map(n => n.id), questions, createdAt: new Date().toISOString() };
+};
@@ -0,0 +1,63 @@
+import { Task, TaskCategory, TaskChanges, TaskPriority } from '../types.ts';
+
+export const TASK_CATEGORIES: TaskCategory[] = ['study', 'personal', 'work'];
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+const toIsoDate = (d: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Accepts YYYY-MM-DD, "today" or "tomorrow" and returns a YYYY-MM-DD string.
+export const parseDueDate = (input: string, now = new Date()): string => {
+  const value = input.trim().toLowerCase();
+  if (value === 'today') return toIsoDate(now);
+  if (value === 'tomorrow') return toIsoDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1));
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))) return value;
+  throw new Error(`Invalid due date '${input}'. Use YYYY-MM-DD, "today" or "tomorrow".`);
+};
+
+export const isOverdue = (task: Task, now = new Date()) =>
+  !task.completed && !!task.dueDate && task.dueDate < toIsoDate(now);
+
+export const sortTasks = (tasks: Task[]) => [...tasks].sort((a, b) =>
+  Number(a.completed) - Number(b.completed) ||
+  (a.dueDate ?? '9999').localeCompare(b.dueDate ?? '9999') ||
+  PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+);
+
+export const findTasks = (tasks: Task[], ref: string): Task[] => {
+  const byId = tasks.find(t => t.id === ref);
+  if (byId) return [byId];
+  const needle = ref.trim().toLowerCase();
+  const exact = tasks.filter(t => t.text.toLowerCase() === needle);
+  if (exact.length) return exact;
+  return tasks.filter(t => t.text.toLowerCase().includes(needle));
+};
+
+// Resolves a task by id or (partial) text; ambiguous or missing references throw so the model can ask again.
+export const resolveTask = (tasks: Task[], ref: string): Task => {
+  const matches = findTasks(tasks, ref);
+  if (matches.length === 0) throw new Error(`No task matches '${ref}'.`);
+  if (matches.length > 1) {
+    throw new Error(`'${ref}' matches several tasks: ${matches.map(t => `"${t.text}"`).join(', ')}. Be more specific.`);
+  }
+  return matches[0];
+};
+
+export const applyTaskChanges = (task: Task, changes: TaskChanges): Task => {
+  const { dueDate, ...rest } = changes;
+  const next: Task = { ...task, ...Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined)) };
+  if (dueDate === null || dueDate === '') delete next.dueDate;
+  else if (dueDate !== undefined) next.dueDate = parseDueDate(dueDate);
+  return next;
+};
+
+export const describeTask = (task: Task) => {
+  const parts = [`"${task.text}"`, task.category, `${task.priority} priority`];
+  if (task.dueDate) parts.push(`due ${task.dueDate}`);
+  parts.push(task.completed ? 'done' : 'open');
+  return parts.join(', ');
+};
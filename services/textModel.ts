@@ -0,0 +1,47 @@
+import { GoogleGenAI, Schema } from '@google/genai';
+
+export const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+export interface TextRequest {
+  prompt: string;
+  systemInstruction?: string;
+  // When set, the model is asked for JSON matching this schema.
+  responseSchema?: Schema;
+}
+
+/** The one-shot text generation surface the study tools depend on; tests drive them with createStubTextModel. */
+export interface TextModel {
+  generate: (request: TextRequest) => Promise<string>;
+}
+
+export const createGeminiTextModel = (apiKey: string, model = DEFAULT_TEXT_MODEL): TextModel => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    generate: async ({ prompt, systemInstruction, responseSchema }) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          ...(responseSchema ? { responseMimeType: 'application/json', responseSchema } : {})
+        }
+      });
+      const text = response.text;
+      if (!text) throw new Error('The model returned an empty response');
+      return text;
+    }
+  };
+};
+
+// Answers every request with `respond` and records what was asked, so callers can be tested without the API.
+export const createStubTextModel = (respond: (request: TextRequest) => string | Promise<string>) => {
+  const requests: TextRequest[] = [];
+  const model: TextModel & { requests: TextRequest[] } = {
+    requests,
+    generate: async (request) => {
+      requests.push(request);
+      return respond(request);
+    }
+  };
+  return model;
+};
@@ -0,0 +1,127 @@
+import { Type, Schema } from '@google/genai';
+import { AppNotification, TriageCategory, TriageResult, TriageRule } from '../types.ts';
+import { TextModel } from './textModel.ts';
+import { newId } from './ids.ts';
+
+export const TRIAGE_CATEGORIES: TriageCategory[] = ['urgent', 'needs_reply', 'fyi', 'noise'];
+
+export const triageLabel: Record<TriageCategory, string> = {
+  urgent: 'Urgent',
+  needs_reply: 'Needs Reply',
+  fyi: 'FYI',
+  noise: 'Noise'
+};
+
+const URGENT = /\b(urgent|asap|emergency|immediately|failed|failing|down|outage|deadline|due (today|tonight)|right now|call me|exam)\b/i;
+const REPLY = /\?|\b(can you|could you|are you|did you|will you|let me know|please (send|reply|confirm)|rsvp|meet)\b/i;
+const NOISE = /\b(liked|followed|started following|reacted|sale|% off|promo|newsletter|you missed|trending|suggested)\b/i;
+const SOCIAL_APPS = new Set(['instagram', 'twitter', 'tiktok', 'facebook']);
+const CHAT_APPS = new Set(['whatsapp', 'slack', 'messages', 'signal', 'telegram', 'teams']);
+
+export interface TriageContext {
+  rules: TriageRule[];
+  knownSenders: string[]; // e.g. contact names; messages from them matter more
+  llmLabels?: Record<string, TriageCategory>;
+}
+
+const lower = (s?: string) => (s ?? '').trim().toLowerCase();
+
+const ruleSpecificity = (rule: TriageRule) => (rule.sender ? 4 : 0) + (rule.keyword ? 2 : 0) + (rule.app ? 1 : 0);
+
+export const ruleMatches = (rule: TriageRule, n: AppNotification) =>
+  (!rule.app || lower(rule.app) === lower(n.app)) &&
+  (!rule.sender || lower(rule.sender) === lower(n.sender)) &&
+  (!rule.keyword || lower(n.content).includes(lower(rule.keyword)));
+
+export const matchingRule = (rules: TriageRule[], n: AppNotification): TriageRule | undefined =>
+  rules.filter(r => ruleMatches(r, n))
+    .sort((a, b) => ruleSpecificity(b) - ruleSpecificity(a) || b.createdAt.localeCompare(a.createdAt))[0];
+
+const categoryFromScore = (score: number): TriageCategory =>
+  score >= 70 ? 'urgent' : score >= 45 ? 'needs_reply' : score >= 20 ? 'fyi' : 'noise';
+
+const CATEGORY_SCORE: Record<TriageCategory, number> = { urgent: 85, needs_reply: 60, fyi: 30, noise: 5 };
+
+/** Rule-based scoring: keyword cues, the app it came from and whether the sender is someone the user knows. */
+export const scoreNotification = (n: AppNotification, knownSenders: string[]): TriageResult => {
+  const reasons: string[] = [];
+  let score = 30;
+  const app = lower(n.app);
+  if (URGENT.test(n.content)) { score += 40; reasons.push('urgent wording'); }
+  if (REPLY.test(n.content)) { score += 25; reasons.push('asks for a reply'); }
+  if (NOISE.test(n.content)) { score -= 30; reasons.push('social/promotional'); }
+  if (SOCIAL_APPS.has(app)) { score -= 10; reasons.push(`${n.app} activity`); }
+  if (CHAT_APPS.has(app)) { score += 5; }
+  if (knownSenders.some(s => lower(s) === lower(n.sender))) { score += 15; reasons.push('from a contact'); }
+  score = Math.max(0, Math.min(100, score));
+  const category = categoryFromScore(score);
+  // Confidence drops near the category boundaries; those are the ones worth an LLM pass.
+  const distance = Math.min(...[70, 45, 20].map(b => Math.abs(score - b)));
+  return { category, score, confidence: Math.min(1, 0.4 + distance / 25), reasons, source: 'scoring' };
+};
+
+export const triageNotification = (n: AppNotification, ctx: TriageContext): TriageResult => {
+  const rule = matchingRule(ctx.rules, n);
+  if (rule) {
+    const what = [rule.sender && `from ${rule.sender}`, rule.app && `on ${rule.app}`, rule.keyword && `mentioning "${rule.keyword}"`].filter(Boolean).join(' ');
+    return { category: rule.category, score: CATEGORY_SCORE[rule.category], confidence: 1, reasons: [`your rule: ${what}`], source: 'rule' };
+  }
+  const llm = ctx.llmLabels?.[n.id];
+  if (llm) return { category: llm, score: CATEGORY_SCORE[llm], confidence: 0.9, reasons: ['V1 judgement'], source: 'llm' };
+  return scoreNotification(n, ctx.knownSenders);
+};
+
+export interface TriagedNotification {
+  notification: AppNotification;
+  triage: TriageResult;
+}
+
+export const triageAll = (notifications: AppNotification[], ctx: TriageContext): TriagedNotification[] =>
+  notifications
+    .map(notification => ({ notification, triage: triageNotification(notification, ctx) }))
+    .sort((a, b) =>
+      TRIAGE_CATEGORIES.indexOf(a.triage.category) - TRIAGE_CATEGORIES.indexOf(b.triage.category) ||
+      b.triage.score - a.triage.score ||
+      b.notification.receivedAt.localeCompare(a.notification.receivedAt));
+
+export const isImportant = (t: TriagedNotification) => t.triage.category === 'urgent' || t.triage.category === 'needs_reply';
+
+// A correction becomes a sender+app rule, replacing any earlier rule for the same pair.
+export const ruleFromCorrection = (rules: TriageRule[], n: AppNotification, category: TriageCategory): TriageRule[] => [
+  ...rules.filter(r => !(lower(r.sender) === lower(n.sender) && lower(r.app) === lower(n.app) && !r.keyword)),
+  { id: newId('rule'), sender: n.sender, app: n.app, category, createdAt: new Date().toISOString() }
+];
+
+const llmSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    labels: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          category: { type: Type.STRING, enum: TRIAGE_CATEGORIES }
+        },
+        required: ['id', 'category']
+      }
+    }
+  },
+  required: ['labels']
+};
+
+/** Optional second opinion from the text model for notifications the scorer is unsure about. */
+export const llmTriage = async (model: TextModel, notifications: AppNotification[]): Promise<Record<string, TriageCategory>> => {
+  if (!notifications.length) return {};
+  const list = notifications.map(n => `- id=${n.id} | ${n.app} | ${n.sender}: ${n.content}`).join('\n');
+  const raw = await model.generate({
+    systemInstruction: 'You triage phone notifications for a student. urgent = needs attention now; needs_reply = someone expects an answer; fyi = useful but passive; noise = social or promotional.',
+    responseSchema: llmSchema,
+    prompt: `Classify each notification.\n${list}`
+  });
+  const parsed = JSON.parse(raw) as { labels?: { id: string; category: TriageCategory }[] };
+  const ids = new Set(notifications.map(n => n.id));
+  return Object.fromEntries((parsed.labels ?? [])
+    .filter(l => ids.has(l.id) && TRIAGE_CATEGORIES.includes(l.category))
+    .map(l => [l.id, l.category]));
+};
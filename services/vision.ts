@@ -0,0 +1,51 @@
+import { VisionSettings } from '../types.ts';
+
+export interface InlineImage {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+export const VISION_FPS_OPTIONS = [0.2, 0.5, 1, 2];
+export const VISION_WIDTH_OPTIONS = [320, 480, 640, 960];
+
+export const DEFAULT_VISION_SETTINGS: VisionSettings = { fps: 1, maxWidth: 640, quality: 0.6 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const normalizeVisionSettings = (s: VisionSettings): VisionSettings => ({
+  fps: clamp(Number(s.fps) || DEFAULT_VISION_SETTINGS.fps, 0.1, 2),
+  maxWidth: clamp(Math.round(Number(s.maxWidth) || DEFAULT_VISION_SETTINGS.maxWidth), 160, 1280),
+  quality: clamp(Number(s.quality) || DEFAULT_VISION_SETTINGS.quality, 0.3, 0.95)
+});
+
+/** Scales the source down to `maxWidth` and encodes it as JPEG for the Live API. */
+export const encodeImage = (source: CanvasImageSource, width: number, height: number, settings: VisionSettings): InlineImage => {
+  if (!width || !height) throw new Error('There is no image to send yet.');
+  const scale = Math.min(1, settings.maxWidth / width);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is unavailable.');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const url = canvas.toDataURL('image/jpeg', settings.quality);
+  return { data: url.slice(url.indexOf(',') + 1), mimeType: 'image/jpeg' };
+};
+
+export const encodeVideoFrame = (video: HTMLVideoElement, settings: VisionSettings) =>
+  encodeImage(video, video.videoWidth, video.videoHeight, settings);
+
+export const encodeImageBlob = async (blob: Blob, settings: VisionSettings): Promise<InlineImage> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return encodeImage(bitmap, bitmap.width, bitmap.height, settings);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Rough upper bound for the settings panel: JPEG at these qualities runs about 1–2 bits per pixel.
+export const estimateKbps = (s: VisionSettings) => {
+  const pixels = s.maxWidth * s.maxWidth * 0.5625;
+  return Math.round((pixels * (0.6 + s.quality * 1.4) * s.fps) / 1000);
+};
@@ -0,0 +1,28 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+type CallHandlers = Pick<AssistantHandlers, 'placeCall' | 'endCall' | 'answerCall'>;
+
+export const createCallTools = (handlers: CallHandlers): ToolDefinition[] => [
+  {
+    name: 'place_call',
+    description: 'Call a contact. If the result has status "ambiguous" or "not_found", ask the user the returned question before retrying.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { contact: { type: Type.STRING, description: 'Contact name as spoken, or a contact id from a previous result' } },
+      required: ['contact']
+    },
+    handler: ({ contact }) => handlers.placeCall(contact as string)
+  },
+  {
+    name: 'answer_call',
+    description: 'Pick up the incoming call.',
+    handler: () => handlers.answerCall()
+  },
+  {
+    name: 'end_call',
+    description: 'Hang up the current call, or decline it if it is still ringing.',
+    handler: () => handlers.endCall()
+  }
+];
@@ -0,0 +1,76 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+type CommunicationHandlers = Pick<AssistantHandlers, 'sendMessage' | 'readMessages' | 'addContact' | 'updateContact' | 'deleteContact' | 'listContacts'>;
+
+const contactRef = { type: Type.STRING, description: 'Contact name as spoken, or a contact id from a previous result' };
+
+export const createCommunicationTools = (handlers: CommunicationHandlers): ToolDefinition[] => [
+  {
+    name: 'send_message',
+    description: 'Send a text message to a contact. If the result has status "ambiguous" or "not_found", ask the user the returned question before retrying.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        recipient: contactRef,
+        text: { type: Type.STRING }
+      },
+      required: ['recipient', 'text']
+    },
+    handler: ({ recipient, text }) => handlers.sendMessage(recipient as string, text as string)
+  },
+  {
+    name: 'read_messages',
+    description: 'Read the recent conversation with a contact and mark it as read.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { contact: contactRef },
+      required: ['contact']
+    },
+    handler: ({ contact }) => handlers.readMessages(contact as string)
+  },
+  {
+    name: 'list_contacts',
+    description: 'List contacts with their unread message counts.',
+    handler: () => handlers.listContacts()
+  },
+  {
+    name: 'add_contact',
+    description: 'Add a new contact.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        name: { type: Type.STRING },
+        phone: { type: Type.STRING }
+      },
+      required: ['name']
+    },
+    handler: ({ name, phone }) => handlers.addContact(name as string, phone as string | undefined)
+  },
+  {
+    name: 'update_contact',
+    description: "Change a contact's name or phone number.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        contact: contactRef,
+        name: { type: Type.STRING },
+        phone: { type: Type.STRING }
+      },
+      required: ['contact']
+    },
+    validate: ({ name, phone }) => name === undefined && phone === undefined ? 'Nothing to update' : null,
+    handler: ({ contact, name, phone }) => handlers.updateContact(contact as string, { name: name as string | undefined, phone: phone as string | undefined })
+  },
+  {
+    name: 'delete_contact',
+    description: 'Remove a contact.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { contact: contactRef },
+      required: ['contact']
+    },
+    handler: ({ contact }) => handlers.deleteContact(contact as string)
+  }
+];
@@ -0,0 +1,42 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+type FocusHandlers = Pick<AssistantHandlers, 'startFocus' | 'pauseFocus' | 'resumeFocus' | 'stopFocus' | 'getFocusStatus'>;
+
+export const createFocusTools = (handlers: FocusHandlers): ToolDefinition[] => [
+  {
+    name: 'start_focus',
+    description: 'Start a Pomodoro focus session, e.g. "start a 25 minute focus on the calculus assignment". Notifications are held until it ends.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        minutes: { type: Type.INTEGER, description: 'Length of the work phase; omit for the configured default' },
+        task: { type: Type.STRING, description: 'The task id or text to focus on' }
+      }
+    },
+    validate: ({ minutes }) => minutes !== undefined && ((minutes as number) < 1 || (minutes as number) > 240)
+      ? 'minutes must be between 1 and 240' : null,
+    handler: ({ minutes, task }) => handlers.startFocus(minutes as number | undefined, task as string | undefined)
+  },
+  {
+    name: 'pause_focus',
+    description: 'Pause the running focus timer.',
+    handler: () => handlers.pauseFocus()
+  },
+  {
+    name: 'resume_focus',
+    description: 'Resume a paused focus timer.',
+    handler: () => handlers.resumeFocus()
+  },
+  {
+    name: 'stop_focus',
+    description: 'End the focus session early and release held notifications.',
+    handler: () => handlers.stopFocus()
+  },
+  {
+    name: 'get_focus_status',
+    description: 'How much time is left in the current focus session or break.',
+    handler: () => handlers.getFocusStatus()
+  }
+];
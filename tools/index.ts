@@ -0,0 +1,29 @@
+import { AssistantHandlers } from '../types.ts';
+import { createToolRegistry, ToolRegistry } from './registry.ts';
+import { createStudyTools } from './study.ts';
+import { createNoteTools } from './notes.ts';
+import { createReviewTools } from './review.ts';
+import { createFocusTools } from './focus.ts';
+import { createCommunicationTools } from './communication.ts';
+import { createCallTools } from './calls.ts';
+import { createNotificationTools } from './notifications.ts';
+import { createReplyTools } from './replies.ts';
+import { createMultimediaTools } from './multimedia.ts';
+import { createMemoryTools } from './memory.ts';
+import { createSystemTools } from './system.ts';
+
+export * from './registry.ts';
+
+export const createAssistantTools = (handlers: AssistantHandlers): ToolRegistry => createToolRegistry([
+  ...createSystemTools(handlers),
+  ...createStudyTools(handlers),
+  ...createNoteTools(handlers),
+  ...createReviewTools(handlers),
+  ...createFocusTools(handlers),
+  ...createCommunicationTools(handlers),
+  ...createCallTools(handlers),
+  ...createNotificationTools(handlers),
+  ...createReplyTools(handlers),
+  ...createMultimediaTools(handlers),
+  ...createMemoryTools(handlers)
+]);
@@ -0,0 +1,35 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+export const createMemoryTools = (handlers: Pick<AssistantHandlers, 'remember' | 'recall' | 'forget'>): ToolDefinition[] => [
+  {
+    name: 'remember',
+    description: 'Keep a fact or preference about the user across sessions, e.g. "Exam on the 12th" or "Alice is my lab partner". Save one self-contained sentence per fact.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { fact: { type: Type.STRING, description: 'The fact, written so it still makes sense weeks later' } },
+      required: ['fact']
+    },
+    handler: ({ fact }) => handlers.remember(fact as string)
+  },
+  {
+    name: 'recall',
+    description: 'Look up what you remember about the user. Leave the query out to list the most recent memories.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { query: { type: Type.STRING, description: 'Words to search for' } }
+    },
+    handler: ({ query }) => handlers.recall(query as string | undefined)
+  },
+  {
+    name: 'forget',
+    description: 'Delete a memory when the user asks you to forget something or it is no longer true.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { memory: { type: Type.STRING, description: 'The memory id or words from it' } },
+      required: ['memory']
+    },
+    handler: ({ memory }) => handlers.forget(memory as string)
+  }
+];
@@ -0,0 +1,72 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers, MediaAction, MediaCommand, RepeatMode } from '../types.ts';
+import { ToolArgs, ToolDefinition } from './registry.ts';
+
+const MEDIA_ACTIONS: MediaAction[] = ['play', 'pause', 'next', 'previous', 'seek', 'volume', 'shuffle', 'repeat', 'queue', 'status'];
+
+// Arguments each action cannot do without.
+const REQUIRED_FOR: Partial<Record<MediaAction, string>> = {
+  seek: 'position_sec',
+  volume: 'volume',
+  shuffle: 'enabled',
+  repeat: 'repeat'
+};
+
+const validateMediaArgs = (args: ToolArgs): string | null => {
+  const needed = REQUIRED_FOR[args.action as MediaAction];
+  if (needed && args[needed] === undefined) return `Action '${args.action}' needs '${needed}'`;
+  if (args.action === 'queue' && !args.query && !args.artist && !args.album && !args.playlist) return "Action 'queue' needs a query, artist, album or playlist";
+  if (typeof args.volume === 'number' && (args.volume < 0 || args.volume > 100)) return "'volume' must be between 0 and 100";
+  return null;
+};
+
+export const createMultimediaTools = (handlers: Pick<AssistantHandlers, 'controlMedia' | 'takePhoto'>): ToolDefinition[] => [
+  {
+    name: 'control_multimedia',
+    description: 'Control the music player over the local library. '
+      + 'For "play something by X" use action play with artist X; play with no selector resumes. Use status to find out what is playing.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        action: { type: Type.STRING, enum: MEDIA_ACTIONS },
+        query: { type: Type.STRING, description: 'Free text matched against title, artist and album' },
+        artist: { type: Type.STRING },
+        album: { type: Type.STRING },
+        playlist: { type: Type.STRING },
+        position_sec: { type: Type.NUMBER, description: 'For seek: position from the start of the track in seconds' },
+        volume: { type: Type.NUMBER, description: 'For volume: 0-100' },
+        enabled: { type: Type.BOOLEAN, description: 'For shuffle: on or off' },
+        repeat: { type: Type.STRING, enum: ['off', 'all', 'one'] }
+      },
+      required: ['action']
+    },
+    validate: validateMediaArgs,
+    handler: (args) => {
+      const command: MediaCommand = {
+        action: args.action as MediaAction,
+        query: args.query as string | undefined,
+        artist: args.artist as string | undefined,
+        album: args.album as string | undefined,
+        playlist: args.playlist as string | undefined,
+        positionSec: args.position_sec as number | undefined,
+        volume: args.volume as number | undefined,
+        enabled: args.enabled as boolean | undefined,
+        repeat: args.repeat as RepeatMode | undefined
+      };
+      return handlers.controlMedia(command);
+    }
+  },
+  {
+    name: 'take_photo',
+    description: 'Take a photo with the camera and save it to the vault. Count down out loud in step with the countdown.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        countdown_sec: { type: Type.INTEGER, description: 'Seconds to wait before the shot, 0-10 (default 3)' },
+        caption: { type: Type.STRING }
+      }
+    },
+    validate: ({ countdown_sec }) => typeof countdown_sec === 'number' && (countdown_sec < 0 || countdown_sec > 10) ? "'countdown_sec' must be between 0 and 10" : null,
+    handler: ({ countdown_sec, caption }) => handlers.takePhoto(countdown_sec as number | undefined, caption as string | undefined)
+  }
+];
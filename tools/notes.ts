@@ -0,0 +1,86 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+type NoteHandlers = Pick<AssistantHandlers, 'addNote' | 'appendToNote' | 'updateNote' | 'deleteNote' | 'searchNotes' | 'readNote'>;
+
+const noteRef = { type: Type.STRING, description: 'The note id, its title, or words from it' };
+const tags = { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Short lowercase topic tags' };
+
+export const createNoteTools = (handlers: NoteHandlers): ToolDefinition[] => [
+  {
+    name: 'add_note',
+    description: 'Save a new note in Study Support. Content may use Markdown.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        content: { type: Type.STRING },
+        tags
+      },
+      required: ['title', 'content']
+    },
+    handler: ({ title, content, tags }) => handlers.addNote(title as string, content as string, tags as string[] | undefined)
+  },
+  {
+    name: 'append_to_note',
+    description: 'Add text to the end of an existing note.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { note: noteRef, text: { type: Type.STRING } },
+      required: ['note', 'text']
+    },
+    handler: ({ note, text }) => handlers.appendToNote(note as string, text as string)
+  },
+  {
+    name: 'update_note',
+    description: 'Rename a note, replace its content or change its tags.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        note: noteRef,
+        title: { type: Type.STRING },
+        content: { type: Type.STRING },
+        tags
+      },
+      required: ['note']
+    },
+    validate: ({ title, content, tags }) =>
+      [title, content, tags].every(v => v === undefined) ? 'Nothing to update' : null,
+    handler: ({ note, title, content, tags }) => handlers.updateNote(note as string, {
+      title: title as string | undefined,
+      content: content as string | undefined,
+      tags: tags as string[] | undefined
+    })
+  },
+  {
+    name: 'delete_note',
+    description: 'Delete a note.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { note: noteRef },
+      required: ['note']
+    },
+    handler: ({ note }) => handlers.deleteNote(note as string)
+  },
+  {
+    name: 'search_notes',
+    description: 'Full-text search over note titles, tags and content, e.g. "backpropagation".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { query: { type: Type.STRING } },
+      required: ['query']
+    },
+    handler: ({ query }) => handlers.searchNotes(query as string)
+  },
+  {
+    name: 'read_note',
+    description: 'Read the full content of a note.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { note: noteRef },
+      required: ['note']
+    },
+    handler: ({ note }) => handlers.readNote(note as string)
+  }
+];
@@ -0,0 +1,49 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers, TriageCategory } from '../types.ts';
+import { TRIAGE_CATEGORIES } from '../services/triage.ts';
+import { ToolDefinition } from './registry.ts';
+
+type NotificationHandlers = Pick<AssistantHandlers, 'getNotifications' | 'classifyNotification' | 'setDoNotDisturb'>;
+
+export const createNotificationTools = (handlers: NotificationHandlers): ToolDefinition[] => [
+  {
+    name: 'get_notifications',
+    description: 'Get triaged notifications, most important first. By default only urgent and needs-reply items are returned; read those aloud briefly.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        scope: { type: Type.STRING, enum: ['important', 'all'], description: 'important (default) or all' },
+        category: { type: Type.STRING, enum: TRIAGE_CATEGORIES },
+        mark_read: { type: Type.BOOLEAN, description: 'Mark the returned notifications as read' }
+      }
+    },
+    handler: ({ scope, category, mark_read }) => handlers.getNotifications({
+      scope: scope as 'important' | 'all' | undefined,
+      category: category as TriageCategory | undefined,
+      markRead: mark_read as boolean | undefined
+    })
+  },
+  {
+    name: 'classify_notification',
+    description: 'Correct how a notification was classified, e.g. "Dev Team messages are urgent". Future notifications from that sender follow the correction.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        notification_id: { type: Type.STRING },
+        category: { type: Type.STRING, enum: TRIAGE_CATEGORIES }
+      },
+      required: ['notification_id', 'category']
+    },
+    handler: ({ notification_id, category }) => handlers.classifyNotification(notification_id as string, category as TriageCategory)
+  },
+  {
+    name: 'set_do_not_disturb',
+    description: 'Turn Do Not Disturb on or off. While it is on, new notifications are not read aloud unless a rule says to always announce them.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { enabled: { type: Type.BOOLEAN } },
+      required: ['enabled']
+    },
+    handler: ({ enabled }) => handlers.setDoNotDisturb(enabled as boolean)
+  }
+];
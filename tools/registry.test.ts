@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Type } from '@google/genai';
+import { ToolDecision, ToolPolicy } from '../types.ts';
+import { ToolArgs, ToolDefinition, ToolGate, ToolResponse, createToolRegistry, guardRegistry, validateArgs } from './registry.ts';
+
+const addTask: ToolDefinition = {
+  name: 'add_task',
+  description: 'Add a task',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING },
+      priority: { type: Type.STRING, enum: ['high', 'medium', 'low'] },
+      minutes: { type: Type.INTEGER },
+      tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      repeat: { type: Type.OBJECT, properties: { every: { type: Type.NUMBER } }, required: ['every'] }
+    },
+    required: ['text']
+  },
+  validate: (args) => String(args.text).length > 20 ? 'Task text is too long' : null,
+  handler: (args) => `Added ${args.text}`
+};
+
+const explode: ToolDefinition = {
+  name: 'explode',
+  description: 'Always fails',
+  handler: async () => { throw new Error('Kaboom'); }
+};
+
+describe('validateArgs', () => {
+  it.each<[string, ToolArgs, string | null]>([
+    ['well-formed arguments', { text: 'Read', priority: 'low', minutes: 5, tags: ['a'], repeat: { every: 1.5 } }, null],
+    ['unknown extra arguments', { text: 'Read', colour: 'blue' }, null],
+    ['a missing required argument', { priority: 'low' }, "Missing required argument 'text'"],
+    ['an empty required string', { text: '' }, "Missing required argument 'text'"],
+    ['a wrong type', { text: 42 }, "'text' must be of type string"],
+    ['a value outside the enum', { text: 'Read', priority: 'urgent' }, "'priority' must be one of: high, medium, low"],
+    ['a fractional integer', { text: 'Read', minutes: 2.5 }, "'minutes' must be of type integer"],
+    ['a bad array item', { text: 'Read', tags: ['a', 3] }, "'tags[1]' must be of type string"],
+    ['a missing nested argument', { text: 'Read', repeat: {} }, "Missing required argument 'repeat.every'"],
+    ["the tool's own check", { text: 'a very long task description' }, 'Task text is too long']
+  ])('%s', (_, args, expected) => {
+    expect(validateArgs(addTask, args)).toBe(expected);
+  });
+});
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry([addTask, explode]);
+
+  it('runs the handler for a valid call', async () => {
+    expect(await registry.execute('add_task', { text: 'Read' })).toEqual({ result: 'Added Read' });
+  });
+
+  it('rejects an unknown tool and lists the available ones', async () => {
+    expect(await registry.execute('fly', {})).toEqual({
+      error: { code: 'UNKNOWN_TOOL', message: "No tool named 'fly'. Available tools: add_task, explode" }
+    });
+  });
+
+  it('rejects invalid arguments without running the handler', async () => {
+    const handler = vi.fn();
+    const strict = createToolRegistry([{ ...addTask, handler }]);
+    expect(await strict.execute('add_task', { text: 7 })).toEqual({
+      error: { code: 'INVALID_ARGUMENTS', message: "'text' must be of type string" }
+    });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('turns a thrown handler error into HANDLER_FAILED', async () => {
+    expect(await registry.execute('explode')).toEqual({ error: { code: 'HANDLER_FAILED', message: 'Kaboom' } });
+  });
+
+  it('refuses duplicate names, including through extend', () => {
+    expect(() => createToolRegistry([addTask, addTask])).toThrow("Tool 'add_task' is registered twice");
+    expect(() => registry.extend([explode])).toThrow("Tool 'explode' is registered twice");
+  });
+
+  it('declares an empty parameter object for tools without one', () => {
+    expect(registry.declarations().find(d => d.name === 'explode')?.parameters).toEqual({ type: Type.OBJECT, properties: {} });
+  });
+});
+
+describe('guardRegistry', () => {
+  const setup = (policy: ToolPolicy, answer = true, screen?: ToolGate['screen']) => {
+    const handler = vi.fn(() => 'done');
+    const audits: { name: string; decision: ToolDecision; response: ToolResponse }[] = [];
+    const gate: ToolGate = {
+      policy: () => policy,
+      screen,
+      confirm: vi.fn(async () => answer),
+      audit: (name, _args, decision, response) => { audits.push({ name, decision, response }); }
+    };
+    const guarded = guardRegistry(createToolRegistry([{ ...addTask, handler }]), gate);
+    return { guarded, gate, handler, audits };
+  };
+
+  it.each<[ToolPolicy, boolean, ToolDecision, boolean]>([
+    ['allow', true, 'allowed', true],
+    ['ask', true, 'confirmed', true],
+    ['ask', false, 'declined', false],
+    ['never', true, 'blocked', false]
+  ])("policy '%s' with answer %s is audited as %s", async (policy, answer, decision, runs) => {
+    const { guarded, gate, handler, audits } = setup(policy, answer);
+    const response = await guarded.execute('add_task', { text: 'Read' });
+    expect(handler).toHaveBeenCalledTimes(runs ? 1 : 0);
+    expect(gate.confirm).toHaveBeenCalledTimes(policy === 'ask' ? 1 : 0);
+    expect(audits).toEqual([{ name: 'add_task', decision, response }]);
+    if (!runs) expect(response).toMatchObject({ error: { code: 'PERMISSION_DENIED' } });
+  });
+
+  it('refuses a screened call without asking', async () => {
+    const { guarded, gate, handler, audits } = setup('ask', true, () => 'example.com is on the blocked sites list.');
+    expect(await guarded.execute('add_task', { text: 'Read' })).toEqual({
+      error: { code: 'PERMISSION_DENIED', message: 'example.com is on the blocked sites list.' }
+    });
+    expect(gate.confirm).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+    expect(audits[0].decision).toBe('blocked');
+  });
+
+  it('rejects malformed and unknown calls before asking or auditing', async () => {
+    const { guarded, gate, audits } = setup('ask');
+    expect(await guarded.execute('add_task', {})).toMatchObject({ error: { code: 'INVALID_ARGUMENTS' } });
+    expect(await guarded.execute('fly')).toMatchObject({ error: { code: 'UNKNOWN_TOOL' } });
+    expect(gate.confirm).not.toHaveBeenCalled();
+    expect(audits).toEqual([]);
+  });
+
+  it('audits an allowed call whose handler fails', async () => {
+    const { gate, audits } = setup('allow');
+    const guarded = guardRegistry(createToolRegistry([explode]), gate);
+    const response = await guarded.execute('explode');
+    expect(response).toEqual({ error: { code: 'HANDLER_FAILED', message: 'Kaboom' } });
+    expect(audits).toEqual([{ name: 'explode', decision: 'allowed', response }]);
+  });
+
+  it('keeps guarding tools added through extend', async () => {
+    const { guarded, audits } = setup('never');
+    const extended = guarded.extend([{ name: 'ping', description: 'Ping', handler: () => 'pong' }]);
+    expect(await extended.execute('ping')).toMatchObject({ error: { code: 'PERMISSION_DENIED' } });
+    expect(audits.map(a => a.name)).toEqual(['ping']);
+  });
+});
@@ -0,0 +1,160 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+import { ToolDecision, ToolPolicy } from '../types.ts';
+
+export type ToolArgs = Record<string, unknown>;
+
+export type ToolErrorCode = 'UNKNOWN_TOOL' | 'INVALID_ARGUMENTS' | 'HANDLER_FAILED' | 'PERMISSION_DENIED';
+
+export type ToolResponse =
+  | { result: unknown }
+  | { error: { code: ToolErrorCode; message: string } };
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters?: Schema;
+  // Extra checks beyond the schema; return a message to reject the call.
+  validate?: (args: ToolArgs) => string | null;
+  handler: (args: ToolArgs) => unknown | Promise<unknown>;
+}
+
+export interface ToolRegistry {
+  has: (name: string) => boolean;
+  names: () => string[];
+  declarations: () => FunctionDeclaration[];
+  extend: (tools: ToolDefinition[]) => ToolRegistry;
+  // The error execute() would return without running the handler, or null if the call is well-formed.
+  check: (name: string, args?: ToolArgs) => ToolResponse | null;
+  execute: (name: string, args?: ToolArgs) => Promise<ToolResponse>;
+}
+
+export interface ToolGate {
+  policy: (name: string) => ToolPolicy;
+  // A reason to refuse this particular call whatever the policy, e.g. a URL on the deny list.
+  screen?: (name: string, args: ToolArgs) => string | null;
+  // Resolves with the user's answer; the tool response waits until then.
+  confirm: (name: string, args: ToolArgs) => Promise<boolean>;
+  audit: (name: string, args: ToolArgs, decision: ToolDecision, response: ToolResponse) => void;
+}
+
+const toolError = (code: ToolErrorCode, message: string): ToolResponse => ({ error: { code, message } });
+
+const typeMatches = (schema: Schema, value: unknown): boolean => {
+  switch (schema.type) {
+    case Type.STRING: return typeof value === 'string';
+    case Type.NUMBER: return typeof value === 'number' && !Number.isNaN(value);
+    case Type.INTEGER: return typeof value === 'number' && Number.isInteger(value);
+    case Type.BOOLEAN: return typeof value === 'boolean';
+    case Type.ARRAY: return Array.isArray(value);
+    case Type.OBJECT: return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default: return true;
+  }
+};
+
+const validateValue = (schema: Schema, value: unknown, path: string): string | null => {
+  if (!typeMatches(schema, value)) return `'${path}' must be of type ${String(schema.type).toLowerCase()}`;
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return `'${path}' must be one of: ${schema.enum.join(', ')}`;
+  }
+  if (schema.type === Type.ARRAY && schema.items) {
+    const items = value as unknown[];
+    for (let i = 0; i < items.length; i++) {
+      const err = validateValue(schema.items, items[i], `${path}[${i}]`);
+      if (err) return err;
+    }
+  }
+  if (schema.type === Type.OBJECT && schema.properties) {
+    return validateObject(schema, value as ToolArgs, path);
+  }
+  return null;
+};
+
+const validateObject = (schema: Schema, args: ToolArgs, prefix = ''): string | null => {
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined || args[key] === null || args[key] === '') {
+      return `Missing required argument '${prefix ? `${prefix}.` : ''}${key}'`;
+    }
+  }
+  for (const [key, value] of Object.entries(args)) {
+    const propSchema = schema.properties?.[key];
+    if (!propSchema || value === undefined || value === null) continue;
+    const err = validateValue(propSchema, value, prefix ? `${prefix}.${key}` : key);
+    if (err) return err;
+  }
+  return null;
+};
+
+export const validateArgs = (tool: ToolDefinition, args: ToolArgs): string | null => {
+  if (tool.parameters) {
+    const err = validateObject(tool.parameters, args);
+    if (err) return err;
+  }
+  return tool.validate ? tool.validate(args) : null;
+};
+
+export const createToolRegistry = (tools: ToolDefinition[]): ToolRegistry => {
+  const byName = new Map<string, ToolDefinition>();
+  for (const tool of tools) {
+    if (byName.has(tool.name)) throw new Error(`Tool '${tool.name}' is registered twice`);
+    byName.set(tool.name, tool);
+  }
+
+  const check = (name: string, args: ToolArgs): ToolResponse | null => {
+    const tool = byName.get(name);
+    if (!tool) return toolError('UNKNOWN_TOOL', `No tool named '${name}'. Available tools: ${[...byName.keys()].join(', ')}`);
+    const invalid = validateArgs(tool, args);
+    return invalid ? toolError('INVALID_ARGUMENTS', invalid) : null;
+  };
+
+  return {
+    has: (name) => byName.has(name),
+    names: () => [...byName.keys()],
+    declarations: () => [...byName.values()].map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters: parameters ?? { type: Type.OBJECT, properties: {} }
+    })),
+    extend: (more) => createToolRegistry([...byName.values(), ...more]),
+    check: (name, args = {}) => check(name, args),
+    execute: async (name, args = {}) => {
+      const rejected = check(name, args);
+      if (rejected) return rejected;
+      try {
+        return { result: await byName.get(name)!.handler(args) };
+      } catch (e: any) {
+        return toolError('HANDLER_FAILED', e?.message || String(e));
+      }
+    }
+  };
+};
+
+/**
+ * Wraps a registry so every call passes the user's policy first: 'never' and screened-out calls
+ * are refused, 'ask' waits for confirmation, and each well-formed call is audited with its
+ * outcome. Malformed calls are rejected before the user is asked about them.
+ */
+export const guardRegistry = (registry: ToolRegistry, gate: ToolGate): ToolRegistry => ({
+  ...registry,
+  extend: (more) => guardRegistry(registry.extend(more), gate),
+  execute: async (name, args = {}) => {
+    const rejected = registry.check(name, args);
+    if (rejected) return rejected;
+    const policy = gate.policy(name);
+    const refused = policy === 'never'
+      ? `The user has turned off '${name}'. Tell them it can be allowed in Settings.`
+      : gate.screen?.(name, args);
+    if (refused) {
+      const response = toolError('PERMISSION_DENIED', refused);
+      gate.audit(name, args, 'blocked', response);
+      return response;
+    }
+    if (policy === 'ask' && !(await gate.confirm(name, args))) {
+      const response = toolError('PERMISSION_DENIED', 'The user declined this action.');
+      gate.audit(name, args, 'declined', response);
+      return response;
+    }
+    const response = await registry.execute(name, args);
+    gate.audit(name, args, policy === 'ask' ? 'confirmed' : 'allowed', response);
+    return response;
+  }
+});
@@ -0,0 +1,46 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+type ReplyHandlers = Pick<AssistantHandlers, 'suggestReplies' | 'draftReply' | 'confirmReply' | 'cancelReply'>;
+
+export const createReplyTools = (handlers: ReplyHandlers): ToolDefinition[] => [
+  {
+    name: 'suggest_replies',
+    description: 'Suggest short replies to a notification (ids come from get_notifications). Offer the options to the user and let them choose or dictate their own.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { notification_id: { type: Type.STRING } },
+      required: ['notification_id']
+    },
+    handler: ({ notification_id }) => handlers.suggestReplies(notification_id as string)
+  },
+  {
+    name: 'draft_reply',
+    description: 'Prepare a reply to a notification without sending it. Read the draft back and ask the user to confirm.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        notification_id: { type: Type.STRING },
+        text: { type: Type.STRING }
+      },
+      required: ['notification_id', 'text']
+    },
+    handler: ({ notification_id, text }) => handlers.draftReply(notification_id as string, text as string)
+  },
+  {
+    name: 'confirm_reply',
+    description: 'Send the pending reply draft. Only call this after the user has heard the draft and explicitly said to send it; it is refused in the same turn the draft was made.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { draft_id: { type: Type.STRING, description: 'The id returned by draft_reply' } },
+      required: ['draft_id']
+    },
+    handler: ({ draft_id }) => handlers.confirmReply(draft_id as string)
+  },
+  {
+    name: 'cancel_reply',
+    description: 'Discard the pending reply draft.',
+    handler: () => handlers.cancelReply()
+  }
+];
@@ -0,0 +1,38 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers, ReviewAnswer } from '../types.ts';
+import { REVIEW_ANSWERS } from '../services/spacedRepetition.ts';
+import { ToolDefinition } from './registry.ts';
+
+type ReviewHandlers = Pick<AssistantHandlers, 'startReview' | 'revealAnswer' | 'gradeCard' | 'endReview'>;
+
+export const createReviewTools = (handlers: ReviewHandlers): ToolDefinition[] => [
+  {
+    name: 'start_review',
+    description: 'Start a spaced-repetition flashcard review and return the first card to read aloud. Do not reveal the answer until the user has tried.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { deck: { type: Type.STRING, description: 'Deck title; omit to review every due card' } }
+    },
+    handler: ({ deck }) => handlers.startReview(deck as string | undefined)
+  },
+  {
+    name: 'reveal_answer',
+    description: 'Reveal the answer of the current flashcard.',
+    handler: () => handlers.revealAnswer()
+  },
+  {
+    name: 'grade_card',
+    description: 'Record how well the user recalled the current card ("that was easy" = easy, forgot = again) and move to the next card.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { answer: { type: Type.STRING, enum: REVIEW_ANSWERS } },
+      required: ['answer']
+    },
+    handler: ({ answer }) => handlers.gradeCard(answer as ReviewAnswer)
+  },
+  {
+    name: 'end_review',
+    description: 'Stop the current flashcard review.',
+    handler: () => handlers.endReview()
+  }
+];
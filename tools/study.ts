@@ -0,0 +1,92 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers, TaskCategory, TaskPriority } from '../types.ts';
+import { TASK_CATEGORIES, TASK_PRIORITIES } from '../services/tasks.ts';
+import { ToolDefinition } from './registry.ts';
+
+type StudyHandlers = Pick<AssistantHandlers, 'addTask' | 'updateTask' | 'deleteTask' | 'listTasks'>;
+
+const taskRef = { type: Type.STRING, description: 'The task id or (part of) its text' };
+const dueDate = { type: Type.STRING, description: 'Due date as YYYY-MM-DD, "today" or "tomorrow"' };
+
+export const createStudyTools = (handlers: StudyHandlers): ToolDefinition[] => [
+  {
+    name: 'add_task',
+    description: 'Add an item to the task checklist.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING },
+        category: { type: Type.STRING, enum: TASK_CATEGORIES },
+        priority: { type: Type.STRING, enum: TASK_PRIORITIES },
+        due_date: dueDate
+      },
+      required: ['text']
+    },
+    handler: ({ text, category, priority, due_date }) => handlers.addTask(text as string, {
+      category: category as TaskCategory | undefined,
+      priority: priority as TaskPriority | undefined,
+      dueDate: due_date as string | undefined
+    })
+  },
+  {
+    name: 'complete_task',
+    description: 'Mark a task as done, or as not done with completed=false.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        task: taskRef,
+        completed: { type: Type.BOOLEAN }
+      },
+      required: ['task']
+    },
+    handler: ({ task, completed }) => handlers.updateTask(task as string, { completed: completed !== false })
+  },
+  {
+    name: 'update_task',
+    description: 'Rename, re-categorise, re-prioritise or reschedule a task. Pass due_date "none" to clear it.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        task: taskRef,
+        text: { type: Type.STRING },
+        category: { type: Type.STRING, enum: TASK_CATEGORIES },
+        priority: { type: Type.STRING, enum: TASK_PRIORITIES },
+        due_date: dueDate
+      },
+      required: ['task']
+    },
+    validate: ({ text, category, priority, due_date }) =>
+      [text, category, priority, due_date].every(v => v === undefined) ? 'Nothing to update' : null,
+    handler: ({ task, text, category, priority, due_date }) => handlers.updateTask(task as string, {
+      text: text as string | undefined,
+      category: category as TaskCategory | undefined,
+      priority: priority as TaskPriority | undefined,
+      dueDate: due_date === 'none' ? null : due_date as string | undefined
+    })
+  },
+  {
+    name: 'delete_task',
+    description: 'Remove a task from the checklist.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { task: taskRef },
+      required: ['task']
+    },
+    handler: ({ task }) => handlers.deleteTask(task as string)
+  },
+  {
+    name: 'list_tasks',
+    description: 'List tasks, optionally filtered by category.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        category: { type: Type.STRING, enum: TASK_CATEGORIES },
+        include_completed: { type: Type.BOOLEAN }
+      }
+    },
+    handler: ({ category, include_completed }) => handlers.listTasks({
+      category: category as TaskCategory | undefined,
+      includeCompleted: include_completed as boolean | undefined
+    })
+  }
+];
@@ -0,0 +1,21 @@
+import { Type } from '@google/genai';
+import { AssistantHandlers } from '../types.ts';
+import { ToolDefinition } from './registry.ts';
+
+export const createSystemTools = (handlers: Pick<AssistantHandlers, 'getTime' | 'openUrl'>): ToolDefinition[] => [
+  {
+    name: 'get_current_time',
+    description: 'Get the current local time.',
+    handler: () => handlers.getTime()
+  },
+  {
+    name: 'open_website',
+    description: 'Open a website in a new browser tab.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { target: { type: Type.STRING, description: 'Site name or URL' } },
+      required: ['target']
+    },
+    handler: ({ target }) => handlers.openUrl(target as string)
+  }
+];
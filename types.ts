@@ -1,10 +1,12 @@
-
 export const ModuleType = {
   VOICE: 'voice',
   STUDY: 'study',
   COMMUNICATION: 'communication',
   NOTIFICATIONS: 'notifications',
-  MULTIMEDIA: 'multimedia'
+  MULTIMEDIA: 'multimedia',
+  HISTORY: 'history',
+  MEMORY: 'memory',
+  SETTINGS: 'settings'
 } as const;
 
 export type ModuleType = typeof ModuleType[keyof typeof ModuleType];
@@ -12,15 +14,36 @@ export type ModuleType = typeof ModuleType[keyof typeof ModuleType];
 export interface Note {
   id: string;
   title: string;
-  content: string;
-  date: string;
+  content: string; // Markdown
+  tags: string[];
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export interface NoteChanges {
+  title?: string;
+  content?: string;
+  tags?: string[];
 }
 
+export type TaskCategory = 'study' | 'personal' | 'work';
+export type TaskPriority = 'low' | 'medium' | 'high';
+
 export interface Task {
   id: string;
   text: string;
   completed: boolean;
-  category: 'study' | 'personal' | 'work';
+  category: TaskCategory;
+  priority: TaskPriority;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface TaskChanges {
+  text?: string;
+  category?: TaskCategory;
+  priority?: TaskPriority;
+  dueDate?: string | null;
+  completed?: boolean;
 }
 
 export interface Contact {
@@ -36,12 +59,399 @@ export interface Message {
   text: string;
   timestamp: string;
   incoming: boolean;
+  read: boolean;
 }
 
+// Returned to the model instead of guessing when a spoken name matches several contacts.
+export interface ContactDisambiguation {
+  status: 'ambiguous' | 'not_found';
+  question: string;
+  candidates: { id: string; name: string; phone: string }[];
+}
+
+export type NotificationStatus = 'unread' | 'read' | 'dismissed' | 'archived';
+
 export interface AppNotification {
   id: string;
-  app: 'WhatsApp' | 'Instagram' | 'Slack';
+  app: string; // source app name, e.g. 'WhatsApp'; any app a source reports is accepted
   sender: string;
   content: string;
-  timestamp: string;
+  receivedAt: string; // ISO timestamp
+  status: NotificationStatus;
+  sourceId: string; // the NotificationSource that delivered it
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface MediaState {
+  queue: string[]; // track ids in play order
+  baseQueue: string[]; // the same tracks before shuffling
+  queueIndex: number;
+  positionSec: number;
+  volume: number; // 0..1
+  shuffle: boolean;
+  repeat: RepeatMode;
+  isPlaying: boolean;
+  flashActive: boolean;
+}
+
+export interface Track {
+  id: string;
+  title: string;
+  artist: string;
+  album?: string;
+  durationSec: number;
+  fileName: string;
+  mimeType: string;
+  addedAt: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  trackIds: string[];
+  createdAt: string;
+}
+
+export type MediaAction = 'play' | 'pause' | 'next' | 'previous' | 'seek' | 'volume' | 'shuffle' | 'repeat' | 'queue' | 'status';
+
+// Structured form of a voice media command; `query`/`artist`/`album`/`playlist` select what to play or queue.
+export interface MediaCommand {
+  action: MediaAction;
+  query?: string;
+  artist?: string;
+  album?: string;
+  playlist?: string;
+  positionSec?: number;
+  volume?: number; // 0..100
+  enabled?: boolean;
+  repeat?: RepeatMode;
+}
+
+export interface AssistantHandlers {
+  addNote: (title: string, content: string, tags?: string[]) => string;
+  appendToNote: (ref: string, text: string) => string;
+  updateNote: (ref: string, changes: NoteChanges) => string;
+  deleteNote: (ref: string) => string;
+  searchNotes: (query: string) => string;
+  readNote: (ref: string) => string;
+  startReview: (deck?: string) => string;
+  revealAnswer: () => string;
+  gradeCard: (answer: ReviewAnswer) => string;
+  endReview: () => string;
+  startFocus: (minutes?: number, taskRef?: string) => string;
+  pauseFocus: () => string;
+  resumeFocus: () => string;
+  stopFocus: () => string;
+  getFocusStatus: () => string;
+  addTask: (text: string, options?: { category?: TaskCategory; priority?: TaskPriority; dueDate?: string }) => string;
+  updateTask: (ref: string, changes: TaskChanges) => string;
+  deleteTask: (ref: string) => string;
+  listTasks: (filter?: { category?: TaskCategory; includeCompleted?: boolean }) => string;
+  sendMessage: (recipient: string, text: string) => string | ContactDisambiguation;
+  readMessages: (contact: string) => string | ContactDisambiguation;
+  addContact: (name: string, phone?: string) => string;
+  updateContact: (contact: string, changes: { name?: string; phone?: string }) => string | ContactDisambiguation;
+  deleteContact: (contact: string) => string | ContactDisambiguation;
+  listContacts: () => string;
+  placeCall: (contact: string) => string | ContactDisambiguation;
+  answerCall: () => string;
+  endCall: () => string;
+  getNotifications: (filter?: { scope?: 'important' | 'all'; category?: TriageCategory; markRead?: boolean }) => string;
+  classifyNotification: (id: string, category: TriageCategory) => string;
+  suggestReplies: (notificationId: string) => Promise<string>;
+  draftReply: (notificationId: string, text: string) => string;
+  confirmReply: (draftId: string) => string;
+  cancelReply: () => string;
+  setDoNotDisturb: (enabled: boolean) => string;
+  controlMedia: (command: MediaCommand) => string | Promise<string>;
+  takePhoto: (countdownSec?: number, caption?: string) => Promise<string>;
+  remember: (fact: string) => string;
+  recall: (query?: string) => string;
+  forget: (ref: string) => string;
+  getTime: () => string;
+  openUrl: (target: string) => string;
+}
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  title: string;
+  sourceNoteIds: string[];
+  cards: Flashcard[];
+  createdAt: string;
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number;
+  explanation?: string;
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  sourceNoteIds: string[];
+  questions: QuizQuestion[];
+  createdAt: string;
+}
+
+export type ReviewAnswer = 'again' | 'hard' | 'good' | 'easy';
+
+export interface CardSchedule {
+  cardId: string;
+  deckId: string;
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  dueAt: string; // ISO timestamp
+}
+
+export interface ReviewRecord {
+  id: string;
+  cardId: string;
+  deckId: string;
+  answer: ReviewAnswer;
+  grade: number; // SM-2 quality, 0-5
+  reviewedAt: string;
+  intervalBefore: number;
+  intervalAfter: number;
+  easeFactor: number;
+}
+
+export type FocusPhase = 'work' | 'shortBreak' | 'longBreak';
+
+export interface FocusConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // work sessions per long break
+}
+
+export interface FocusState {
+  phase: FocusPhase | null; // null while idle
+  taskId?: string;
+  startedAt?: string;
+  endsAt?: string; // set while running
+  remainingMs?: number; // set while paused
+  plannedMinutes: number;
+  completedWorkSessions: number;
+  held: AppNotification[]; // notifications deferred until the work phase ends
+}
+
+export interface FocusSessionLog {
+  id: string;
+  taskId?: string;
+  startedAt: string;
+  endedAt: string;
+  plannedMinutes: number;
+  focusedMinutes: number;
+  completed: boolean;
+}
+
+export type CallDirection = 'outgoing' | 'incoming';
+export type CallStatus = 'dialing' | 'ringing' | 'active' | 'ended' | 'missed' | 'declined' | 'failed';
+export type CallEndReason = 'hangup' | 'remote_hangup' | 'declined' | 'no_answer' | 'busy' | 'failed';
+
+export interface CallRecord {
+  id: string;
+  contactId: string;
+  direction: CallDirection;
+  status: CallStatus;
+  startedAt: string;
+  answeredAt?: string;
+  endedAt?: string;
+  durationSec: number; // talk time, 0 for calls that never connected
+  endReason?: CallEndReason;
+}
+
+export interface NotificationSourceSettings {
+  mockEnabled: boolean;
+  websocketEnabled: boolean;
+  websocketUrl: string;
+}
+
+export type TriageCategory = 'urgent' | 'needs_reply' | 'fyi' | 'noise';
+
+// Learned from user corrections; the most specific matching rule wins over scoring and the LLM.
+export interface TriageRule {
+  id: string;
+  app?: string;
+  sender?: string;
+  keyword?: string;
+  category: TriageCategory;
+  createdAt: string;
+}
+
+export interface TriageResult {
+  category: TriageCategory;
+  score: number; // 0-100, higher is more important
+  confidence: number; // 0-1
+  reasons: string[];
+  source: 'scoring' | 'llm' | 'rule';
+}
+
+export interface TriageSettings {
+  llmEnabled: boolean;
+}
+
+// A reply the user has not approved yet; nothing is sent until it is confirmed.
+export interface ReplyDraft {
+  id: string;
+  notificationId: string;
+  recipient: string;
+  text: string;
+  suggestions: string[];
+  createdAt: string;
+  // How many turns the user had taken when it was shown; a spoken confirmation has to come in a later one.
+  shownInTurn?: number;
+}
+
+export type NotificationRuleAction = 'mute' | 'announce' | 'digest' | 'create_task';
+
+// Where an incoming notification went: to the inbox, held back for now (e.g. during focus), or
+// diverted by a rule (muted straight into the archive, or queued for the digest).
+export type NotificationRouting = 'inbox' | 'held' | 'diverted';
+
+// Clock times are 'HH:MM' in local time; `end` before `start` wraps past midnight.
+export interface TimeWindow {
+  start: string;
+  end: string;
+  days?: number[]; // 0 = Sunday; every day when omitted
+}
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  app?: string;
+  sender?: string;
+  keyword?: string;
+  window?: TimeWindow;
+  action: NotificationRuleAction;
+}
+
+export interface DndSchedule {
+  id: string;
+  label: string;
+  enabled: boolean;
+  window: TimeWindow;
+}
+
+export interface DndSettings {
+  manual: boolean; // "on now" switch, independent of the schedules
+  announce: boolean; // whether V1 speaks new notifications during a Live session
+  schedules: DndSchedule[];
+}
+
+export type CaptureKind = 'photo' | 'video';
+
+// Metadata for a camera capture; the image or video itself lives in the blob store under the same id.
+export interface MediaCapture {
+  id: string;
+  kind: CaptureKind;
+  mimeType: string;
+  width: number;
+  height: number;
+  durationSec?: number;
+  caption?: string;
+  favourite: boolean;
+  createdAt: string;
+}
+
+export type VisionMode = 'off' | 'camera' | 'image';
+
+// Limits on what is streamed to the Live session as image input.
+export interface VisionSettings {
+  fps: number;
+  maxWidth: number;
+  quality: number; // JPEG quality 0..1
+}
+
+export type TurnRole = 'user' | 'assistant';
+export type TurnChannel = 'voice' | 'text';
+
+// A tool the assistant called while producing a turn, with what the registry returned.
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+// One exchange in the shared conversation; voice turns hold the transcription.
+export interface ConversationTurn {
+  id: string;
+  role: TurnRole;
+  channel: TurnChannel;
+  text: string;
+  at: string;
+  tools?: ToolCallRecord[];
+}
+
+export interface ConversationSession {
+  id: string;
+  startedAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+  contextFrom?: string; // id of the past session reopened as context for this one
+}
+
+// A fact or preference about the user that V1 keeps across sessions.
+export interface Memory {
+  id: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+  source: 'assistant' | 'user'; // saved through the remember tool or typed in the Memory panel
+}
+
+export type PersonaId = 'v1' | 'tutor' | 'coach' | 'custom';
+
+// continuous: the mic streams for the whole session; push_to_talk: only while a key is held;
+// wake_word: a local recogniser waits for the wake phrase before a session is opened.
+export type ActivationMode = 'continuous' | 'push_to_talk' | 'wake_word';
+
+// How the Live session is configured; read when a session starts, so changes apply to the next one.
+export interface AssistantSettings {
+  voice: string; // a Gemini prebuilt voice name
+  model: string; // Live API model id
+  persona: PersonaId;
+  customPrompt: string; // used when persona is 'custom'
+  language: string; // BCP-47 code V1 speaks and replies in
+  transcription: boolean;
+  activation: ActivationMode;
+  wakePhrase: string;
+  pushToTalkKey: string; // KeyboardEvent.code
+  sleepAfterSec: number; // end the session after this long without speech; 0 keeps it open
+}
+
+// allow: run at once; ask: wait for the user to confirm each call; never: refuse it.
+export type ToolPolicy = 'allow' | 'ask' | 'never';
+
+export interface ToolPermissions {
+  policies: Record<string, ToolPolicy>; // tools left out use their default policy
+  // Host patterns for open_website; 'example.com' covers its subdomains. Deny wins, and an empty
+  // allow list lets through any host that isn't denied.
+  urlAllow: string[];
+  urlDeny: string[];
+}
+
+export type ToolDecision = 'allowed' | 'confirmed' | 'declined' | 'blocked';
+
+// One tool call as the permission gate saw it, whether or not it ran.
+export interface ToolAuditEntry {
+  id: string;
+  at: string;
+  tool: string;
+  args: Record<string, unknown>;
+  decision: ToolDecision;
+  result?: unknown;
+  error?: string;
 }